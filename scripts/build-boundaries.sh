@@ -0,0 +1,31 @@
+#!/bin/sh
+# Build the CAOP freguesia boundaries read by --boundaries
+#
+# Merges the CAOP freguesia layers given as arguments into one WGS84 GeoJSON and
+# simplifies the polygons, which keeps the file small enough to load on every run,
+# then writes the freguesia catalogue (data/freguesias.json) from it.
+#
+#   npm run boundaries -- Continente_CAOP.gpkg Madeira_CAOP.gpkg Acores_CAOP.gpkg
+#
+# Needs GDAL (ogrmerge.py and ogr2ogr).
+#   BOUNDARIES_FILE      output (default: data/caop-freguesias.geojson)
+#   SIMPLIFY_TOLERANCE   in degrees (default: 0.0001, about 10 m)
+
+set -eu
+
+if [ $# -eq 0 ]; then
+  echo "Usage: npm run boundaries -- <CAOP freguesia layer>..." >&2
+  exit 1
+fi
+
+out=${BOUNDARIES_FILE:-data/caop-freguesias.geojson}
+tolerance=${SIMPLIFY_TOLERANCE:-0.0001}
+tmp=$(mktemp -d)
+trap 'rm -rf "$tmp"' EXIT
+
+mkdir -p "$(dirname "$out")"
+ogrmerge.py -single -f GPKG -t_srs EPSG:4326 -o "$tmp/merged.gpkg" "$@"
+rm -f "$out"
+ogr2ogr -f GeoJSON -simplify "$tolerance" -lco COORDINATE_PRECISION=6 "$out" "$tmp/merged.gpkg"
+echo "Wrote $out"
+npx tsx scripts/build-freguesias.ts "$out"
@@ -0,0 +1,20 @@
+/**
+ * Write the freguesia catalogue read by src/locations.ts from the CAOP boundaries
+ *
+ *   npx tsx scripts/build-freguesias.ts [boundaries] [output]
+ *
+ * Defaults to data/caop-freguesias.geojson and data/freguesias.json; run by
+ * npm run boundaries once the boundaries are built.
+ */
+
+import { AdminBoundaries, DEFAULT_BOUNDARIES_FILE } from '../src/geo';
+import { DEFAULT_FREGUESIAS_FILE } from '../src/locations';
+import { writeAtomic } from '../src/utils';
+
+const [input = DEFAULT_BOUNDARIES_FILE, output = DEFAULT_FREGUESIAS_FILE] = process.argv.slice(2);
+
+const sources = (await AdminBoundaries.load(input))!.freguesiaSources();
+await writeAtomic(output, `${JSON.stringify(sources, null, 2)}\n`);
+
+const count = Object.values(sources).reduce((sum, names) => sum + names.length, 0);
+console.log(`Wrote ${count} freguesias of ${Object.keys(sources).length} concelhos to ${output}`);
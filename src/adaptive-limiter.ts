@@ -0,0 +1,193 @@
+/**
+ * Adaptive per-proxy, per-host request pacing
+ *
+ * Every (proxy, host) pair gets its own token bucket. Its rate follows the
+ * responses it sees, additive-increase / multiplicative-decrease style:
+ *
+ *   success          - interval shrinks by `speedUpMs` (rate grows slowly)
+ *   slow response    - interval x1.5
+ *   challenge or 429 - interval x2
+ *   hard block       - interval x4
+ *
+ * Learned intervals can be saved to a JSON file and loaded on the next run,
+ * so a proxy that idealista throttles starts out slow instead of re-learning.
+ */
+
+import { readFile } from 'fs/promises';
+import { createLogger } from './logger';
+import { RateLimiter } from './rate-limiter';
+import { delay, writeAtomic } from './utils';
+
+const logger = createLogger('adaptive-limiter');
+
+export const DEFAULT_RATE_STATE_FILE = '.rate-limits.json';
+
+export type PaceSignal = 'success' | 'slow' | 'challenge' | 'rate_limited' | 'hard_block';
+
+export interface AdaptiveLimiterOptions {
+  /** Interval for a (proxy, host) pair seen for the first time (default: 3000) */
+  initialIntervalMs?: number;
+  /** Fastest allowed pace (default: 1000) */
+  minIntervalMs?: number;
+  /** Slowest pace after repeated blocks (default: 120000) */
+  maxIntervalMs?: number;
+  /** Interval reduction per successful page (default: 100) */
+  speedUpMs?: number;
+  /** Responses slower than this count as a slow-down signal (default: 8000) */
+  slowResponseMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface PaceState {
+  intervalMs: number;
+  successes: number;
+  slowdowns: number;
+  updatedAt: string;
+}
+
+const BACKOFF_FACTORS: Record<Exclude<PaceSignal, 'success'>, number> = {
+  slow: 1.5,
+  challenge: 2,
+  rate_limited: 2,
+  hard_block: 4,
+};
+
+/**
+ * Limiter key for a request: "{proxy server or direct}|{host}"
+ */
+export function paceKey(proxyServer: string | null | undefined, url: string): string {
+  return `${proxyServer || 'direct'}|${new URL(url).host}`;
+}
+
+export class AdaptiveRateLimiter {
+  private buckets = new Map<string, RateLimiter>();
+  private state = new Map<string, PaceState>();
+  private settings: Required<Omit<AdaptiveLimiterOptions, 'now' | 'sleep'>>;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(options: AdaptiveLimiterOptions = {}) {
+    this.settings = {
+      initialIntervalMs: options.initialIntervalMs ?? 3000,
+      minIntervalMs: options.minIntervalMs ?? 1000,
+      maxIntervalMs: options.maxIntervalMs ?? 120000,
+      speedUpMs: options.speedUpMs ?? 100,
+      slowResponseMs: options.slowResponseMs ?? 8000,
+    };
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? delay;
+  }
+
+  /**
+   * Limiter seeded from a state file written by save(); a missing file starts fresh
+   */
+  static async load(path: string, options: AdaptiveLimiterOptions = {}): Promise<AdaptiveRateLimiter> {
+    const limiter = new AdaptiveRateLimiter(options);
+
+    try {
+      const saved = JSON.parse(await readFile(path, 'utf-8')) as Record<string, PaceState>;
+      for (const [key, state] of Object.entries(saved)) {
+        limiter.state.set(key, { ...state, intervalMs: limiter.clamp(state.intervalMs) });
+      }
+      logger.info(`Loaded pacing for ${limiter.state.size} proxy/host pairs from ${path}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable rate state ${path}:`, error);
+      }
+    }
+
+    return limiter;
+  }
+
+  /**
+   * Wait until the next request for this key may start
+   */
+  async acquire(key: string): Promise<void> {
+    await this.bucket(key).acquire();
+  }
+
+  /**
+   * Mark a request as finished (frees its slot)
+   */
+  release(key: string): void {
+    this.bucket(key).release();
+  }
+
+  /**
+   * Feed a response back into the pace for this key
+   *
+   * Successful responses slower than `slowResponseMs` count as `slow`.
+   */
+  report(key: string, signal: PaceSignal, latencyMs?: number): void {
+    const state = this.getState(key);
+    const effective: PaceSignal =
+      signal === 'success' && latencyMs !== undefined && latencyMs > this.settings.slowResponseMs
+        ? 'slow'
+        : signal;
+
+    const previous = state.intervalMs;
+    if (effective === 'success') {
+      state.intervalMs = this.clamp(state.intervalMs - this.settings.speedUpMs);
+      state.successes++;
+    } else {
+      state.intervalMs = this.clamp(state.intervalMs * BACKOFF_FACTORS[effective]);
+      state.slowdowns++;
+      logger.info(`${key}: ${effective}, slowing down from ${previous}ms to ${state.intervalMs}ms between requests`);
+    }
+
+    state.updatedAt = new Date(this.now()).toISOString();
+    this.buckets.get(key)?.setIntervalMs(state.intervalMs);
+  }
+
+  /** Current interval between requests for a key */
+  intervalFor(key: string): number {
+    return this.getState(key).intervalMs;
+  }
+
+  /** Snapshot of every key's learned pace */
+  getStates(): Record<string, PaceState> {
+    return Object.fromEntries([...this.state].map(([key, state]) => [key, { ...state }]));
+  }
+
+  /**
+   * Write learned paces to a JSON file for the next run
+   */
+  async save(path: string): Promise<void> {
+    await writeAtomic(path, JSON.stringify(this.getStates(), null, 2));
+  }
+
+  private getState(key: string): PaceState {
+    let state = this.state.get(key);
+    if (!state) {
+      state = {
+        intervalMs: this.settings.initialIntervalMs,
+        successes: 0,
+        slowdowns: 0,
+        updatedAt: new Date(this.now()).toISOString(),
+      };
+      this.state.set(key, state);
+    }
+    return state;
+  }
+
+  private bucket(key: string): RateLimiter {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new RateLimiter({
+        intervalMs: this.getState(key).intervalMs,
+        maxConcurrent: Number.MAX_SAFE_INTEGER,
+        now: this.now,
+        sleep: this.sleep,
+      });
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private clamp(intervalMs: number): number {
+    return Math.round(
+      Math.min(this.settings.maxIntervalMs, Math.max(this.settings.minIntervalMs, intervalMs))
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Local archive of fetched pages
+ *
+ * Every page the scraper fetches can be archived with its URL, fetch time,
+ * HTTP status and DataDome outcome, so a run can later be replayed offline
+ * (see the --replay option) without launching a browser.
+ *
+ * Layout:
+ *   {dir}/index.jsonl        - one ArchiveEntry per line, in fetch order
+ *   {dir}/pages/{file}.html  - raw HTML of each fetch
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createLogger } from './logger';
+import type { DataDomeOutcome } from './stealth';
+
+const logger = createLogger('archive');
+
+const INDEX_FILE = 'index.jsonl';
+const PAGES_DIR = 'pages';
+
+export interface ArchiveEntry {
+  url: string;
+  /** ISO timestamp of the fetch */
+  timestamp: string;
+  /** HTTP status of the navigation response, if known */
+  status?: number;
+  outcome: DataDomeOutcome;
+  /** HTML file path relative to the archive directory */
+  file: string;
+}
+
+export class PageArchive {
+  // Latest usable (clear) entry per URL
+  private latest = new Map<string, ArchiveEntry>();
+  private count = 0;
+
+  private constructor(readonly dir: string) {}
+
+  /**
+   * Open an archive directory, loading its index if one exists
+   */
+  static async open(dir: string): Promise<PageArchive> {
+    const archive = new PageArchive(dir);
+
+    let raw = '';
+    try {
+      raw = await readFile(join(dir, INDEX_FILE), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        archive.index(JSON.parse(line) as ArchiveEntry);
+      } catch {
+        logger.warn(`Skipping malformed index line in ${dir}: ${line.slice(0, 80)}`);
+      }
+    }
+
+    logger.info(`Opened archive ${dir} (${archive.count} pages, ${archive.latest.size} URLs)`);
+    return archive;
+  }
+
+  /** Number of archived fetches, including blocked ones */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Archive a fetched page
+   */
+  async save(
+    url: string,
+    html: string,
+    options: { status?: number; outcome?: DataDomeOutcome; timestamp?: string } = {}
+  ): Promise<ArchiveEntry> {
+    const timestamp = options.timestamp ?? new Date().toISOString();
+    const hash = createHash('sha1').update(url).digest('hex').slice(0, 12);
+    const entry: ArchiveEntry = {
+      url,
+      timestamp,
+      status: options.status,
+      outcome: options.outcome ?? 'clear',
+      file: `${PAGES_DIR}/${timestamp.replace(/[-:.]/g, '')}-${hash}.html`,
+    };
+
+    await mkdir(join(this.dir, PAGES_DIR), { recursive: true });
+    await writeFile(join(this.dir, entry.file), html);
+    await appendFile(join(this.dir, INDEX_FILE), `${JSON.stringify(entry)}\n`);
+
+    this.index(entry);
+    return entry;
+  }
+
+  /**
+   * Latest clear (not challenged or blocked) entry for a URL
+   */
+  lookup(url: string): ArchiveEntry | undefined {
+    return this.latest.get(url);
+  }
+
+  /**
+   * HTML of the latest clear fetch of a URL, or null if it was never archived
+   */
+  async read(url: string): Promise<string | null> {
+    const entry = this.lookup(url);
+    return entry ? readFile(join(this.dir, entry.file), 'utf-8') : null;
+  }
+
+  private index(entry: ArchiveEntry): void {
+    this.count++;
+    if (entry.outcome !== 'clear') return;
+
+    const current = this.latest.get(entry.url);
+    if (!current || current.timestamp <= entry.timestamp) {
+      this.latest.set(entry.url, entry);
+    }
+  }
+}
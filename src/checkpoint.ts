@@ -0,0 +1,342 @@
+/**
+ * Resumable crawl checkpoints
+ *
+ * A checkpoint records every completed (location, transactionType, page)
+ * tuple of a run together with the properties scraped from it, plus which
+ * searches ran to their last page. Resuming a run replays the stored pages
+ * and only fetches what is missing.
+ *
+ * Completed pages are appended as they come in, so a page costs the same to
+ * record on page 3 of a run as on page 3000; only the small run record (times
+ * and finished searches) is rewritten.
+ *
+ * A checkpoint is deleted once its run is stored. Checkpoints of runs that
+ * never finish (failed, or interrupted and not resumed) expire after
+ * CHECKPOINT_TTL_MS without a write.
+ *
+ * Backends:
+ *   FileCheckpointStore  - {runId}.json plus a {runId}.pages.jsonl log per run in a
+ *                          directory (default: .checkpoints/)
+ *   RedisCheckpointStore - idealista:portugal:checkpoint:{runId} plus a hash of pages
+ *                          at idealista:portugal:checkpoint:{runId}:pages
+ */
+
+import { randomBytes } from 'crypto';
+import { appendFile, mkdir, readdir, readFile, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { InvalidOptionsError } from './errors';
+import { createLogger } from './logger';
+import { getRedisClient, KEY_PREFIX } from './redis';
+import type { Property } from './types';
+import { writeAtomic } from './utils';
+
+const logger = createLogger('checkpoint');
+
+export const DEFAULT_CHECKPOINT_DIR = '.checkpoints';
+/** How long the checkpoint of an unfinished run is kept after its last write */
+export const CHECKPOINT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** The search options of a run; resuming it requires the same ones */
+export type CheckpointOptions = Record<string, unknown>;
+
+export interface CheckpointState {
+  runId: string;
+  createdAt: string;
+  /** Last write of the run record; pages are appended without touching it */
+  updatedAt: string;
+  options?: CheckpointOptions;
+  /** Properties per completed page, keyed by "location|transactionType|page" */
+  pages: Record<string, Property[]>;
+  /** Searches that reached their last page or limit, keyed by "location|transactionType" */
+  finishedSearches: string[];
+}
+
+/** Everything about a run except its pages */
+export type CheckpointRun = Omit<CheckpointState, 'pages'>;
+
+export interface CheckpointStore {
+  load(runId: string): Promise<CheckpointState | null>;
+  /** Replace the run record */
+  saveRun(run: CheckpointRun): Promise<void>;
+  /** Record one completed page, leaving the pages already stored untouched */
+  savePage(runId: string, key: string, properties: Property[]): Promise<void>;
+  /** Delete the run and its pages */
+  remove(runId: string): Promise<void>;
+}
+
+/**
+ * Stores each run as {dir}/{runId}.json, with its pages appended to {dir}/{runId}.pages.jsonl
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private dir: string = DEFAULT_CHECKPOINT_DIR) {}
+
+  async load(runId: string): Promise<CheckpointState | null> {
+    let run: CheckpointRun;
+    try {
+      run = JSON.parse(await readFile(this.path(runId), 'utf-8')) as CheckpointRun;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const pages: CheckpointState['pages'] = {};
+    for (const line of (await readIfExists(this.pagesPath(runId))).split('\n')) {
+      if (!line) continue;
+      try {
+        const { key, properties } = JSON.parse(line) as { key: string; properties: Property[] };
+        pages[key] = properties;
+      } catch {
+        // A crash mid-append leaves a partial last line; that page is scraped again
+        logger.warn(`Skipping unreadable page record in ${this.pagesPath(runId)}`);
+      }
+    }
+    return { ...run, pages };
+  }
+
+  async saveRun(run: CheckpointRun): Promise<void> {
+    await writeAtomic(this.path(run.runId), JSON.stringify(run));
+  }
+
+  async savePage(runId: string, key: string, properties: Property[]): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(this.pagesPath(runId), `${JSON.stringify({ key, properties })}\n`);
+  }
+
+  async remove(runId: string): Promise<void> {
+    await rm(this.path(runId), { force: true });
+    await rm(this.pagesPath(runId), { force: true });
+  }
+
+  /**
+   * Delete the runs whose files weren't written for `maxAgeMs`
+   */
+  async prune(maxAgeMs: number = CHECKPOINT_TTL_MS): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const pruned: string[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      const runId = file.slice(0, -'.json'.length);
+      if (Date.now() - (await lastWrite([this.path(runId), this.pagesPath(runId)])) > maxAgeMs) {
+        await this.remove(runId);
+        pruned.push(runId);
+      }
+    }
+    if (pruned.length > 0) logger.info(`Pruned ${pruned.length} stale checkpoints`);
+    return pruned;
+  }
+
+  private path(runId: string): string {
+    return join(this.dir, `${runId}.json`);
+  }
+
+  private pagesPath(runId: string): string {
+    return join(this.dir, `${runId}.pages.jsonl`);
+  }
+}
+
+async function lastWrite(paths: string[]): Promise<number> {
+  let latest = 0;
+  for (const path of paths) {
+    try {
+      latest = Math.max(latest, (await stat(path)).mtimeMs);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  return latest;
+}
+
+async function readIfExists(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+    throw error;
+  }
+}
+
+/**
+ * Stores each run as a JSON string in Redis and its pages in a hash (requires connectRedis());
+ * every write pushes the expiry of both keys out to CHECKPOINT_TTL_MS
+ */
+export class RedisCheckpointStore implements CheckpointStore {
+  async load(runId: string): Promise<CheckpointState | null> {
+    const redis = getRedisClient();
+    const raw = await redis.get(this.key(runId));
+    if (!raw) return null;
+
+    const pages: CheckpointState['pages'] = {};
+    for (const [key, properties] of Object.entries(await redis.hGetAll(this.pagesKey(runId)))) {
+      pages[key] = JSON.parse(properties) as Property[];
+    }
+    return { ...(JSON.parse(raw) as CheckpointRun), pages };
+  }
+
+  async saveRun(run: CheckpointRun): Promise<void> {
+    await getRedisClient()
+      .multi()
+      .set(this.key(run.runId), JSON.stringify(run), { PX: CHECKPOINT_TTL_MS })
+      .pExpire(this.pagesKey(run.runId), CHECKPOINT_TTL_MS)
+      .exec();
+  }
+
+  async savePage(runId: string, key: string, properties: Property[]): Promise<void> {
+    await getRedisClient()
+      .multi()
+      .hSet(this.pagesKey(runId), key, JSON.stringify(properties))
+      .pExpire(this.pagesKey(runId), CHECKPOINT_TTL_MS)
+      .pExpire(this.key(runId), CHECKPOINT_TTL_MS)
+      .exec();
+  }
+
+  async remove(runId: string): Promise<void> {
+    await getRedisClient().del([this.key(runId), this.pagesKey(runId)]);
+  }
+
+  private key(runId: string): string {
+    return `${KEY_PREFIX}:checkpoint:${runId}`;
+  }
+
+  private pagesKey(runId: string): string {
+    return `${this.key(runId)}:pages`;
+  }
+}
+
+/**
+ * Generate a sortable run ID, e.g. "20240131T142501-3f9a2c"
+ */
+export function generateRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+  return `${timestamp}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * A run's checkpoint, persisted to its store after every change
+ */
+export class Checkpoint {
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private store: CheckpointStore,
+    private state: CheckpointState
+  ) {}
+
+  /**
+   * Start a new run, or resume an existing one when `resume` is set. A resumed
+   * run must be given the same `options` it was started with.
+   */
+  static async open(
+    store: CheckpointStore,
+    runId: string,
+    { resume, options }: { resume?: boolean; options?: CheckpointOptions } = {}
+  ): Promise<Checkpoint> {
+    if (resume) {
+      const state = await store.load(runId);
+      if (!state) {
+        throw new Error(`No checkpoint found for run ${runId}`);
+      }
+      // Pages scraped with other locations, filters or limits would be replayed as if they matched
+      const changed = state.options ? changedOptions(state.options, options ?? {}) : [];
+      if (changed.length > 0) {
+        throw new InvalidOptionsError(
+          `Run ${runId} was started with different options (${changed.join(', ')}); ` +
+            'resume it with the original options or start a new run'
+        );
+      }
+      logger.info(
+        `Resuming run ${runId}: ${Object.keys(state.pages).length} pages, ` +
+          `${state.finishedSearches.length} finished searches`
+      );
+      return new Checkpoint(store, state);
+    }
+
+    const now = new Date().toISOString();
+    const checkpoint = new Checkpoint(store, {
+      runId,
+      createdAt: now,
+      updatedAt: now,
+      options,
+      pages: {},
+      finishedSearches: [],
+    });
+    await checkpoint.persistRun();
+    return checkpoint;
+  }
+
+  get runId(): string {
+    return this.state.runId;
+  }
+
+  /**
+   * Properties stored for a completed page, or undefined if the page still needs scraping
+   */
+  getPage(location: string, transactionType: string, page: number): Property[] | undefined {
+    return this.state.pages[pageKey(location, transactionType, page)];
+  }
+
+  async markPageDone(
+    location: string,
+    transactionType: string,
+    page: number,
+    properties: Property[]
+  ): Promise<void> {
+    const key = pageKey(location, transactionType, page);
+    this.state.pages[key] = properties;
+    await this.enqueue(() => this.store.savePage(this.state.runId, key, properties));
+  }
+
+  isSearchDone(location: string, transactionType: string): boolean {
+    return this.state.finishedSearches.includes(searchKey(location, transactionType));
+  }
+
+  async markSearchDone(location: string, transactionType: string): Promise<void> {
+    const key = searchKey(location, transactionType);
+    if (this.state.finishedSearches.includes(key)) return;
+    this.state.finishedSearches.push(key);
+    await this.persistRun();
+  }
+
+  /**
+   * The run is done and its listings stored; there is nothing left to resume
+   */
+  async markRunComplete(): Promise<void> {
+    await this.enqueue(() => this.store.remove(this.state.runId));
+  }
+
+  private persistRun(): Promise<void> {
+    this.state.updatedAt = new Date().toISOString();
+    const { runId, createdAt, updatedAt, options, finishedSearches } = this.state;
+    const run: CheckpointRun = { runId, createdAt, updatedAt, options, finishedSearches: [...finishedSearches] };
+    return this.enqueue(() => this.store.saveRun(run));
+  }
+
+  private async enqueue(write: () => Promise<void>): Promise<void> {
+    // Parallel workers report pages concurrently; writes must not overlap
+    const save = this.saving.then(write);
+    this.saving = save.catch(() => undefined);
+    await save;
+  }
+}
+
+/**
+ * Names of the options that differ, compared as JSON
+ */
+function changedOptions(before: CheckpointOptions, after: CheckpointOptions): string[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((name) => JSON.stringify(before[name]) !== JSON.stringify(after[name]))
+    .sort();
+}
+
+function searchKey(location: string, transactionType: string): string {
+  return `${location}|${transactionType}`;
+}
+
+function pageKey(location: string, transactionType: string, page: number): string {
+  return `${searchKey(location, transactionType)}|${page}`;
+}
@@ -0,0 +1,646 @@
+/**
+ * A single crawl: scrape, enrich, de-duplicate, validate and store
+ *
+ * Shared by the one-shot CLI and the scheduler daemon (see daemon.ts):
+ *
+ *   planCrawl()  - normalise and validate options, resolve locations and filters;
+ *                  throws InvalidOptionsError so bad input fails before a browser starts
+ *   runCrawl()   - run a plan under a run ID, write its metrics and report how it ended
+ */
+
+import { existsSync } from 'fs';
+import type { Server } from 'http';
+import { IdealistaScraper, ScraperOptions } from './scraper.js';
+import { POPULAR_LOCATIONS, childLocations, concelhosOf, resolveLocation } from './locations';
+import { ScraperPool } from './scraper-pool';
+import { RateLimiter } from './rate-limiter';
+import { AdaptiveRateLimiter, DEFAULT_RATE_STATE_FILE } from './adaptive-limiter';
+import {
+  connectRedis,
+  disconnectRedis,
+  loadSnapshot,
+  saveProperties,
+  touchProperties,
+} from './redis';
+import { changedProperties, diffSnapshots, summarizeDiff } from './diff';
+import { dedupeProperties, summarizeDedupe } from './dedupe';
+import { RedisPriceHistoryStore, recordPriceHistory } from './price-history';
+import { IngestionClient } from './ingestion';
+import { SearchFilters, parseBedrooms, validateSearchFilters } from './search-filters';
+import { ProxyPool } from './proxy-pool';
+import { PageArchive } from './archive';
+import { OUTPUT_FORMATS, OUTPUT_SHAPES, OutputFormat, OutputShape, createSink } from './sinks';
+import { formatQualityReport, validateProperties, writeQuarantine } from './validation';
+import { AdminBoundaries, enrichLocations } from './geo';
+import {
+  Checkpoint,
+  CheckpointStore,
+  DEFAULT_CHECKPOINT_DIR,
+  FileCheckpointStore,
+  RedisCheckpointStore,
+  generateRunId,
+} from './checkpoint';
+import { createIngestionPayloadBatch } from './transformer';
+import { DEFAULT_SUMMARY_FILE, RunStatus, RunSummary, ScrapeMetrics } from './metrics';
+import { InvalidOptionsError } from './errors';
+import { createLogger, runWithLogContext } from './logger';
+import type { Property } from './types';
+
+const logger = createLogger('crawl');
+
+export interface CrawlOptions {
+  location: string;
+  district?: string;
+  all: boolean;
+  multiple: boolean;
+  transactionType: 'sale' | 'rent';
+  limit?: number;
+  maxPages: number;
+  category?: SearchFilters['category'];
+  minPrice?: number;
+  maxPrice?: number;
+  minSize?: number;
+  maxSize?: number;
+  bedrooms?: string;
+  newDevelopment: boolean;
+  sort?: SearchFilters['sort'];
+  partition: boolean;
+  headless: boolean;
+  details: boolean;
+  detailConcurrency: number;
+  detailDelay: number;
+  proxyFile?: string;
+  checkpointStore: 'file' | 'redis';
+  checkpointDir: string;
+  diff: boolean;
+  detectRemovals: boolean;
+  priceHistory: boolean;
+  quarantineFile?: string;
+  boundaries?: string;
+  recordFixtures?: string;
+  archive?: string;
+  replay?: string;
+  dryRun: boolean;
+  sink: 'redis' | 'api';
+  output?: OutputFormat;
+  out?: string;
+  outputShape: OutputShape;
+  batchSize: number;
+  workers: number;
+  rateStateFile: string;
+  summaryFile: string;
+  metricsTextfile?: string;
+  metricsPort?: number;
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  location: 'lisboa',
+  all: false,
+  multiple: false,
+  transactionType: 'sale',
+  maxPages: 5,
+  newDevelopment: false,
+  partition: false,
+  headless: true,
+  details: false,
+  detailConcurrency: 2,
+  detailDelay: 3000,
+  checkpointStore: 'file',
+  checkpointDir: DEFAULT_CHECKPOINT_DIR,
+  diff: false,
+  detectRemovals: false,
+  priceHistory: false,
+  dryRun: false,
+  sink: 'redis',
+  outputShape: 'property',
+  batchSize: 100,
+  workers: 1,
+  rateStateFile: DEFAULT_RATE_STATE_FILE,
+  summaryFile: DEFAULT_SUMMARY_FILE,
+};
+
+export interface CrawlPlan {
+  options: CrawlOptions;
+  /** Catalogue slugs to scrape */
+  locations: string[];
+  filters: SearchFilters;
+  /** Human-readable description of the locations */
+  label: string;
+}
+
+export interface CrawlRun {
+  /** Run ID for logs, metrics and the checkpoint (default: a new one) */
+  runId?: string;
+  /** Continue the checkpoint of `runId` */
+  resume?: boolean;
+  /** Stops the crawl after the current page; the run ends as 'interrupted' */
+  signal?: AbortSignal;
+  /** Added to every log line and metric, e.g. the daemon job name */
+  labels?: Record<string, string>;
+}
+
+export type CrawlStatus = Exclude<RunStatus, 'running'>;
+
+export interface CrawlResult {
+  runId: string;
+  status: CrawlStatus;
+  summary: RunSummary;
+}
+
+/**
+ * Whatever the crawl opened, for cleanup however it ends
+ */
+interface CrawlResources {
+  proxyPool?: ProxyPool | null;
+  scraper?: IdealistaScraper | ScraperPool;
+  paceLimiter?: AdaptiveRateLimiter;
+  metricsServer?: Server;
+}
+
+/**
+ * Parse an integer option, rejecting anything else and values below `min`
+ */
+export function toInteger(value: unknown, name: string, min = 1): number {
+  const number = typeof value === 'number' ? value : Number(String(value).trim() || NaN);
+  if (!Number.isInteger(number) || number < min) {
+    const expected = min === 1 ? 'a positive integer' : `an integer of at least ${min}`;
+    throw new InvalidOptionsError(`Invalid ${name}: ${value}. Use ${expected}.`);
+  }
+  return number;
+}
+
+/**
+ * Normalise raw options (CLI strings or a schedule's JSON) and validate them
+ *
+ * Missing options take their defaults from DEFAULT_CRAWL_OPTIONS.
+ */
+export function planCrawl(input: Partial<Record<keyof CrawlOptions, any>>): CrawlPlan {
+  const defined = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  const opts: CrawlOptions = { ...DEFAULT_CRAWL_OPTIONS, ...defined };
+
+  // Parse boolean and numeric options
+  const headlessValue = opts.headless as any;
+  opts.headless = headlessValue !== false && headlessValue !== 'false';
+  opts.maxPages = toInteger(opts.maxPages, '--maxPages');
+  opts.batchSize = toInteger(opts.batchSize, '--batchSize');
+  opts.detailConcurrency = toInteger(opts.detailConcurrency, '--detailConcurrency');
+  opts.detailDelay = toInteger(opts.detailDelay, '--detailDelay', 0);
+  opts.workers = toInteger(opts.workers, '--workers');
+  if (opts.limit !== undefined) opts.limit = toInteger(opts.limit, '--limit');
+  if (opts.metricsPort !== undefined) opts.metricsPort = toInteger(opts.metricsPort, '--metricsPort');
+
+  if (opts.workers > 1 && opts.partition) {
+    throw new InvalidOptionsError('--partition is not supported with --workers > 1');
+  }
+  if ([opts.all, opts.district, opts.multiple].filter(Boolean).length > 1) {
+    throw new InvalidOptionsError('Use only one of --all, --district and --multiple');
+  }
+
+  // Resolve locations up front so typos fail before the browser starts
+  let locations: string[];
+  try {
+    locations = opts.all
+      ? concelhosOf()
+      : opts.district
+        ? concelhosOf(opts.district)
+        : opts.multiple
+          ? POPULAR_LOCATIONS.slice(0, 5)
+          : [resolveLocation(opts.location)];
+  } catch (error) {
+    throw new InvalidOptionsError((error as Error).message);
+  }
+  opts.location = locations[0];
+
+  // Validate transaction type
+  if (opts.transactionType !== 'sale' && opts.transactionType !== 'rent') {
+    throw new InvalidOptionsError(`Invalid transaction type: ${opts.transactionType}. Use 'sale' or 'rent'.`);
+  }
+  // Validate sink
+  if (opts.sink !== 'redis' && opts.sink !== 'api') {
+    throw new InvalidOptionsError(`Invalid sink: ${opts.sink}. Use 'redis' or 'api'.`);
+  }
+  // Missing API credentials would otherwise only fail once the whole crawl is done
+  if (opts.sink === 'api' && !opts.output && !opts.dryRun) {
+    try {
+      IngestionClient.fromEnv({ batchSize: opts.batchSize });
+    } catch (error) {
+      throw new InvalidOptionsError((error as Error).message);
+    }
+  }
+  // Validate file output
+  if (opts.output) {
+    if (!OUTPUT_FORMATS.includes(opts.output)) {
+      throw new InvalidOptionsError(
+        `Invalid output format: ${opts.output}. Use one of: ${OUTPUT_FORMATS.join(', ')}`
+      );
+    }
+    if (!OUTPUT_SHAPES.includes(opts.outputShape)) {
+      throw new InvalidOptionsError(`Invalid output shape: ${opts.outputShape}. Use 'property' or 'standard'.`);
+    }
+    if (!opts.out) {
+      throw new InvalidOptionsError('--output requires --out <path>');
+    }
+  }
+  // Validate checkpoint store
+  if (opts.checkpointStore !== 'file' && opts.checkpointStore !== 'redis') {
+    throw new InvalidOptionsError(`Invalid checkpoint store: ${opts.checkpointStore}. Use 'file' or 'redis'.`);
+  }
+  if (opts.boundaries && !existsSync(opts.boundaries)) {
+    throw new InvalidOptionsError(`Boundaries file not found: ${opts.boundaries}`);
+  }
+  if (opts.replay && opts.archive) {
+    throw new InvalidOptionsError('--archive cannot be combined with --replay');
+  }
+
+  // Build and validate search filters
+  let filters: SearchFilters;
+  try {
+    filters = {
+      category: opts.category,
+      minPrice: opts.minPrice,
+      maxPrice: opts.maxPrice,
+      minSize: opts.minSize,
+      maxSize: opts.maxSize,
+      bedrooms: opts.bedrooms ? parseBedrooms(String(opts.bedrooms)) : undefined,
+      newDevelopment: opts.newDevelopment || undefined,
+      sort: opts.sort,
+    };
+    validateSearchFilters(filters, opts.transactionType);
+  } catch (error) {
+    throw new InvalidOptionsError(`Invalid search filters: ${(error as Error).message}`);
+  }
+
+  const label = opts.all
+    ? `all concelhos (${locations.length})`
+    : opts.district
+      ? `${opts.district} district (${locations.length} concelhos)`
+      : locations.join(', ');
+
+  return { options: opts, locations, filters, label };
+}
+
+function formatProperty(prop: Property): void {
+  logger.info("-" + "=".repeat(60));
+  logger.info(`ID: ${prop.id}`);
+  logger.info(`Title: ${prop.title}`);
+  logger.info(`Price: ${prop.currency} ${prop.price.toLocaleString()}`);
+  logger.info(`Type: ${prop.propertyType} (${prop.transactionType})`);
+  logger.info(`Location: ${prop.location.city}${prop.location.region ? ', ' + prop.location.region : ''}`);
+  if (prop.location.address) {
+    logger.info(`Address: ${prop.location.address}`);
+  }
+  logger.info(`Details: ${prop.details.sqm || '?'} sqm | ${prop.details.rooms || '?'} rooms | ${prop.details.bathrooms || '?'} bath`);
+  if (prop.features.length > 0) {
+    logger.info(`Features: ${prop.features.slice(0, 5).join(', ')}`);
+  }
+  logger.info(`URL: ${prop.url}`);
+}
+
+/**
+ * Run a crawl plan; never throws, failures end up in the result's status
+ *
+ * The run summary (and Prometheus textfile, if configured) is written however
+ * the run ends, so scheduled runs can be alerted on.
+ */
+export async function runCrawl(plan: CrawlPlan, run: CrawlRun = {}): Promise<CrawlResult> {
+  const runId = run.runId ?? generateRunId();
+  return runWithLogContext({ runId, ...run.labels }, async () => {
+    const { options: opts } = plan;
+    const metrics = new ScrapeMetrics(runId, Date.now, run.labels);
+    const resources: CrawlResources = {};
+    let status: CrawlStatus = 'failed';
+
+    try {
+      status = await execute(plan, runId, run, metrics, resources);
+    } catch (error) {
+      logger.error('Scraper error:', error);
+    } finally {
+      for (const stats of resources.proxyPool?.getStats() ?? []) {
+        logger.info(
+          `Proxy ${stats.server}: score ${stats.score.toFixed(2)}, ` +
+            `${stats.successes} ok / ${stats.blocks} blocked / ${stats.failures} failed`
+        );
+      }
+      await resources.scraper?.close().catch((error) => logger.warn('Could not close the browser:', error));
+      if (resources.paceLimiter && !opts.replay) {
+        await resources.paceLimiter.save(opts.rateStateFile).catch((error) =>
+          logger.warn(`Could not save rate state to ${opts.rateStateFile}:`, error)
+        );
+      }
+      await disconnectRedis();
+    }
+
+    metrics.finish(status);
+    logger.info('Run summary', { summary: metrics.summary() });
+    await metrics.writeSummary(opts.summaryFile).catch((error) =>
+      logger.warn(`Could not write run summary to ${opts.summaryFile}:`, error)
+    );
+    if (opts.metricsTextfile) {
+      await metrics.writeTextfile(opts.metricsTextfile).catch((error) =>
+        logger.warn(`Could not write metrics to ${opts.metricsTextfile}:`, error)
+      );
+    }
+    resources.metricsServer?.close();
+
+    return { runId, status, summary: metrics.summary() };
+  });
+}
+
+async function execute(
+  plan: CrawlPlan,
+  runId: string,
+  run: CrawlRun,
+  metrics: ScrapeMetrics,
+  resources: CrawlResources
+): Promise<CrawlStatus> {
+  const { options: opts, locations, filters } = plan;
+
+  logger.info("=" + "=".repeat(60));
+  logger.info('Idealista.pt Scraper');
+  logger.info("=" + "=".repeat(60));
+  logger.info(`Run ID: ${runId}${run.resume ? ' (resumed)' : ''}`);
+  logger.info(`Location: ${plan.label}`);
+  logger.info(`Transaction type: ${opts.transactionType}`);
+  logger.info(`Max pages: ${opts.maxPages}`);
+  logger.info(`Filters: ${JSON.stringify(filters)}`);
+  logger.info(`Partition: ${opts.partition}`);
+  logger.info(`Limit: ${opts.limit || 'none'}`);
+  logger.info(`Headless: ${opts.headless}`);
+  logger.info(`Workers: ${opts.workers}`);
+  if (opts.replay) logger.info(`Replay: ${opts.replay}`);
+  logger.info(`Details: ${opts.details}`);
+  logger.info(`Dry run: ${opts.dryRun}`);
+  logger.info(`Sink: ${opts.output ? `${opts.output} file ${opts.out}` : opts.sink}`);
+  logger.info("=" + "=".repeat(60));
+
+  // Configure proxies from --proxyFile or environment (not needed when replaying)
+  const proxyPool = opts.replay
+    ? null
+    : opts.proxyFile
+      ? ProxyPool.fromFile(opts.proxyFile)
+      : ProxyPool.fromEnv();
+  if (proxyPool && proxyPool.size === 0) {
+    throw new InvalidOptionsError('Proxy list is empty');
+  }
+  resources.proxyPool = proxyPool;
+
+  const scraperOptions: ScraperOptions = {
+    headless: opts.headless,
+    proxyPool: proxyPool ?? undefined,
+    rotatePerLocation: (proxyPool?.size ?? 0) > 1,
+    recordFixturesDir: opts.recordFixtures,
+    archive: opts.archive ? await PageArchive.open(opts.archive) : undefined,
+    replay: opts.replay ? await PageArchive.open(opts.replay) : undefined,
+    rateLimiter: RateLimiter.fromEnv(),
+    paceLimiter: await AdaptiveRateLimiter.load(opts.rateStateFile),
+    metrics,
+    signal: run.signal,
+  };
+  resources.paceLimiter = scraperOptions.paceLimiter;
+  if (opts.metricsPort) resources.metricsServer = await metrics.serve(opts.metricsPort);
+
+  // With --workers > 1, pages are spread over a pool of isolated scrapers
+  const pool =
+    opts.workers > 1 ? new ScraperPool({ size: opts.workers, scraperOptions, rateLimiter: scraperOptions.rateLimiter }) : null;
+  const scraper = pool ? null : new IdealistaScraper(scraperOptions);
+  resources.scraper = pool ?? scraper!;
+
+  let properties: Property[] = [];
+  // Partitions that still don't fit are split into the catalogued sub-areas
+  const partitionOptions = { subAreas: childLocations };
+
+  // Open (or resume) the run checkpoint
+  let checkpointStore: CheckpointStore;
+  if (opts.checkpointStore === 'redis') {
+    await connectRedis();
+    checkpointStore = new RedisCheckpointStore();
+  } else {
+    const fileStore = new FileCheckpointStore(opts.checkpointDir);
+    await fileStore.prune();
+    checkpointStore = fileStore;
+  }
+  const checkpoint = await Checkpoint.open(checkpointStore, runId, {
+    resume: Boolean(run.resume),
+    options: {
+      locations,
+      transactionType: opts.transactionType,
+      filters,
+      maxPages: opts.maxPages,
+      limit: opts.limit,
+      partition: opts.partition,
+    },
+  });
+
+  await (pool ?? scraper!).initialize();
+
+  if (pool) {
+    logger.info(`\nScraping ${locations.join(', ')} with ${pool.size} workers\n`);
+
+    properties = await pool.scrapeLocations(locations, opts.transactionType, {
+      maxPagesPerLocation: opts.maxPages,
+      limit: opts.limit,
+      filters,
+      checkpoint,
+    });
+  } else if (locations.length > 1) {
+    // Scrape multiple locations (--multiple, --district or --all)
+    logger.info(`\nScraping ${locations.length} locations: ${locations.join(', ')}\n`);
+
+    properties = await scraper!.scrapeLocations(locations, opts.transactionType, {
+      maxPagesPerLocation: opts.maxPages,
+      limit: opts.limit,
+      filters,
+      checkpoint,
+      partition: opts.partition ? partitionOptions : false,
+    });
+  } else if (opts.partition) {
+    // Single location, split into partitions that fit under the page cap
+    properties = await scraper!.scrapePartitioned(opts.location, opts.transactionType, {
+      maxPages: opts.maxPages,
+      limit: opts.limit,
+      filters,
+      checkpoint,
+      partition: partitionOptions,
+    });
+  } else {
+    // Single location scrape
+    properties = await scraper!.scrapeLocation(
+      opts.location,
+      opts.transactionType,
+      {
+        maxPages: opts.maxPages,
+        limit: opts.limit,
+        filters,
+        checkpoint,
+      }
+    );
+  }
+
+  // Stopped part-way; the checkpoint lets the next run with this ID pick up where this one left off
+  if (run.signal?.aborted) {
+    logger.warn(`Run interrupted, resume it with --resume ${runId}`);
+    return 'interrupted';
+  }
+
+  if (opts.details && properties.length > 0) {
+    properties = await (pool ?? scraper!).enrichWithDetails(properties, {
+      concurrency: opts.detailConcurrency,
+      delayMs: opts.detailDelay,
+    });
+  }
+
+  logger.info("\n" + "=".repeat(61));
+  logger.info('Scraping complete!');
+  logger.info(`Total properties scraped: ${properties.length}`);
+  metrics.setCount('scraped', properties.length);
+  logger.info("=" + "=".repeat(60));
+
+  if (properties.length === 0) {
+    logger.info('\nNo properties were scraped. This might be due to:');
+    logger.info('  - DataDome bot protection blocking requests');
+    logger.info('  - Invalid location name');
+    logger.info('  - Network issues');
+    logger.info('  - No listings available for the search criteria');
+    return 'failed';
+  }
+
+  // Geohash, postcode and canonical district/concelho/freguesia
+  properties = enrichLocations(properties, await AdminBoundaries.load(opts.boundaries));
+
+  // The previous snapshot lets listings without a code keep their ID across runs, and
+  // links relists to stored listings; loaded whenever the listings end up in Redis
+  const storesInRedis = opts.sink === 'redis' && !opts.output && !opts.dryRun;
+  let previous: Property[] = [];
+  if (opts.diff || storesInRedis) {
+    await connectRedis();
+    previous = await loadSnapshot(
+      [...locations, ...properties.map((p) => p.location.city)],
+      opts.transactionType
+    );
+  }
+
+  // Drop listings returned by several searches or pages, and link relisted units
+  const dedupe = dedupeProperties(properties, { known: previous });
+  logger.info(`De-duplication: ${summarizeDedupe(dedupe)}`);
+  for (const relist of dedupe.relists) {
+    const agency = relist.property.agent?.agency ?? relist.property.agent?.name ?? 'unknown agency';
+    logger.debug(`${relist.property.id} (${agency}) is the same unit as ${relist.matchedId}`);
+  }
+  properties = dedupe.unique;
+  metrics.setCount('duplicates', dedupe.duplicates.length);
+
+  // Quarantine listings with missing or implausible values
+  const validation = validateProperties(properties, { transactionType: opts.transactionType });
+  logger.info(`\n${formatQualityReport(validation.report)}`);
+  for (const entry of validation.quarantined) {
+    logger.warn(
+      `Quarantined ${entry.property.id}: ${entry.issues
+        .filter((issue) => issue.severity === 'error')
+        .map((issue) => issue.message)
+        .join('; ')}`
+    );
+  }
+  if (opts.quarantineFile) {
+    await writeQuarantine(opts.quarantineFile, validation.quarantined);
+  }
+  properties = validation.valid;
+  const quarantinedIds = validation.quarantined.map((entry) => entry.property.id);
+  metrics.setCount('quarantined', quarantinedIds.length);
+
+  // Print sample of results
+  logger.info('\nSample properties:');
+  const sample = properties.slice(0, 3);
+  for (const prop of sample) {
+    formatProperty(prop);
+  }
+
+  // Append price changes to each listing's history
+  if (storesInRedis || (!opts.dryRun && opts.priceHistory)) {
+    await connectRedis();
+    properties = await recordPriceHistory(properties, new RedisPriceHistoryStore());
+    const priceChanges = properties.filter((p) => {
+      const history = p.priceHistory || [];
+      return history.length > 1 && history[history.length - 1].timestamp === p.scrapedAt;
+    }).length;
+    logger.info(`Price history updated (${priceChanges} price changes)`);
+  }
+
+  // Compare with the previous snapshot so only changes are stored
+  let succeeded = true;
+  let stored = 0;
+  let toStore = properties;
+  let unchangedIds: string[] = [];
+  if (opts.diff) {
+    logger.info('\nComparing with previous snapshot...');
+    const diff = diffSnapshots(previous, properties, {
+      detectRemovals: opts.detectRemovals,
+      seenIds: quarantinedIds,
+    });
+    logger.info(`Changes since last run: ${summarizeDiff(diff)}`);
+    for (const entry of diff.updated) {
+      logger.debug(`${entry.property.id}: ${entry.changes.map((c) => c.field).join(', ')}`);
+    }
+    for (const transition of diff.transitions.filter((t) => t.from)) {
+      logger.info(`Status ${transition.id}: ${transition.from} -> ${transition.to}`);
+    }
+    toStore = changedProperties(diff);
+    unchangedIds = diff.unchanged.map((p) => p.id);
+  }
+
+  if (opts.dryRun) {
+    logger.info('\n[Dry run] Skipping storage');
+    logger.info('\nFull results (JSON):');
+    logger.info(JSON.stringify(toStore, null, 2));
+  } else if (toStore.length === 0) {
+    logger.info('\nNo changes to store');
+    if (unchangedIds.length > 0 && opts.sink === 'redis' && !opts.output) {
+      await touchProperties(unchangedIds);
+    }
+  } else if (opts.output) {
+    // Write to a local file
+    const sink = createSink(opts.output, opts.out!, opts.outputShape);
+    try {
+      await sink.write(toStore);
+      stored = toStore.length;
+      logger.info(`Wrote ${toStore.length} properties to ${sink.path}`);
+    } finally {
+      await sink.close();
+    }
+  } else if (opts.sink === 'api') {
+    // Send to Core Service API
+    logger.info('\nSending properties to Core Service API...');
+    const client = IngestionClient.fromEnv({ batchSize: opts.batchSize });
+    const report = await client.ingest(createIngestionPayloadBatch(toStore));
+    stored = report.succeeded;
+    logger.info(`Ingested ${report.succeeded}/${report.total} properties`);
+    for (const result of report.results.filter((r) => !r.success)) {
+      logger.warn(`Failed to ingest ${result.portalId}: ${result.error}`);
+    }
+    if (report.failed > 0) {
+      succeeded = false;
+    }
+  } else {
+    // Store in Redis
+    logger.info('\nStoring properties in Redis...');
+    try {
+      await connectRedis();
+      await saveProperties(toStore);
+      await touchProperties(unchangedIds);
+      stored = toStore.length;
+      logger.info(`Successfully stored ${toStore.length} properties in Redis`);
+    } catch (error) {
+      logger.error('Failed to store properties in Redis:', error);
+      succeeded = false;
+    } finally {
+      await disconnectRedis();
+    }
+  }
+
+  metrics.setCount('stored', stored);
+  logger.info('\nDone!');
+  if (!succeeded) return 'failed';
+
+  // Only a run whose listings were stored is done; a failed one can still be resumed
+  await checkpoint.markRunComplete();
+  return 'success';
+}
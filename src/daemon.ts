@@ -0,0 +1,573 @@
+/**
+ * Scheduler daemon: runs crawls from a schedule file, over and over
+ *
+ * Schedule file (JSON):
+ *   {
+ *     "jitter": "5m",
+ *     "defaults": { "maxPages": 20, "diff": true },
+ *     "jobs": [
+ *       { "name": "lisboa-sale", "every": "6h", "options": { "location": "lisboa" } },
+ *       { "name": "algarve-rent", "at": "02:30", "options": { "district": "faro", "transactionType": "rent" } }
+ *     ]
+ *   }
+ *
+ * Job options are the CLI's crawl options, on top of `defaults`; `{job}` in a
+ * path option is replaced by the job name. Run summaries default to
+ * {stateDir}/summaries/{job}.json. Each run starts a random delay of
+ * up to `jitter` after it is due, so crawls don't hit idealista on the dot.
+ *
+ * Jobs run one at a time. A run holds its job's lock, so a second daemon never
+ * overlaps it; an occurrence whose lock is taken is skipped. Last-run state is kept in {stateDir}/state.json, and a run
+ * stopped by shutdown is resumed from its checkpoint the next time its job runs.
+ */
+
+import { hostname } from 'os';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CrawlPlan, CrawlStatus, planCrawl, runCrawl } from './crawl';
+import { generateRunId } from './checkpoint';
+import { InvalidOptionsError } from './errors';
+import { formatLabels } from './metrics';
+import { KEY_PREFIX, RedisClient } from './redis';
+import { createLogger } from './logger';
+import { writeAtomic } from './utils';
+
+const logger = createLogger('daemon');
+
+export const DEFAULT_DAEMON_DIR = '.daemon';
+const DEFAULT_JITTER = '5m';
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 60 * 1000;
+// Wake up at least this often, so clock changes and sleeps are caught up on
+const MAX_WAIT_MS = 60 * 1000;
+
+// Options that take a path and may contain {job}
+const PATH_OPTIONS = ['summaryFile', 'metricsTextfile', 'quarantineFile', 'out', 'archive', 'recordFixtures'];
+
+export interface ScheduleConfig {
+  /** Maximum random delay before each run, e.g. "10m" (default: 5m) */
+  jitter?: string;
+  /** Crawl options shared by every job */
+  defaults?: Record<string, unknown>;
+  jobs: Array<{
+    name: string;
+    /** Run every interval, e.g. "6h" */
+    every?: string;
+    /** Run daily at these local times, e.g. "02:30" or ["06:00", "18:00"] */
+    at?: string | string[];
+    jitter?: string;
+    options?: Record<string, unknown>;
+  }>;
+}
+
+export interface ScheduledJob {
+  name: string;
+  everyMs?: number;
+  /** Minutes after midnight, sorted */
+  at?: number[];
+  jitterMs: number;
+  plan: CrawlPlan;
+}
+
+export interface JobState {
+  lastRunId?: string;
+  lastStartedAt?: string;
+  lastFinishedAt?: string;
+  lastStatus?: CrawlStatus;
+  lastDurationMs?: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  nextRunAt?: string;
+  /** Run to resume next time, after it was interrupted */
+  resumeRunId?: string;
+}
+
+/**
+ * Parse a duration such as "90s", "15m", "6h" or "1d"; plain numbers are milliseconds
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') return value;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/);
+  if (!match) {
+    throw new InvalidOptionsError(`Invalid duration: ${value}. Use e.g. 90s, 15m, 6h or 1d.`);
+  }
+  const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] ?? 'ms'];
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || parseInt(match[1], 10) > 23 || parseInt(match[2], 10) > 59) {
+    throw new InvalidOptionsError(`Invalid time of day: ${value}. Use HH:MM.`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * First of the daily times (minutes after local midnight) after `after`
+ */
+export function nextTimeOfDay(times: number[], after: number): number {
+  const day = new Date(after);
+  day.setHours(0, 0, 0, 0);
+
+  for (let offset = 0; offset <= 1; offset++) {
+    for (const minutes of times) {
+      const candidate = new Date(day);
+      candidate.setDate(day.getDate() + offset);
+      candidate.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+      if (candidate.getTime() > after) return candidate.getTime();
+    }
+  }
+  throw new Error('No time of day given');
+}
+
+/**
+ * Validate a schedule and plan every job, so bad options fail at startup
+ */
+export function parseSchedule(config: ScheduleConfig, stateDir = DEFAULT_DAEMON_DIR): ScheduledJob[] {
+  if (!Array.isArray(config?.jobs) || config.jobs.length === 0) {
+    throw new InvalidOptionsError('Schedule has no jobs');
+  }
+
+  const names = new Set<string>();
+  return config.jobs.map((job) => {
+    if (!job.name || !/^[a-z0-9][a-z0-9_-]*$/i.test(job.name)) {
+      throw new InvalidOptionsError(`Invalid job name: ${job.name}. Use letters, digits, - and _.`);
+    }
+    if (names.has(job.name)) {
+      throw new InvalidOptionsError(`Duplicate job name: ${job.name}`);
+    }
+    names.add(job.name);
+    if (Boolean(job.every) === Boolean(job.at)) {
+      throw new InvalidOptionsError(`Job ${job.name} needs exactly one of "every" and "at"`);
+    }
+
+    const options: Record<string, unknown> = {
+      summaryFile: join(stateDir, 'summaries', '{job}.json'),
+      ...config.defaults,
+      ...job.options,
+    };
+    if (options.metricsPort !== undefined || options.resume !== undefined) {
+      throw new InvalidOptionsError(`Job ${job.name}: metricsPort and resume are set by the daemon`);
+    }
+    for (const key of PATH_OPTIONS) {
+      if (typeof options[key] === 'string') options[key] = (options[key] as string).replace(/\{job\}/g, job.name);
+    }
+
+    let plan: CrawlPlan;
+    try {
+      plan = planCrawl(options);
+    } catch (error) {
+      throw new InvalidOptionsError(`Job ${job.name}: ${(error as Error).message}`);
+    }
+
+    const everyMs = job.every ? parseDuration(job.every) : undefined;
+    if (everyMs !== undefined && everyMs <= 0) {
+      throw new InvalidOptionsError(`Job ${job.name}: "every" must be positive`);
+    }
+    return {
+      name: job.name,
+      everyMs,
+      at: job.at ? [job.at].flat().map(parseTimeOfDay).sort((a, b) => a - b) : undefined,
+      jitterMs: parseDuration(job.jitter ?? config.jitter ?? DEFAULT_JITTER),
+      plan,
+    };
+  });
+}
+
+export async function loadSchedule(path: string, stateDir = DEFAULT_DAEMON_DIR): Promise<ScheduledJob[]> {
+  let config: ScheduleConfig;
+  try {
+    config = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new InvalidOptionsError(`Could not read schedule ${path}: ${(error as Error).message}`);
+  }
+  return parseSchedule(config, stateDir);
+}
+
+/**
+ * Per-job locks, so a job never runs twice at the same time
+ *
+ * Locks expire after `ttlMs` unless refreshed, so a crashed daemon can't hold
+ * a job forever.
+ */
+export interface LockStore {
+  /** Take the lock, or return false if someone else holds it */
+  acquire(job: string, owner: string, ttlMs: number): Promise<boolean>;
+  /** Extend a held lock; false if it expired and was taken over */
+  refresh(job: string, owner: string, ttlMs: number): Promise<boolean>;
+  release(job: string, owner: string): Promise<void>;
+}
+
+interface FileLock {
+  owner: string;
+  expiresAt: string;
+}
+
+/**
+ * Locks as {dir}/{job}.lock files, for daemons sharing a filesystem
+ */
+export class FileLockStore implements LockStore {
+  constructor(
+    private dir: string = join(DEFAULT_DAEMON_DIR, 'locks'),
+    private now: () => number = Date.now
+  ) {}
+
+  async acquire(job: string, owner: string, ttlMs: number): Promise<boolean> {
+    await mkdir(this.dir, { recursive: true });
+    const lock = JSON.stringify(this.lock(owner, ttlMs));
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        // wx fails if the file exists, so only one daemon can create it
+        await writeFile(this.path(job), lock, { flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const current = await this.read(job);
+      if (current && Date.parse(current.expiresAt) > this.now()) return false;
+      logger.warn(`Taking over expired lock of job ${job}${current ? ` (held by ${current.owner})` : ''}`);
+      await unlink(this.path(job)).catch(() => undefined);
+    }
+    return false;
+  }
+
+  async refresh(job: string, owner: string, ttlMs: number): Promise<boolean> {
+    const current = await this.read(job);
+    if (current?.owner !== owner) return false;
+
+    await writeAtomic(this.path(job), JSON.stringify(this.lock(owner, ttlMs)));
+    return true;
+  }
+
+  async release(job: string, owner: string): Promise<void> {
+    const current = await this.read(job);
+    if (current?.owner === owner) {
+      await unlink(this.path(job)).catch(() => undefined);
+    }
+  }
+
+  private lock(owner: string, ttlMs: number): FileLock {
+    return { owner, expiresAt: new Date(this.now() + ttlMs).toISOString() };
+  }
+
+  private async read(job: string): Promise<FileLock | null> {
+    try {
+      return JSON.parse(await readFile(this.path(job), 'utf-8')) as FileLock;
+    } catch {
+      // Missing, or half-written by a crashed daemon
+      return null;
+    }
+  }
+
+  private path(job: string): string {
+    return join(this.dir, `${job}.lock`);
+  }
+}
+
+// Only touch the lock if we still own it
+const REFRESH_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+/**
+ * Locks as idealista:portugal:lock:{job} keys, for daemons on different hosts
+ *
+ * Takes a client of its own (see openRedisClient), since crawls disconnect the
+ * shared one when they finish.
+ */
+export class RedisLockStore implements LockStore {
+  constructor(private client: RedisClient) {}
+
+  async acquire(job: string, owner: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.set(this.key(job), owner, { NX: true, PX: ttlMs })) === 'OK';
+  }
+
+  async refresh(job: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.eval(REFRESH_SCRIPT, { keys: [this.key(job)], arguments: [owner, String(ttlMs)] });
+    return result === 1;
+  }
+
+  async release(job: string, owner: string): Promise<void> {
+    await this.client.eval(RELEASE_SCRIPT, { keys: [this.key(job)], arguments: [owner] });
+  }
+
+  private key(job: string): string {
+    return `${KEY_PREFIX}:lock:${job}`;
+  }
+}
+
+export interface DaemonOptions {
+  jobs: ScheduledJob[];
+  /** State file and default file locks live here (default: .daemon) */
+  stateDir?: string;
+  lockStore?: LockStore;
+  /** Lock expiry; refreshed every third of it while a run is going */
+  lockTtlMs?: number;
+  /** How long stop() waits for the running crawl to wrap up */
+  shutdownTimeoutMs?: number;
+  runCrawl?: typeof runCrawl;
+  now?: () => number;
+  /** Returns [0, 1), for jitter */
+  random?: () => number;
+}
+
+interface ActiveRun {
+  job: string;
+  runId: string;
+  done: Promise<void>;
+}
+
+export class CrawlDaemon {
+  private jobs: ScheduledJob[];
+  private statePath: string;
+  private lockStore: LockStore;
+  private lockTtlMs: number;
+  private shutdownTimeoutMs: number;
+  private runCrawl: typeof runCrawl;
+  private now: () => number;
+  private random: () => number;
+  private owner = `${hostname()}:${process.pid}`;
+  private state: Record<string, JobState> = {};
+  private abort = new AbortController();
+  private active: ActiveRun | null = null;
+  private stopping = false;
+  private wake: (() => void) | null = null;
+
+  constructor(options: DaemonOptions) {
+    const stateDir = options.stateDir ?? DEFAULT_DAEMON_DIR;
+    this.jobs = options.jobs;
+    this.statePath = join(stateDir, 'state.json');
+    this.lockStore = options.lockStore ?? new FileLockStore(join(stateDir, 'locks'));
+    this.lockTtlMs = options.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+    this.shutdownTimeoutMs = options.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+    this.runCrawl = options.runCrawl ?? runCrawl;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Load the last-run state and work out when each job is next due
+   */
+  async initialize(): Promise<void> {
+    try {
+      this.state = JSON.parse(await readFile(this.statePath, 'utf-8')).jobs ?? {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const now = this.now();
+    for (const job of this.jobs) {
+      const state = this.jobState(job.name);
+      // Started but never finished: the daemon died mid-run
+      if (state.lastStartedAt && (!state.lastFinishedAt || state.lastFinishedAt < state.lastStartedAt)) {
+        state.resumeRunId = state.lastRunId;
+      }
+
+      const lastStarted = state.lastStartedAt ? Date.parse(state.lastStartedAt) : undefined;
+      const due = state.resumeRunId
+        ? now
+        : lastStarted === undefined
+          ? job.everyMs !== undefined
+            ? now + this.jitter(job)
+            : this.nextRun(job, now)
+          : this.nextRun(job, lastStarted);
+      state.nextRunAt = new Date(Math.max(due, now)).toISOString();
+      logger.info(`Job ${job.name} next runs at ${state.nextRunAt}`);
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Run jobs as they fall due until stop() is called
+   */
+  async run(): Promise<void> {
+    await this.initialize();
+    logger.info(`Scheduler started with ${this.jobs.length} jobs`);
+
+    while (!this.stopping) {
+      if ((await this.runDue()) > 0) continue;
+
+      const next = Math.min(...this.jobs.map((job) => Date.parse(this.jobState(job.name).nextRunAt!)));
+      await this.wait(Math.min(Math.max(next - this.now(), 0), MAX_WAIT_MS));
+    }
+    logger.info('Scheduler stopped');
+  }
+
+  /**
+   * Run every job that is due now, one after the other, returning how many ran
+   */
+  async runDue(): Promise<number> {
+    let count = 0;
+    for (const job of this.jobs) {
+      if (this.stopping) break;
+      if (Date.parse(this.jobState(job.name).nextRunAt!) > this.now()) continue;
+
+      await this.runJob(job);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Stop after the running crawl's current page, waiting up to the shutdown timeout
+   */
+  async stop(): Promise<void> {
+    if (this.stopping) return;
+    this.stopping = true;
+    this.abort.abort();
+    this.wake?.();
+
+    const active = this.active;
+    if (!active) return;
+    logger.info(`Waiting for job ${active.job} to stop...`);
+
+    let timer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      active.done.then(() => true),
+      new Promise<boolean>((resolve) => (timer = setTimeout(() => resolve(false), this.shutdownTimeoutMs))),
+    ]);
+    clearTimeout(timer);
+    if (finished) return;
+
+    // Leave it for the next start to resume
+    logger.warn(`Job ${active.job} did not stop within ${this.shutdownTimeoutMs / 1000}s`);
+    this.jobState(active.job).resumeRunId = active.runId;
+    await this.saveState();
+    await this.lockStore.release(active.job, this.owner).catch(() => undefined);
+  }
+
+  getState(): Record<string, JobState> {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Per-job gauges in the Prometheus text format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const gauge = (name: string, help: string, value: (job: ScheduledJob, state: JobState) => number | undefined) => {
+      lines.push(`# HELP idealista_job_${name} ${help}`, `# TYPE idealista_job_${name} gauge`);
+      for (const job of this.jobs) {
+        const sample = value(job, this.jobState(job.name));
+        if (sample !== undefined) lines.push(`idealista_job_${name}${formatLabels({ job: job.name })} ${sample}`);
+      }
+    };
+    const seconds = (iso?: string) => (iso ? Math.floor(Date.parse(iso) / 1000) : undefined);
+
+    gauge('running', '1 while the job is crawling', (job) => (this.active?.job === job.name ? 1 : 0));
+    gauge('last_success', '1 if the last run succeeded', (_, state) =>
+      state.lastStatus ? Number(state.lastStatus === 'success') : undefined
+    );
+    gauge('last_success_timestamp_seconds', 'When the job last succeeded', (_, state) => seconds(state.lastSuccessAt));
+    gauge('last_duration_seconds', 'Duration of the last run', (_, state) =>
+      state.lastDurationMs !== undefined ? state.lastDurationMs / 1000 : undefined
+    );
+    gauge('next_run_timestamp_seconds', 'When the job is next due', (_, state) => seconds(state.nextRunAt));
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const state = this.jobState(job.name);
+    const startedAt = this.now();
+
+    if (!(await this.lockStore.acquire(job.name, this.owner, this.lockTtlMs))) {
+      logger.warn(`Job ${job.name} is already running elsewhere, skipping this run`);
+      state.nextRunAt = new Date(this.nextRun(job, startedAt)).toISOString();
+      await this.saveState();
+      return;
+    }
+
+    const resume = Boolean(state.resumeRunId);
+    const runId = state.resumeRunId ?? generateRunId();
+    const done = this.crawl(job, runId, resume, startedAt);
+    this.active = { job: job.name, runId, done };
+    try {
+      await done;
+    } finally {
+      this.active = null;
+    }
+  }
+
+  private async crawl(job: ScheduledJob, runId: string, resume: boolean, startedAt: number): Promise<void> {
+    const state = this.jobState(job.name);
+    Object.assign(state, { lastRunId: runId, lastStartedAt: new Date(startedAt).toISOString() });
+    await this.saveState();
+    logger.info(`Starting job ${job.name} (run ${runId}${resume ? ', resumed' : ''})`);
+
+    // Another daemon may take over an expired lock; it runs the job from then on
+    const lockLost = new AbortController();
+    const refresh = setInterval(() => {
+      this.lockStore
+        .refresh(job.name, this.owner, this.lockTtlMs)
+        .then((held) => {
+          if (held || lockLost.signal.aborted) return;
+          logger.error(`Lost the lock of job ${job.name}, stopping run ${runId}`);
+          lockLost.abort();
+        })
+        .catch((error) => logger.warn(`Could not refresh the lock of job ${job.name}:`, error));
+    }, this.lockTtlMs / 3);
+
+    try {
+      const result = await this.runCrawl(job.plan, {
+        runId,
+        resume,
+        signal: AbortSignal.any([this.abort.signal, lockLost.signal]),
+        labels: { job: job.name },
+      });
+      state.lastStatus = result.status;
+      state.lastError = undefined;
+    } catch (error) {
+      state.lastStatus = 'failed';
+      state.lastError = (error as Error).message;
+      logger.error(`Job ${job.name} failed:`, error);
+    } finally {
+      clearInterval(refresh);
+      await this.lockStore
+        .release(job.name, this.owner)
+        .catch((error) => logger.warn(`Could not release the lock of job ${job.name}:`, error));
+    }
+
+    const finishedAt = this.now();
+    state.lastFinishedAt = new Date(finishedAt).toISOString();
+    state.lastDurationMs = finishedAt - startedAt;
+    if (state.lastStatus === 'success') state.lastSuccessAt = state.lastFinishedAt;
+    state.resumeRunId = state.lastStatus === 'interrupted' ? runId : undefined;
+    state.nextRunAt = new Date(Math.max(this.nextRun(job, startedAt), finishedAt)).toISOString();
+    await this.saveState();
+    logger.info(`Job ${job.name} finished: ${state.lastStatus}, next run at ${state.nextRunAt}`);
+  }
+
+  /**
+   * Next due time after a run that started at `after`, jitter included
+   */
+  private nextRun(job: ScheduledJob, after: number): number {
+    const base = job.everyMs !== undefined ? after + job.everyMs : nextTimeOfDay(job.at!, after);
+    return base + this.jitter(job);
+  }
+
+  private jitter(job: ScheduledJob): number {
+    return Math.floor(this.random() * job.jitterMs);
+  }
+
+  private jobState(name: string): JobState {
+    return (this.state[name] ??= {});
+  }
+
+  private async saveState(): Promise<void> {
+    await writeAtomic(this.statePath, JSON.stringify({ jobs: this.state }, null, 2));
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done(): void {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wake = done;
+    });
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * De-duplication of listings within a run and against previous runs
+ *
+ * Overlapping searches (lisboa and cascais) and listings that shift between
+ * pages mid-crawl return the same listing more than once. Listings are
+ * matched in three ways:
+ *
+ *   same_code  - same idealista propertyCode; the first occurrence is kept
+ *   fuzzy      - a listing without a code (synthetic ID) that looks like a
+ *                kept one, or like one from a previous run whose ID it adopts
+ *   relist     - a listing under a different code that looks like the same
+ *                unit, e.g. relisted by another agency; both are kept and
+ *                share `metadata.unitId`
+ *
+ * Two listings look like the same unit when they are within a few metres of
+ * each other, with the same transaction and property type, bedrooms and floor,
+ * and sizes and prices within a small tolerance.
+ */
+
+import type { Property } from './types';
+import { isSyntheticId } from './validation';
+
+// Grid cell size for the spatial index, in degrees (~110m x 90m in Portugal)
+const CELL_DEGREES = 0.001;
+const EARTH_RADIUS_M = 6_371_000;
+
+export type DuplicateReason = 'same_code' | 'fuzzy' | 'relist';
+
+export interface DedupeOptions {
+  /** Furthest apart two listings of the same unit may be, up to ~85 (default: 25) */
+  maxDistanceM?: number;
+  /** Relative price difference allowed (default: 0.03) */
+  priceTolerance?: number;
+  /** Relative size difference allowed (default: 0.05) */
+  sizeTolerance?: number;
+  /** Listings from previous runs (e.g. the stored snapshot) */
+  known?: Property[];
+}
+
+export interface DuplicateMatch {
+  property: Property;
+  /** ID of the listing it was matched to */
+  matchedId: string;
+  reason: DuplicateReason;
+  distanceM?: number;
+}
+
+export interface DedupeResult {
+  unique: Property[];
+  /** Listings dropped as duplicates (same_code and fuzzy) */
+  duplicates: DuplicateMatch[];
+  /** Listings kept but identified as the same unit as another listing */
+  relists: DuplicateMatch[];
+  /** Listings without a code that took the ID of a previous run's listing */
+  adopted: number;
+}
+
+type Settings = Required<Omit<DedupeOptions, 'known'>>;
+
+/**
+ * Great-circle distance between two points in metres
+ */
+export function distanceMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+function withinTolerance(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(a, b);
+}
+
+/**
+ * Distance between two listings if they look like the same unit, else null
+ */
+export function matchUnit(a: Property, b: Property, options: DedupeOptions = {}): number | null {
+  const settings = resolveSettings(options);
+  const [ca, cb] = [a.location.coordinates, b.location.coordinates];
+  if (!ca || !cb) return null;
+
+  if (a.transactionType !== b.transactionType || a.propertyType !== b.propertyType) return null;
+
+  const [da, db] = [a.details ?? {}, b.details ?? {}];
+  if (da.bedrooms !== undefined && db.bedrooms !== undefined && da.bedrooms !== db.bedrooms) return null;
+  if (da.floor !== undefined && db.floor !== undefined && da.floor !== db.floor) return null;
+  if (!da.sqm || !db.sqm || !withinTolerance(da.sqm, db.sqm, settings.sizeTolerance)) return null;
+  if (!a.price || !b.price || !withinTolerance(a.price, b.price, settings.priceTolerance)) return null;
+
+  const distance = distanceMeters(ca, cb);
+  return distance <= settings.maxDistanceM ? distance : null;
+}
+
+function resolveSettings(options: DedupeOptions): Settings {
+  return {
+    maxDistanceM: options.maxDistanceM ?? 25,
+    priceTolerance: options.priceTolerance ?? 0.03,
+    sizeTolerance: options.sizeTolerance ?? 0.05,
+  };
+}
+
+/**
+ * Listings bucketed by grid cell, so candidates are only looked up nearby
+ */
+class SpatialIndex {
+  private cells = new Map<string, Property[]>();
+
+  add(property: Property): void {
+    const coordinates = property.location.coordinates;
+    if (!coordinates) return;
+
+    const key = cellKey(Math.floor(coordinates.lat / CELL_DEGREES), Math.floor(coordinates.lon / CELL_DEGREES));
+    const cell = this.cells.get(key);
+    if (cell) cell.push(property);
+    else this.cells.set(key, [property]);
+  }
+
+  /**
+   * Closest accepted listing that looks like the same unit
+   */
+  findMatch(
+    property: Property,
+    options: DedupeOptions,
+    accept: (candidate: Property) => boolean = () => true
+  ): { match: Property; distanceM: number } | null {
+    const coordinates = property.location.coordinates;
+    if (!coordinates) return null;
+
+    const row = Math.floor(coordinates.lat / CELL_DEGREES);
+    const col = Math.floor(coordinates.lon / CELL_DEGREES);
+    let best: { match: Property; distanceM: number } | null = null;
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        for (const candidate of this.cells.get(cellKey(row + dRow, col + dCol)) ?? []) {
+          if (!accept(candidate)) continue;
+          const distanceM = matchUnit(property, candidate, options);
+          if (distanceM !== null && (!best || distanceM < best.distanceM)) {
+            best = { match: candidate, distanceM };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+}
+
+function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+function unitIdOf(property: Property): string {
+  return property.metadata?.unitId ?? property.id;
+}
+
+/**
+ * Drop duplicate listings and link listings of the same unit
+ *
+ * Order is preserved; the first occurrence of a listing wins.
+ */
+export function dedupeProperties(properties: Property[], options: DedupeOptions = {}): DedupeResult {
+  const known = (options.known ?? []).filter((property) => !isSyntheticId(property.id));
+  const knownIds = new Set(known.map((property) => property.id));
+  const knownIndex = new SpatialIndex();
+  known.forEach((property) => knownIndex.add(property));
+
+  const result: DedupeResult = { unique: [], duplicates: [], relists: [], adopted: 0 };
+  const keptIds = new Set<string>();
+  const keptIndex = new SpatialIndex();
+
+  for (const original of properties) {
+    let property = original;
+
+    if (!isSyntheticId(property.id)) {
+      if (keptIds.has(property.id)) {
+        result.duplicates.push({ property, matchedId: property.id, reason: 'same_code' });
+        continue;
+      }
+    } else {
+      const current = keptIndex.findMatch(property, options);
+      if (current) {
+        result.duplicates.push({
+          property,
+          matchedId: current.match.id,
+          reason: 'fuzzy',
+          distanceM: current.distanceM,
+        });
+        continue;
+      }
+
+      // Keep the ID a previous run stored for this unit, so it isn't seen as new every run
+      const previous = knownIndex.findMatch(property, options, (candidate) => !keptIds.has(candidate.id));
+      if (previous) {
+        property = { ...property, id: previous.match.id };
+        result.adopted++;
+      }
+    }
+
+    // Same unit under another code, in this run or a previous one
+    if (!isSyntheticId(property.id)) {
+      const differentId = (candidate: Property) => candidate.id !== property.id;
+      const sameUnit =
+        (knownIds.has(property.id) ? null : knownIndex.findMatch(property, options, differentId)) ??
+        keptIndex.findMatch(property, options, differentId);
+
+      if (sameUnit) {
+        property = { ...property, metadata: { ...property.metadata, unitId: unitIdOf(sameUnit.match) } };
+        result.relists.push({
+          property,
+          matchedId: sameUnit.match.id,
+          reason: 'relist',
+          distanceM: sameUnit.distanceM,
+        });
+      }
+    }
+
+    keptIds.add(property.id);
+    keptIndex.add(property);
+    result.unique.push(property);
+  }
+
+  return result;
+}
+
+/**
+ * One-line summary for logs
+ */
+export function summarizeDedupe(result: DedupeResult): string {
+  const count = (reason: DuplicateReason) =>
+    result.duplicates.filter((duplicate) => duplicate.reason === reason).length;
+
+  return (
+    `${result.unique.length} unique, ${count('same_code')} duplicate codes, ` +
+    `${count('fuzzy')} fuzzy duplicates, ${result.relists.length} relisted units, ` +
+    `${result.adopted} IDs adopted from previous runs`
+  );
+}
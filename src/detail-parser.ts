@@ -0,0 +1,219 @@
+/**
+ * Parser for Idealista.pt listing detail pages (/imovel/{propertyCode}/)
+ *
+ * The detail page embeds the full advert in __NEXT_DATA__, including fields
+ * that are missing from the search results elementList: agent contact,
+ * construction year, building floors, energy certificate, the full image
+ * gallery and the untruncated description.
+ */
+
+import { load } from 'cheerio';
+import { createLogger } from './logger';
+import {
+  EnergyCertificate,
+  findCondition,
+  findEnergyCertificate,
+  parseConditionCode,
+  parseEnergyCertificate,
+  PropertyCondition,
+} from './normalizer';
+import type { IdealistaNextData } from './parser.js';
+import type { ListingStatus, Property } from './types';
+
+const logger = createLogger('detail-parser');
+
+// Labels idealista shows on adverts that are under offer or off the market
+const STATUS_LABELS: Array<[RegExp, ListingStatus]> = [
+  [/\bvendid[oa]\b/i, 'sold'],
+  [/\barrendad[oa]\b/i, 'rented'],
+  [/\breservad[oa]\b/i, 'reserved'],
+];
+const LABEL_SELECTOR = '.tag, .deactivated-detail';
+// Banner of an advert the advertiser took down without saying why
+const DEACTIVATED_PATTERN = /an[úu]ncio (?:foi )?desativado|j[áa] n[ãa]o est[áa] (?:dispon[íi]vel|publicado)/i;
+
+/**
+ * Idealista advert detail structure from __NEXT_DATA__
+ */
+export interface IdealistaPropertyDetail {
+  propertyCode?: string;
+  propertyComment?: string;
+  comments?: Array<{ propertyComment?: string; language?: string }>;
+  moreCharacteristics?: {
+    constructionYear?: number;
+    floor?: string;
+    totalFloors?: number;
+    numFloors?: number;
+    energyCertificationType?: string;
+    status?: string;
+  };
+  energyCertification?: {
+    title?: string;
+    energyConsumption?: { type?: string };
+  };
+  multimedia?: {
+    images?: Array<{ url?: string; tag?: string }>;
+  };
+  contactInfo?: {
+    commercialName?: string;
+    contactName?: string;
+    userType?: string;
+    phone1?: { phoneNumber?: string; formattedPhone?: string };
+    email?: string;
+  };
+  ubication?: {
+    postalCode?: string;
+    latitude?: number;
+    longitude?: number;
+  };
+}
+
+/**
+ * Fields a detail page adds on top of a search-results Property
+ */
+export interface PropertyDetail {
+  description?: string;
+  images?: string[];
+  agent?: Property['agent'];
+  constructionYear?: number;
+  totalFloors?: number;
+  energyRating?: EnergyCertificate;
+  condition?: PropertyCondition;
+  postcode?: string;
+}
+
+/**
+ * Find the advert object inside the detail page's page props
+ */
+function findAdvert(nextData: IdealistaNextData): IdealistaPropertyDetail | undefined {
+  const pageProps = nextData?.props?.pageProps;
+  return pageProps?.adDetail || pageProps?.propertyDetail || pageProps?.detail;
+}
+
+/**
+ * Parse a detail page's __NEXT_DATA__ into the fields used to enrich a Property
+ */
+export function parseDetailNextData(nextData: IdealistaNextData): PropertyDetail | null {
+  const advert = findAdvert(nextData);
+  if (!advert) {
+    logger.warn('[idealista-detail] No advert found in Next.js data');
+    return null;
+  }
+
+  const characteristics = advert.moreCharacteristics || {};
+  const contact = advert.contactInfo;
+
+  const description =
+    advert.propertyComment ||
+    advert.comments?.find((c) => c.language === 'pt')?.propertyComment ||
+    advert.comments?.[0]?.propertyComment;
+
+  const images = (advert.multimedia?.images || [])
+    .map((image) => image.url)
+    .filter((url): url is string => Boolean(url));
+
+  return {
+    description: description ? description.replace(/\s+/g, ' ').trim() : undefined,
+    images: images.length > 0 ? images : undefined,
+    agent: contact
+      ? {
+          name: contact.contactName || contact.commercialName,
+          agency: contact.userType === 'private' ? undefined : contact.commercialName,
+          phone: contact.phone1?.formattedPhone || contact.phone1?.phoneNumber,
+          email: contact.email,
+          isPrivate: contact.userType ? contact.userType === 'private' : undefined,
+        }
+      : undefined,
+    constructionYear: characteristics.constructionYear,
+    totalFloors: characteristics.totalFloors ?? characteristics.numFloors,
+    energyRating:
+      parseEnergyCertificate(
+        advert.energyCertification?.energyConsumption?.type || characteristics.energyCertificationType
+      ) ?? findEnergyCertificate(description),
+    condition: parseConditionCode(characteristics.status) ?? findCondition(description),
+    postcode: advert.ubication?.postalCode,
+  };
+}
+
+/**
+ * Merge detail page fields into a Property, keeping existing values where the detail page has none
+ */
+export function mergePropertyDetail(property: Property, detail: PropertyDetail): Property {
+  return {
+    ...property,
+    description: detail.description || property.description,
+    images: detail.images || property.images,
+    agent: detail.agent ? { ...property.agent, ...detail.agent } : property.agent,
+    location: {
+      ...property.location,
+      postcode: detail.postcode || property.location.postcode,
+    },
+    details: {
+      ...property.details,
+      constructionYear: detail.constructionYear ?? property.details?.constructionYear,
+      totalFloors: detail.totalFloors ?? property.details?.totalFloors,
+      energyRating: detail.energyRating ?? property.details?.energyRating,
+      condition: detail.condition ?? property.details?.condition,
+      description: detail.description || property.details?.description,
+    },
+  };
+}
+
+/**
+ * A fetched detail page, after redirects
+ */
+export interface ListingPage {
+  propertyCode: string;
+  /** HTTP status of the navigation response, if known */
+  status?: number;
+  /** URL the page ended up on */
+  url: string;
+  html: string;
+  nextData: IdealistaNextData | null;
+}
+
+export interface ListingCheck {
+  /** null when the page doesn't tell (e.g. no advert data) */
+  status: ListingStatus | null;
+  reason: string;
+  /** For adverts still online */
+  detail?: PropertyDetail;
+}
+
+/**
+ * Decide from its detail page whether a listing is still online
+ *
+ * A 404/410, or a redirect away from /imovel/{code}/ (idealista sends expired
+ * adverts to a search page), means the listing was removed. Adverts left
+ * online with a vendido, arrendado or reservado label are sold, rented or
+ * reserved.
+ */
+export function classifyListingPage(page: ListingPage): ListingCheck {
+  if (page.status === 404 || page.status === 410) {
+    return { status: 'removed', reason: `HTTP ${page.status}` };
+  }
+
+  const { pathname } = new URL(page.url);
+  if (!pathname.startsWith(`/imovel/${page.propertyCode}`)) {
+    return { status: 'removed', reason: `Redirected to ${pathname}` };
+  }
+
+  const $ = load(page.html);
+  const labels = $(LABEL_SELECTOR)
+    .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+    .get()
+    .filter(Boolean);
+  const detail = page.nextData ? parseDetailNextData(page.nextData) ?? undefined : undefined;
+
+  for (const [pattern, status] of STATUS_LABELS) {
+    const label = labels.find((text) => pattern.test(text));
+    if (label) return { status, reason: `Labelled "${label}"`, detail: status === 'reserved' ? detail : undefined };
+  }
+  if (labels.some((text) => DEACTIVATED_PATTERN.test(text))) {
+    return { status: 'removed', reason: 'Advert deactivated' };
+  }
+
+  return detail
+    ? { status: 'active', reason: 'Advert online', detail }
+    : { status: null, reason: 'No advert found in the page' };
+}
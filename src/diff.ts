@@ -0,0 +1,177 @@
+/**
+ * Incremental change detection between crawl runs
+ *
+ * Compares the properties of a run against the stored previous snapshot by
+ * ID (the idealista propertyCode) and classifies each listing:
+ *
+ *   new          - not in the previous snapshot
+ *   unchanged    - same values for every compared field
+ *   updated      - at least one field changed (field-level deltas attached),
+ *                  or a previously removed listing is back
+ *   disappeared  - active in the previous snapshot but missing from this run
+ *
+ * Bookkeeping fields (scrapedAt, metadata, status, priceHistory) are not compared.
+ */
+
+import type { ListingStatus, Property } from './types';
+
+const IGNORED_FIELDS = new Set(['scrapedAt', 'metadata', 'status', 'priceHistory']);
+
+export interface FieldChange {
+  /** Dotted path, e.g. "price" or "details.sqm" */
+  field: string;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface UpdatedListing {
+  property: Property;
+  previous: Property;
+  changes: FieldChange[];
+  priceChanged: boolean;
+}
+
+export interface StatusTransition {
+  id: string;
+  from: ListingStatus | undefined;
+  to: ListingStatus;
+}
+
+export interface SnapshotDiff {
+  new: Property[];
+  unchanged: Property[];
+  updated: UpdatedListing[];
+  /** Previously active listings missing from this run, with status set to "removed" */
+  disappeared: Property[];
+  transitions: StatusTransition[];
+}
+
+export interface DiffOptions {
+  /**
+   * Flag previously active listings that are missing as disappeared (default: true).
+   * Only reliable when the run crawled the same searches to their last page.
+   */
+  detectRemovals?: boolean;
+  /**
+   * IDs seen in this run but left out of `current` (e.g. quarantined by
+   * validation); these are never flagged as disappeared
+   */
+  seenIds?: Iterable<string>;
+}
+
+/**
+ * Flatten an object into dotted paths; arrays are compared as a whole
+ */
+function flatten(value: unknown, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (!prefix && IGNORED_FIELDS.has(key)) continue;
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (value !== undefined && value !== null) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Field-level differences between two versions of a listing
+ */
+export function compareProperties(previous: Property, current: Property): FieldChange[] {
+  const before = flatten(previous);
+  const after = flatten(current);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  return fields
+    .filter((field) => !isEqual(before[field], after[field]))
+    .map((field) => ({ field, previous: before[field], current: after[field] }));
+}
+
+/**
+ * Diff a run against the previous snapshot
+ */
+export function diffSnapshots(
+  previous: Property[],
+  current: Property[],
+  options: DiffOptions = {}
+): SnapshotDiff {
+  const { detectRemovals = true } = options;
+  const previousById = new Map(previous.map((property) => [property.id, property]));
+  const currentIds = new Set([...current.map((property) => property.id), ...(options.seenIds ?? [])]);
+
+  const diff: SnapshotDiff = {
+    new: [],
+    unchanged: [],
+    updated: [],
+    disappeared: [],
+    transitions: [],
+  };
+
+  for (const property of current) {
+    const before = previousById.get(property.id);
+
+    if (!before) {
+      diff.new.push(property);
+      diff.transitions.push({ id: property.id, from: undefined, to: 'active' });
+      continue;
+    }
+
+    const changes = compareProperties(before, property);
+    const previousStatus = before.status ?? 'active';
+
+    if (previousStatus !== 'active') {
+      diff.transitions.push({ id: property.id, from: previousStatus, to: 'active' });
+    }
+
+    if (changes.length > 0 || previousStatus !== 'active') {
+      diff.updated.push({
+        property,
+        previous: before,
+        changes,
+        priceChanged: changes.some((change) => change.field === 'price'),
+      });
+    } else {
+      diff.unchanged.push(property);
+    }
+  }
+
+  if (detectRemovals) {
+    for (const before of previous) {
+      if (currentIds.has(before.id) || (before.status ?? 'active') !== 'active') continue;
+
+      diff.disappeared.push({ ...before, status: 'removed' });
+      diff.transitions.push({ id: before.id, from: 'active', to: 'removed' });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Listings downstream needs to receive: new, updated and disappeared
+ */
+export function changedProperties(diff: SnapshotDiff): Property[] {
+  return [
+    ...diff.new,
+    ...diff.updated.map((entry) => ({ ...entry.property, status: 'active' as const })),
+    ...diff.disappeared,
+  ];
+}
+
+/**
+ * One-line summary for logging
+ */
+export function summarizeDiff(diff: SnapshotDiff): string {
+  const priceChanges = diff.updated.filter((entry) => entry.priceChanged).length;
+  return (
+    `${diff.new.length} new, ${diff.updated.length} updated (${priceChanges} price changes), ` +
+    `${diff.unchanged.length} unchanged, ${diff.disappeared.length} disappeared`
+  );
+}
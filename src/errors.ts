@@ -0,0 +1,77 @@
+/**
+ * Scraper error types
+ */
+
+import type { DataDomeOutcome } from './stealth';
+
+/**
+ * Thrown when DataDome challenges or blocks a request
+ *
+ * `outcome` tells callers how to react: a `soft_challenge` may clear after
+ * backing off or rotating identity, a `hard_block` means the current
+ * IP/fingerprint is banned and the run should move on or abort.
+ */
+export class BlockedError extends Error {
+  readonly outcome: Exclude<DataDomeOutcome, 'clear'>;
+  readonly url?: string;
+  readonly status?: number;
+  readonly reasons: string[];
+
+  constructor(
+    outcome: Exclude<DataDomeOutcome, 'clear'>,
+    details: { url?: string; status?: number; reasons?: string[] } = {}
+  ) {
+    const reasons = details.reasons || [];
+    super(
+      `Blocked by DataDome (${outcome})${details.url ? ` at ${details.url}` : ''}` +
+        (reasons.length > 0 ? `: ${reasons.join(', ')}` : '')
+    );
+    this.name = 'BlockedError';
+    this.outcome = outcome;
+    this.url = details.url;
+    this.status = details.status;
+    this.reasons = reasons;
+  }
+}
+
+/**
+ * Thrown for a location that isn't in the catalogue (see locations.ts)
+ */
+export class UnknownLocationError extends Error {
+  readonly location: string;
+  readonly suggestions: string[];
+
+  constructor(location: string, suggestions: string[] = []) {
+    super(
+      `Unknown location "${location}"` +
+        (suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '')
+    );
+    this.name = 'UnknownLocationError';
+    this.location = location;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Thrown for crawl options that are missing, conflicting or out of range
+ */
+export class InvalidOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidOptionsError';
+  }
+}
+
+/**
+ * Thrown for a page that loaded without usable data (no __NEXT_DATA__, or not
+ * in the replay archive), so it isn't mistaken for the end of a search
+ */
+export class PageParseError extends Error {
+  readonly url: string;
+
+  constructor(url: string, reason: string) {
+    super(`${reason}: ${url}`);
+    this.name = 'PageParseError';
+    this.url = url;
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Geographic enrichment
+ *
+ * Fills in what idealista leaves inconsistent or empty:
+ *
+ *   - geohash of the coordinates
+ *   - postcode, normalised to the CP7 format "NNNN-NNN"
+ *   - district, concelho and freguesia, reverse-geocoded from the coordinates
+ *     with CAOP boundaries when available, otherwise matched by name against
+ *     the location catalogue
+ *   - canonical `city` (concelho) and `region` (district) names, so listings
+ *     whose municipality/province fields differ in spelling line up
+ *
+ * CAOP (Carta Administrativa Oficial de Portugal) freguesia boundaries are
+ * read from a GeoJSON export in WGS84; see the README for how to produce it.
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { createLogger } from './logger';
+import { districtForAdminCode, findLocations, getLocation, PortugueseLocation, slugify } from './locations';
+import type { Property } from './types';
+
+const logger = createLogger('geo');
+
+export const DEFAULT_BOUNDARIES_FILE = 'data/caop-freguesias.geojson';
+export const GEOHASH_PRECISION = 8;
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Geohash of a point (precision 8 is roughly 38m x 19m)
+ */
+export function encodeGeohash(lat: number, lon: number, precision = GEOHASH_PRECISION): string {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lonRange : latRange;
+    const coordinate = evenBit ? lon : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * A Portuguese postcode as "NNNN-NNN", or undefined if the text has none
+ *
+ * Accepts "1900-361", "1900 361" and "1900361", on its own or inside an address.
+ */
+export function normalizePostcode(text: string | undefined): string | undefined {
+  const match = text?.match(/(?<!\d)([1-9]\d{3})[\s-]?(\d{3})(?!\d)/);
+  return match ? `${match[1]}-${match[2]}` : undefined;
+}
+
+export interface AdminArea {
+  /** CAOP code: 2-digit district, 2-digit concelho, 2-digit freguesia */
+  code?: string;
+  district: string;
+  concelho: string;
+  freguesia?: string;
+}
+
+type Ring = number[][];
+type PolygonCoordinates = Ring[];
+
+interface BoundaryFeature {
+  area: AdminArea;
+  polygons: PolygonCoordinates[];
+  bbox: [number, number, number, number];
+}
+
+// Property names across CAOP releases (compared lowercased)
+const CODE_KEYS = ['dtmnfr', 'dicofre'];
+const FREGUESIA_KEYS = ['freguesia'];
+const CONCELHO_KEYS = ['municipio', 'concelho'];
+const DISTRICT_KEYS = ['distrito_ilha', 'distrito', 'ilha'];
+
+/**
+ * Freguesia boundaries for offline reverse geocoding
+ */
+export class AdminBoundaries {
+  private features: BoundaryFeature[];
+
+  constructor(geojson: { features?: any[] }) {
+    this.features = (geojson.features ?? []).flatMap((feature) => {
+      const polygons = toPolygons(feature.geometry);
+      if (polygons.length === 0) return [];
+      return [{ area: toAdminArea(feature.properties ?? {}), polygons, bbox: boundingBox(polygons) }];
+    });
+  }
+
+  /**
+   * Boundaries from a GeoJSON file
+   *
+   * Without a path, the default file is used when present and null returned
+   * otherwise (areas are then matched by name). A path that was asked for must exist.
+   */
+  static async load(path?: string): Promise<AdminBoundaries | null> {
+    if (path === undefined) {
+      if (!existsSync(DEFAULT_BOUNDARIES_FILE)) {
+        logger.warn(
+          `No CAOP boundaries at ${DEFAULT_BOUNDARIES_FILE}, matching areas by name ` +
+            '(npm run boundaries builds the file, see the README)'
+        );
+        return null;
+      }
+      path = DEFAULT_BOUNDARIES_FILE;
+    } else if (!existsSync(path)) {
+      throw new Error(`Boundaries file not found: ${path}`);
+    }
+
+    const boundaries = new AdminBoundaries(JSON.parse(await readFile(path, 'utf-8')));
+    logger.info(`Loaded ${boundaries.size} freguesia boundaries from ${path}`);
+    return boundaries;
+  }
+
+  get size(): number {
+    return this.features.length;
+  }
+
+  /**
+   * Freguesia names by catalogue concelho slug, as written to data/freguesias.json
+   */
+  freguesiaSources(): Record<string, string[]> {
+    const sources: Record<string, Map<string, string>> = {};
+    for (const { area } of this.features) {
+      const concelho = placeFromArea(area).concelho;
+      if (!concelho || !area.freguesia) {
+        logger.warn(`No catalogue concelho for CAOP area ${area.code ?? area.concelho}`);
+        continue;
+      }
+      // A freguesia made of several polygons (islands, exclaves) may come as several features
+      sources[concelho.slug] ??= new Map();
+      sources[concelho.slug].set(slugify(area.freguesia), area.freguesia);
+    }
+
+    return Object.fromEntries(
+      Object.entries(sources)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([concelho, names]) => [concelho, [...names.values()].sort((a, b) => a.localeCompare(b, 'pt'))])
+    );
+  }
+
+  /**
+   * Administrative area containing a point, if any
+   */
+  lookup(lat: number, lon: number): AdminArea | undefined {
+    for (const feature of this.features) {
+      const [minLon, minLat, maxLon, maxLat] = feature.bbox;
+      if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+
+      if (feature.polygons.some((polygon) => inPolygon(lon, lat, polygon))) {
+        return feature.area;
+      }
+    }
+    return undefined;
+  }
+}
+
+function pick(properties: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const [key, value] of Object.entries(properties)) {
+    if (keys.includes(key.toLowerCase()) && value !== null && value !== undefined && value !== '') {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+function toAdminArea(properties: Record<string, unknown>): AdminArea {
+  return {
+    code: pick(properties, CODE_KEYS),
+    district: pick(properties, DISTRICT_KEYS) ?? '',
+    concelho: pick(properties, CONCELHO_KEYS) ?? '',
+    freguesia: pick(properties, FREGUESIA_KEYS),
+  };
+}
+
+function toPolygons(geometry: { type?: string; coordinates?: any } | null | undefined): PolygonCoordinates[] {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates];
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+function boundingBox(polygons: PolygonCoordinates[]): [number, number, number, number] {
+  const points = polygons.flatMap((polygon) => polygon[0] ?? []);
+  const lons = points.map(([lon]) => lon);
+  const lats = points.map(([, lat]) => lat);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+}
+
+/**
+ * Point in the outer ring and in none of the holes
+ */
+function inPolygon(x: number, y: number, [outer, ...holes]: PolygonCoordinates): boolean {
+  return Boolean(outer) && inRing(x, y, outer) && !holes.some((hole) => inRing(x, y, hole));
+}
+
+/**
+ * Ray casting: a point is inside when a ray from it crosses the ring an odd number of times
+ */
+function inRing(x: number, y: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+interface CanonicalPlace {
+  district?: PortugueseLocation;
+  concelho?: PortugueseLocation;
+  freguesia?: string;
+  code?: string;
+}
+
+/**
+ * Catalogue district and concelho for a CAOP area; the code disambiguates
+ * concelho names used in two regions (Lagoa, Calheta)
+ */
+function placeFromArea(area: AdminArea): CanonicalPlace {
+  const districtSlug = area.code ? districtForAdminCode(area.code) : undefined;
+  const concelho =
+    findLocations(area.concelho, 'concelho', districtSlug)[0] ?? findLocations(area.concelho, 'concelho')[0];
+
+  return {
+    district: getLocation(districtSlug ?? concelho?.district ?? ''),
+    concelho,
+    freguesia: area.freguesia,
+    code: area.code,
+  };
+}
+
+/**
+ * Catalogue district, concelho and freguesia from idealista's own fields:
+ * `municipality`/`province` become the concelho/district and the neighbourhood
+ * part of the address (`district` in idealista's data) the freguesia. Listings
+ * without a municipality carry the searched location slug as their city.
+ */
+function placeFromNames(property: Property): CanonicalPlace {
+  const { city, region, address } = property.location;
+  const districts = region
+    ? [...findLocations(region, 'district'), ...findLocations(`${region} distrito`, 'district')]
+    : [];
+
+  const candidates = findLocations(city, 'concelho');
+  let concelho =
+    candidates.find((location) => districts.some((district) => district.slug === location.district)) ??
+    candidates[0];
+  let freguesia: PortugueseLocation | undefined;
+
+  if (!concelho) {
+    // A freguesia given as the municipality ("Arroios"), or a searched location slug
+    const searched = findLocations(city, 'freguesia')[0] ?? getLocation(city);
+    if (searched?.level === 'freguesia') {
+      freguesia = searched;
+      concelho = getLocation(searched.concelho!);
+    } else if (searched?.level === 'concelho') {
+      concelho = searched;
+    } else if (searched?.level === 'district') {
+      districts.unshift(searched);
+    }
+  }
+
+  // The address ends with "..., {neighbourhood}, {freguesia}, {municipality}"
+  if (concelho && !freguesia) {
+    const parts = (address ?? '').split(',').map((part) => part.trim()).reverse();
+    freguesia = parts.map((part) => findLocations(part, 'freguesia', concelho!.slug)[0]).find(Boolean);
+  }
+
+  return {
+    district: getLocation(concelho?.district ?? '') ?? districts[0],
+    concelho,
+    freguesia: freguesia?.name,
+  };
+}
+
+/**
+ * A property with geohash, postcode and canonical administrative areas filled in
+ */
+export function enrichLocation(property: Property, boundaries?: AdminBoundaries | null): Property {
+  const { coordinates } = property.location;
+  const area = coordinates && boundaries ? boundaries.lookup(coordinates.lat, coordinates.lon) : undefined;
+  const place = area ? placeFromArea(area) : placeFromNames(property);
+
+  return {
+    ...property,
+    location: {
+      ...property.location,
+      city: place.concelho?.name ?? property.location.city,
+      region: place.district?.name ?? property.location.region,
+      postcode:
+        normalizePostcode(property.location.postcode) ?? normalizePostcode(property.location.address),
+      geohash: coordinates ? encodeGeohash(coordinates.lat, coordinates.lon) : undefined,
+      district: place.district?.name,
+      concelho: place.concelho?.name,
+      freguesia: place.freguesia,
+      adminCode: place.code,
+    },
+  };
+}
+
+/**
+ * Enrich a batch and log how many listings could be placed
+ */
+export function enrichLocations(properties: Property[], boundaries?: AdminBoundaries | null): Property[] {
+  const enriched = properties.map((property) => enrichLocation(property, boundaries));
+
+  const placed = enriched.filter((property) => property.location.concelho).length;
+  const withFreguesia = enriched.filter((property) => property.location.freguesia).length;
+  logger.info(
+    `Geo enrichment: ${placed}/${enriched.length} listings placed in a concelho, ${withFreguesia} in a freguesia` +
+      (boundaries ? ' (CAOP boundaries)' : ' (by name)')
+  );
+  return enriched;
+}
@@ -1,240 +1,671 @@
-import { createLogger } from './logger';
+import { configureLogging, createLogger, LOG_FORMATS, LogFormat } from './logger';
 /**
  * Idealista.pt Scraper - CLI Entry Point
  *
  * Usage:
  *   tsx src/index.ts [options]
+ *   tsx src/index.ts daemon --schedule <path> [daemon options]
+ *   tsx src/index.ts worker [worker options]
+ *   tsx src/index.ts recheck [recheck options]
  *
  * Options:
- *   --location <location>          Location to scrape (default: lisboa)
+ *   --location <location>          Location slug or name to scrape (default: lisboa)
+ *   --district <district>          Scrape every concelho of a district
+ *   --all                          Scrape every concelho in Portugal
+ *   --listLocations [slug]         List districts, or the locations below one, and exit
  *   --transactionType <sale|rent>  Transaction type (default: sale)
  *   --limit <number>               Maximum properties to scrape
  *   --maxPages <number>            Max pages to scrape (default: 5)
+ *   --category <category>          Property category (default: homes)
+ *   --minPrice / --maxPrice <eur>  Price range
+ *   --minSize / --maxSize <m2>     Size range
+ *   --bedrooms <list>              Typologies, e.g. 0,1,2 or t2,t3,5+ (5 = T5 or more)
+ *   --newDevelopment               Only new developments
+ *   --sort <order>                 Sort order (default: relevance)
+ *   --partition                    Split searches larger than 60 pages into smaller ones
  *   --headless <true|false>        Run browser in headless mode (default: true)
- *   --dryRun                       Don't store to Redis, just print results
+ *   --details                      Visit each listing's detail page for extra fields
+ *   --detailConcurrency <number>   Detail pages fetched in parallel (default: 2)
+ *   --detailDelay <ms>             Delay between detail pages per worker (default: 3000)
+ *   --proxyFile <path>             File with one proxy per line to rotate through
+ *   --resume <runId>               Resume an interrupted run from its checkpoint
+ *   --checkpointStore <file|redis> Where checkpoints are kept (default: file)
+ *   --checkpointDir <path>         Directory for file checkpoints (default: .checkpoints)
+ *   --diff                         Only store listings that changed since the last run
+ *   --detectRemovals               With --diff, mark listings missing from this run as removed
+ *   --priceHistory                 Track price changes in Redis (always on for --sink redis)
+ *   --quarantineFile <path>        Append listings that fail validation to this JSONL file
+ *   --boundaries <path>            CAOP freguesia GeoJSON for reverse geocoding (default: data/caop-freguesias.geojson, if present)
+ *   --record-fixtures <dir>        Save every fetched page's raw HTML for offline tests
+ *   --archive <dir>                Archive every fetched page (URL, timestamp, status) for replay
+ *   --replay <dir>                 Read pages from an archive instead of launching a browser
+ *   --dryRun                       Don't store results, just print them
+ *   --sink <redis|api>             Where to store results (default: redis)
+ *   --output <format>              Write results to a file instead: jsonl, csv, ndjson or sqlite
+ *   --out <path>                   Output file for --output
+ *   --outputShape <shape>          Record shape for --output: property or standard (default: property)
+ *   --batchSize <number>           Listings per Core Service API request (default: 100)
+ *   --workers <number>             Parallel browser contexts, each with its own fingerprint and proxy
+ *   --rateStateFile <path>         Learned request pace per proxy and host (default: .rate-limits.json)
+ *   --summaryFile <path>           Run summary JSON written at the end of the run (default: run-summary.json)
+ *   --metricsTextfile <path>       Also write Prometheus metrics for node_exporter's textfile collector
+ *   --metricsPort <port>           Serve Prometheus metrics on /metrics while the run is going
+ *   --logFormat <json|pretty>      Log output: JSON lines or human-readable (default: json)
+ *   --logLevel <level>             Minimum log level: debug, info, warn or error (default: info)
  *   --help                         Show this help message
+ *
+ * Daemon options (runs the crawls of a schedule file, see daemon.ts):
+ *   --schedule <path>              Schedule file (JSON) with the jobs to run
+ *   --stateDir <path>              Scheduler state, file locks and run summaries (default: .daemon)
+ *   --lockStore <file|redis>       Where job locks are kept (default: file)
+ *   --shutdownTimeout <duration>   How long shutdown waits for the running crawl (default: 60s)
+ *   --metricsPort <port>           Serve per-job Prometheus metrics on /metrics
+ *   --logFormat / --logLevel       As above
+ *
+ * Worker options (runs scrape jobs from the Redis queue, see job-queue.ts):
+ *   --workerId <id>                Names this worker's processing list (default: hostname)
+ *   --maxAttempts <number>         Attempts before a job goes to the dead-letter queue (default: 3)
+ *   --retryDelay <duration>        Delay before the first retry, doubled after each (default: 1m)
+ *   --headless, --proxyFile, --rateStateFile, --boundaries, --logFormat, --logLevel  As above
+ *
+ * Recheck options (visits listings not seen in a while to update their status, see recheck.ts):
+ *   --recheckAfterDays <days>      Recheck listings not seen for this many days (default: 7)
+ *   --recheckBatchSize <number>    Listings checked and stored per batch (default: 50)
+ *   --maxBatches <number>          Stop after this many batches (default: all stale listings)
+ *   --ingest                       Also send listings whose status changed to the Core Service API
+ *   --detailDelay, --headless, --proxyFile, --rateStateFile, --replay, --dryRun,
+ *   --logFormat, --logLevel        As above
  */
 
 import { Command } from 'commander';
-import { IdealistaScraper, PORTUGUESE_LOCATIONS } from './scraper.js';
-import { connectRedis, disconnectRedis, saveProperties } from './redis';
-import type { Property } from './types';
+import { hostname } from 'os';
+import { IdealistaScraper } from './scraper.js';
+import { childLocations, getLocation, listLocations, resolveLocation } from './locations';
+import { PROPERTY_CATEGORIES, SORT_ORDERS } from './search-filters';
+import { connectRedis, disconnectRedis, getProperty, openRedisClient, RedisClient } from './redis';
+import { AdminBoundaries, DEFAULT_BOUNDARIES_FILE } from './geo';
+import { DEFAULT_CHECKPOINT_DIR } from './checkpoint';
+import { AdaptiveRateLimiter, DEFAULT_RATE_STATE_FILE } from './adaptive-limiter';
+import { RateLimiter } from './rate-limiter';
+import { ProxyPool } from './proxy-pool';
+import { OUTPUT_FORMATS, OUTPUT_SHAPES } from './sinks';
+import { DEFAULT_SUMMARY_FILE, serveMetrics } from './metrics';
+import { CrawlOptions, CrawlPlan, planCrawl, runCrawl, toInteger } from './crawl';
+import {
+  CrawlDaemon,
+  DEFAULT_DAEMON_DIR,
+  FileLockStore,
+  LockStore,
+  RedisLockStore,
+  loadSchedule,
+  parseDuration,
+} from './daemon';
+import { JobWorker, RedisJobQueue, storeListings } from './job-queue';
+import {
+  DEFAULT_RECHECK_AFTER_DAYS,
+  DEFAULT_RECHECK_BATCH_SIZE,
+  RedisRecheckStore,
+  recheckStaleListings,
+} from './recheck';
+import { IngestionClient } from './ingestion';
+import { createIngestionPayloadBatch } from './transformer';
+import { PageArchive } from './archive';
+import { InvalidOptionsError } from './errors';
+
+const logger = createLogger('cli');
+
+interface CliOptions extends CrawlOptions {
+  listLocations?: string | boolean;
+  resume?: string;
+  logFormat?: LogFormat;
+  logLevel?: string;
+}
+
+interface DaemonCliOptions {
+  schedule: string;
+  stateDir: string;
+  lockStore: 'file' | 'redis';
+  shutdownTimeout: string;
+  metricsPort?: string;
+  logFormat?: LogFormat;
+  logLevel?: string;
+}
+
+interface WorkerCliOptions {
+  workerId: string;
+  maxAttempts: string;
+  retryDelay: string;
+  headless: string;
+  proxyFile?: string;
+  rateStateFile: string;
+  boundaries?: string;
+  logFormat?: LogFormat;
+  logLevel?: string;
+}
 
-const logger = createLogger('module');
+interface RecheckCliOptions {
+  recheckAfterDays: string;
+  recheckBatchSize: string;
+  maxBatches?: string;
+  ingest: boolean;
+  detailDelay: string;
+  headless: string;
+  proxyFile?: string;
+  rateStateFile: string;
+  replay?: string;
+  dryRun: boolean;
+  logFormat?: LogFormat;
+  logLevel?: string;
+}
+
+// Set while the daemon, the queue worker or a recheck runs, so the signal handlers can stop it
+let stopService: (() => Promise<void>) | null = null;
 
 const program = new Command();
 
 program
   .name('idealista-portugal-scraper')
   .description('Scrape property listings from idealista.pt')
-  .option('-l, --location <location>', 'Location to scrape', 'lisboa')
+  // Options after "daemon" belong to the daemon command
+  .enablePositionalOptions()
+  .option('-l, --location <location>', 'Location slug or name to scrape', 'lisboa')
+  .option('--district <district>', 'Scrape every concelho of a district')
+  .option('--all', 'Scrape every concelho in Portugal', false)
+  .option('--listLocations [slug]', 'List districts, or the locations below one, and exit')
   .option('-t, --transactionType <type>', 'Transaction type (sale|rent)', 'sale')
-  .option('--limit <number>', 'Maximum properties to scrape', parseInt)
+  .option('--limit <number>', 'Maximum properties to scrape')
   .option('--maxPages <number>', 'Maximum pages to scrape', '5')
+  .option('--category <category>', `Property category (${PROPERTY_CATEGORIES.join('|')})`)
+  .option('--minPrice <eur>', 'Minimum price', parseFloat)
+  .option('--maxPrice <eur>', 'Maximum price', parseFloat)
+  .option('--minSize <m2>', 'Minimum size in m²', parseFloat)
+  .option('--maxSize <m2>', 'Maximum size in m²', parseFloat)
+  .option('--bedrooms <list>', 'Typologies, e.g. 0,1,2 or t2,t3,5+ (5 = T5 or more)')
+  .option('--newDevelopment', 'Only new developments', false)
+  .option('--sort <order>', `Sort order (${SORT_ORDERS.join('|')})`)
+  .option('--partition', 'Split searches larger than 60 pages into smaller ones', false)
   .option('--headless <boolean>', 'Run browser in headless mode', 'true')
-  .option('--dryRun', "Don't store to Redis, just print results", false)
-  .option('--multiple', 'Scrape multiple locations', false);
+  .option('--details', "Visit each listing's detail page for extra fields", false)
+  .option('--detailConcurrency <number>', 'Detail pages fetched in parallel', '2')
+  .option('--detailDelay <ms>', 'Delay between detail pages per worker', '3000')
+  .option('--proxyFile <path>', 'File with one proxy per line to rotate through')
+  .option('--resume <runId>', 'Resume an interrupted run from its checkpoint')
+  .option('--checkpointStore <store>', 'Where checkpoints are kept (file|redis)', 'file')
+  .option('--checkpointDir <path>', 'Directory for file checkpoints', DEFAULT_CHECKPOINT_DIR)
+  .option('--diff', 'Only store listings that changed since the last run', false)
+  .option('--detectRemovals', 'With --diff, mark listings missing from this run as removed', false)
+  .option('--priceHistory', 'Track price changes in Redis (always on for --sink redis)', false)
+  .option('--quarantineFile <path>', 'Append listings that fail validation to this JSONL file')
+  .option('--boundaries <path>', `CAOP freguesia GeoJSON for reverse geocoding (default: ${DEFAULT_BOUNDARIES_FILE}, if present)`)
+  .option('--record-fixtures <dir>', "Save every fetched page's raw HTML for offline tests")
+  .option('--archive <dir>', 'Archive every fetched page (URL, timestamp, status) for replay')
+  .option('--replay <dir>', 'Read pages from an archive instead of launching a browser')
+  .option('--dryRun', "Don't store results, just print them", false)
+  .option('--sink <sink>', 'Where to store results (redis|api)', 'redis')
+  .option('--output <format>', `Write results to a file instead (${OUTPUT_FORMATS.join('|')})`)
+  .option('--out <path>', 'Output file for --output')
+  .option('--outputShape <shape>', `Record shape for --output (${OUTPUT_SHAPES.join('|')})`, 'property')
+  .option('--batchSize <number>', 'Listings per Core Service API request', '100')
+  .option('--multiple', 'Scrape multiple locations', false)
+  .option('--workers <number>', 'Parallel browser contexts, each with its own fingerprint and proxy', '1')
+  .option('--rateStateFile <path>', 'Learned request pace per proxy and host', DEFAULT_RATE_STATE_FILE)
+  .option('--summaryFile <path>', 'Run summary JSON written at the end of the run', DEFAULT_SUMMARY_FILE)
+  .option('--metricsTextfile <path>', "Also write Prometheus metrics for node_exporter's textfile collector")
+  .option('--metricsPort <port>', 'Serve Prometheus metrics on /metrics while the run is going')
+  .option('--logFormat <format>', `Log output (${LOG_FORMATS.join('|')})`)
+  .option('--logLevel <level>', 'Minimum log level (debug|info|warn|error)')
+  .action((opts: CliOptions) => main(opts));
 
-program.parse();
+program
+  .command('daemon')
+  .description('Run the crawls of a schedule file over and over')
+  .requiredOption('--schedule <path>', 'Schedule file (JSON) with the jobs to run')
+  .option('--stateDir <path>', 'Scheduler state, file locks and per-job run summaries', DEFAULT_DAEMON_DIR)
+  .option('--lockStore <store>', 'Where job locks are kept (file|redis)', 'file')
+  .option('--shutdownTimeout <duration>', 'How long shutdown waits for the running crawl', '60s')
+  .option('--metricsPort <port>', 'Serve per-job Prometheus metrics on /metrics')
+  .option('--logFormat <format>', `Log output (${LOG_FORMATS.join('|')})`)
+  .option('--logLevel <level>', 'Minimum log level (debug|info|warn|error)')
+  .action((opts: DaemonCliOptions) => startDaemon(opts));
 
-const options = program.opts();
+program
+  .command('worker')
+  .description('Run scrape jobs from the Redis job queue')
+  .option('--workerId <id>', "Names this worker's processing list", hostname())
+  .option('--maxAttempts <number>', 'Attempts before a job goes to the dead-letter queue', '3')
+  .option('--retryDelay <duration>', 'Delay before the first retry, doubled after each', '1m')
+  .option('--headless <boolean>', 'Run browser in headless mode', 'true')
+  .option('--proxyFile <path>', 'File with one proxy per line to rotate through')
+  .option('--rateStateFile <path>', 'Learned request pace per proxy and host', DEFAULT_RATE_STATE_FILE)
+  .option('--boundaries <path>', `CAOP freguesia GeoJSON for reverse geocoding (default: ${DEFAULT_BOUNDARIES_FILE}, if present)`)
+  .option('--logFormat <format>', `Log output (${LOG_FORMATS.join('|')})`)
+  .option('--logLevel <level>', 'Minimum log level (debug|info|warn|error)')
+  .action((opts: WorkerCliOptions) => startWorker(opts));
 
-interface CliOptions {
-  location: string;
-  transactionType: 'sale' | 'rent';
-  limit?: number;
-  maxPages: number;
-  headless: boolean;
-  dryRun: boolean;
-  multiple: boolean;
-}
+program
+  .command('recheck')
+  .description('Visit listings not seen in a while and update their status')
+  .option('--recheckAfterDays <days>', 'Recheck listings not seen for this many days', String(DEFAULT_RECHECK_AFTER_DAYS))
+  .option('--recheckBatchSize <number>', 'Listings checked and stored per batch', String(DEFAULT_RECHECK_BATCH_SIZE))
+  .option('--maxBatches <number>', 'Stop after this many batches')
+  .option('--ingest', 'Also send listings whose status changed to the Core Service API', false)
+  .option('--detailDelay <ms>', 'Delay between detail pages', '3000')
+  .option('--headless <boolean>', 'Run browser in headless mode', 'true')
+  .option('--proxyFile <path>', 'File with one proxy per line to rotate through')
+  .option('--rateStateFile <path>', 'Learned request pace per proxy and host', DEFAULT_RATE_STATE_FILE)
+  .option('--replay <dir>', 'Read detail pages from an archive instead of the network')
+  .option('--dryRun', 'Check listings without storing anything', false)
+  .option('--logFormat <format>', `Log output (${LOG_FORMATS.join('|')})`)
+  .option('--logLevel <level>', 'Minimum log level (debug|info|warn|error)')
+  .action((opts: RecheckCliOptions) => startRecheck(opts));
 
 function printHelp(): void {
-  logger.info(`
+  console.log(`
 Idealista.pt Scraper
 
 Usage:
   tsx src/index.ts [options]
+  tsx src/index.ts daemon --schedule <path> [daemon options]
+  tsx src/index.ts worker [worker options]
+  tsx src/index.ts recheck [recheck options]
 
 Options:
-  -l, --location <location>         Location to scrape (default: lisboa)
+  -l, --location <location>         Location slug or name to scrape (default: lisboa)
+  --district <district>             Scrape every concelho of a district (e.g. faro)
+  --all                             Scrape every concelho in Portugal
+  --listLocations [slug]            List districts, or the locations below one, and exit
   -t, --transactionType <type>      Transaction type: sale or rent (default: sale)
   --limit <number>                  Maximum properties to scrape
   --maxPages <number>               Maximum pages to scrape (default: 5)
+  --category <category>             Property category: homes, offices, premises, garages,
+                                    land, rooms (rent only), storage, buildings (default: homes)
+  --minPrice <eur>                  Minimum price
+  --maxPrice <eur>                  Maximum price
+  --minSize <m2>                    Minimum size in m²
+  --maxSize <m2>                    Maximum size in m²
+  --bedrooms <list>                 Typologies, e.g. 0,1,2 or t2,t3,5+ (5 = T5 or more)
+  --newDevelopment                  Only new developments
+  --sort <order>                    Sort order: relevance, price-asc, price-desc, newest,
+                                    updated, size-asc, size-desc (default: relevance)
+  --partition                       Split searches larger than 60 pages (by price band,
+                                    typology or sub-area); --maxPages applies per partition
   --headless <true|false>           Run browser in headless mode (default: true)
-  --dryRun                          Don't store to Redis, just print results
+  --details                         Visit each listing's detail page for extra fields
+  --detailConcurrency <number>      Detail pages fetched in parallel (default: 2)
+  --detailDelay <ms>                Delay between detail pages per worker (default: 3000)
+  --proxyFile <path>                File with one proxy per line to rotate through
+  --resume <runId>                  Resume an interrupted run from its checkpoint
+  --checkpointStore <file|redis>    Where checkpoints are kept (default: file)
+  --checkpointDir <path>            Directory for file checkpoints (default: .checkpoints)
+  --diff                            Only store listings that changed since the last run
+  --detectRemovals                  With --diff, mark listings missing from this run as removed
+                                    (only use when searches are crawled to their last page)
+  --priceHistory                    Track price changes in Redis (always on for --sink redis)
+  --quarantineFile <path>           Append listings that fail validation to this JSONL file
+  --boundaries <path>               CAOP freguesia GeoJSON for reverse geocoding; without it,
+                                    areas are matched by name (default: data/caop-freguesias.geojson,
+                                    if present; a path given here must exist)
+  --record-fixtures <dir>           Save every fetched page's raw HTML for offline tests
+  --archive <dir>                   Archive every fetched page (URL, timestamp, status) for replay
+  --replay <dir>                    Read pages from an archive instead of launching a browser
+  --dryRun                          Don't store results, just print them
+  --sink <redis|api>                Where to store results (default: redis)
+  --output <format>                 Write results to a file instead: jsonl, csv, ndjson or sqlite
+  --out <path>                      Output file for --output
+  --outputShape <property|standard> Record shape for --output (default: property)
+  --batchSize <number>              Listings per Core Service API request (default: 100)
   --multiple                        Scrape multiple popular locations
+  --workers <number>                Parallel browser contexts, each with its own fingerprint
+                                    and proxy (default: 1)
+  --rateStateFile <path>            Learned request pace per proxy and host, kept between runs
+                                    (default: .rate-limits.json)
+  --summaryFile <path>              Run summary JSON (pages, blocks, latency, bytes, listings per
+                                    location) written at the end of the run (default: run-summary.json)
+  --metricsTextfile <path>          Also write Prometheus metrics for node_exporter's textfile
+                                    collector (e.g. /var/lib/node_exporter/textfile/idealista.prom)
+  --metricsPort <port>              Serve Prometheus metrics on /metrics while the run is going
+  --logFormat <json|pretty>         Log output: JSON lines for log pipelines, or human-readable
+                                    for local use (default: json)
+  --logLevel <level>                Minimum log level: debug, info, warn or error (default: info)
   --help                            Show this help message
 
-Available locations:
-  ${PORTUGUESE_LOCATIONS.join(', ')}
+Daemon options (run the crawls of a schedule file over and over):
+  --schedule <path>                 Schedule file (JSON) with the jobs to run, see
+                                    schedule.example.json
+  --stateDir <path>                 Scheduler state, file locks and per-job run summaries
+                                    (default: .daemon)
+  --lockStore <file|redis>          Where job locks are kept; use redis for daemons on
+                                    several hosts (default: file)
+  --shutdownTimeout <duration>      How long SIGINT/SIGTERM waits for the running crawl to
+                                    stop after its current page (default: 60s)
+  --metricsPort <port>              Serve per-job Prometheus metrics on /metrics
+  --logFormat, --logLevel           As above
+
+Worker options (run scrape jobs pushed onto the idealista:portugal:jobs Redis list):
+  --workerId <id>                   Names this worker's processing list, from which
+                                    unacknowledged jobs are recovered on restart (default: hostname)
+  --maxAttempts <number>            Attempts before a job goes to the dead-letter queue (default: 3)
+  --retryDelay <duration>           Delay before the first retry, doubled after each (default: 1m)
+  --headless, --proxyFile, --rateStateFile, --boundaries, --logFormat, --logLevel
+                                    As above
+
+Recheck options (visit listings not seen in a search for a while and update their status:
+active, reserved, sold, rented or removed):
+  --recheckAfterDays <days>         Recheck listings not seen for this many days (default: 7)
+  --recheckBatchSize <number>       Listings checked and stored per batch (default: 50)
+  --maxBatches <number>             Stop after this many batches (default: all stale listings)
+  --ingest                          Also send listings whose status changed to the Core Service API
+  --detailDelay, --headless, --proxyFile, --rateStateFile, --replay, --dryRun, --logFormat,
+  --logLevel                        As above
+
+Districts (concelhos with --listLocations <district>):
+  ${listLocations('district')
+    .map((location) => location.slug)
+    .join(', ')}
 
 Examples:
   tsx src/index.ts --location lisboa --limit 5
   tsx src/index.ts -l porto -t rent --maxPages 3
   tsx src/index.ts --multiple --limit 50
+  tsx src/index.ts --district faro --maxPages 10
+  tsx src/index.ts -l "vila nova de gaia" -t rent
+  tsx src/index.ts --listLocations lisboa
+  tsx src/index.ts --multiple --maxPages 20 --workers 4 --proxyFile proxies.txt
   tsx src/index.ts --location faro --dryRun --headless false
+  tsx src/index.ts --location porto --sink api --batchSize 50
+  tsx src/index.ts -l porto --output sqlite --out data/idealista.db
+  tsx src/index.ts -l lisboa --output csv --out data/lisboa.csv --outputShape standard
+  tsx src/index.ts --location braga --limit 10 --details
+  tsx src/index.ts -l lisboa --maxPrice 400000 --bedrooms 2,3 --minSize 70 --sort price-asc
+  tsx src/index.ts -l porto -t rent --category rooms --maxPrice 500
+  tsx src/index.ts -l lisboa --partition --maxPages 60
+  tsx src/index.ts --multiple --maxPages 60 --resume 20240131T142501-3f9a2c
+  tsx src/index.ts -l lisboa --maxPages 3 --archive archive/lisboa
+  tsx src/index.ts -l lisboa --maxPages 3 --replay archive/lisboa --dryRun
+  tsx src/index.ts daemon --schedule schedule.json --metricsPort 9464
+  tsx src/index.ts worker --proxyFile proxies.txt --maxAttempts 5
+  tsx src/index.ts recheck --recheckAfterDays 14 --maxBatches 4 --ingest
 
 Environment Variables:
   PROXY_SERVER       - Proxy server URL (e.g., http://proxy:port)
   PROXY_USERNAME     - Proxy username
   PROXY_PASSWORD     - Proxy password
+  PROXY_LIST         - Comma-separated proxies to rotate through (overrides PROXY_SERVER)
+  PROXY_LIST_FILE    - File with one proxy per line (same as --proxyFile)
+  PROXY_COOLDOWN_MS  - Quarantine after a block, doubled per repeat block (default: 600000)
+  REQUEST_DELAY_MS   - Minimum average gap between requests across all workers (default: 1000)
+  MAX_CONCURRENT_REQUESTS - Page loads in flight at once across all workers (default: 5)
   REDIS_URL          - Redis connection URL (default: redis://localhost:6379)
+  LANDOMO_API_URL    - Core Service API base URL (required for --sink api and --ingest)
+  LANDOMO_API_KEY    - Core Service API key (required for --sink api and --ingest)
+  LOG_FORMAT         - Log output, json or pretty (same as --logFormat)
+  LOG_LEVEL          - Minimum log level (same as --logLevel)
 `);
 }
 
-function formatProperty(prop: Property): void {
-  logger.info("-" + "=".repeat(60));
-  logger.info(`ID: ${prop.id}`);
-  logger.info(`Title: ${prop.title}`);
-  logger.info(`Price: ${prop.currency} ${prop.price.toLocaleString()}`);
-  logger.info(`Type: ${prop.propertyType} (${prop.transactionType})`);
-  logger.info(`Location: ${prop.location.city}${prop.location.region ? ', ' + prop.location.region : ''}`);
-  if (prop.location.address) {
-    logger.info(`Address: ${prop.location.address}`);
+/**
+ * Print the districts, or the concelhos and freguesias below a location
+ */
+function printLocations(slug?: string, indent = ''): void {
+  const children = slug ? childLocations(slug) : listLocations('district').map((location) => location.slug);
+
+  for (const child of children) {
+    console.log(`${indent}${child.padEnd(60 - indent.length)} ${getLocation(child)!.name}`);
+    if (slug) printLocations(child, `${indent}  `);
   }
-  logger.info(`Details: ${prop.details.sqm || '?'} sqm | ${prop.details.rooms || '?'} rooms | ${prop.details.bathrooms || '?'} bath`);
-  if (prop.features.length > 0) {
-    logger.info(`Features: ${prop.features.slice(0, 5).join(', ')}`);
+  if (children.length === 0 && !indent) {
+    console.log(`No locations catalogued below ${slug}`);
   }
-  logger.info(`URL: ${prop.url}`);
 }
 
-async function main(): Promise<void> {
-  const opts = options as CliOptions;
-
-  // Parse boolean option
-  const headlessValue = opts.headless as any;
-  opts.headless = headlessValue !== false && headlessValue !== 'false';
-  opts.maxPages = parseInt(opts.maxPages as any, 10);
+/**
+ * A district given by name ("faro") or slug, falling back to any location
+ */
+function resolveDistrictOrLocation(input: string): string {
+  try {
+    return resolveLocation(input, 'district');
+  } catch {
+    return resolveLocation(input);
+  }
+}
 
-  // Validate transaction type
-  if (opts.transactionType !== 'sale' && opts.transactionType !== 'rent') {
-    logger.error(`Invalid transaction type: ${opts.transactionType}. Use 'sale' or 'rent'.`);
+function setUpLogging(opts: { logFormat?: LogFormat; logLevel?: string }): void {
+  if (opts.logFormat && !LOG_FORMATS.includes(opts.logFormat)) {
+    logger.error(`Invalid log format: ${opts.logFormat}. Use 'json' or 'pretty'.`);
     process.exit(1);
   }
+  configureLogging({ format: opts.logFormat, level: opts.logLevel });
+}
 
-  logger.info("=" + "=".repeat(60));
-  logger.info('Idealista.pt Scraper');
-  logger.info("=" + "=".repeat(60));
-  logger.info(`Location: ${opts.multiple ? 'Multiple locations' : opts.location}`);
-  logger.info(`Transaction type: ${opts.transactionType}`);
-  logger.info(`Max pages: ${opts.maxPages}`);
-  logger.info(`Limit: ${opts.limit || 'none'}`);
-  logger.info(`Headless: ${opts.headless}`);
-  logger.info(`Dry run: ${opts.dryRun}`);
-  logger.info("=" + "=".repeat(60));
-
-  // Configure proxy from environment
-  const proxyConfig = process.env.PROXY_SERVER ? {
-    server: process.env.PROXY_SERVER,
-    username: process.env.PROXY_USERNAME,
-    password: process.env.PROXY_PASSWORD,
-  } : undefined;
-
-  const scraper = new IdealistaScraper({
-    headless: opts.headless,
-    minDelayMs: 2000,
-    maxDelayMs: 4000,
-    proxy: proxyConfig,
-  });
+async function main(opts: CliOptions): Promise<void> {
+  if (opts.listLocations) {
+    try {
+      printLocations(typeof opts.listLocations === 'string' ? resolveDistrictOrLocation(opts.listLocations) : undefined);
+    } catch (error) {
+      logger.error((error as Error).message);
+      process.exit(1);
+    }
+    return;
+  }
 
-  let properties: Property[] = [];
+  setUpLogging(opts);
 
+  let plan: CrawlPlan;
   try {
-    await scraper.initialize();
+    plan = planCrawl(opts);
+  } catch (error) {
+    if (!(error instanceof InvalidOptionsError)) throw error;
+    logger.error(error.message);
+    process.exit(1);
+  }
+
+  const result = await runCrawl(plan, { runId: opts.resume, resume: Boolean(opts.resume) });
+  if (result.status !== 'success') {
+    process.exitCode = 1;
+  }
+}
 
-    if (opts.multiple) {
-      // Scrape multiple locations
-      const locations = PORTUGUESE_LOCATIONS.slice(0, 5); // Top 5 locations
-      logger.info(`\nScraping ${locations.length} locations: ${locations.join(', ')}\n`);
+async function startDaemon(opts: DaemonCliOptions): Promise<void> {
+  setUpLogging(opts);
 
-      properties = await scraper.scrapeLocations(locations, opts.transactionType, {
-        maxPagesPerLocation: opts.maxPages,
-        limit: opts.limit,
-      });
+  let lockClient: RedisClient | null = null;
+  try {
+    const jobs = await loadSchedule(opts.schedule, opts.stateDir);
+    const shutdownTimeoutMs = parseDuration(opts.shutdownTimeout);
+    const metricsPort = opts.metricsPort === undefined ? undefined : toInteger(opts.metricsPort, '--metricsPort');
+
+    let lockStore: LockStore;
+    if (opts.lockStore === 'redis') {
+      lockClient = await openRedisClient();
+      lockStore = new RedisLockStore(lockClient);
+    } else if (opts.lockStore === 'file') {
+      lockStore = new FileLockStore(`${opts.stateDir}/locks`);
     } else {
-      // Single location scrape
-      properties = await scraper.scrapeLocation(
-        opts.location,
-        opts.transactionType,
-        {
-          maxPages: opts.maxPages,
-          limit: opts.limit,
-        }
-      );
+      throw new InvalidOptionsError(`Invalid lock store: ${opts.lockStore}. Use 'file' or 'redis'.`);
     }
 
-    logger.info("\n' + '=" + "=".repeat(60));
-    logger.info('Scraping complete!');
-    logger.info(`Total properties scraped: ${properties.length}`);
-    logger.info("=" + "=".repeat(60));
-
-    if (properties.length === 0) {
-      logger.info('\nNo properties were scraped. This might be due to:');
-      logger.info('  - DataDome bot protection blocking requests');
-      logger.info('  - Invalid location name');
-      logger.info('  - Network issues');
-      logger.info('  - No listings available for the search criteria');
-      process.exit(1);
-    }
+    const daemon = new CrawlDaemon({ jobs, stateDir: opts.stateDir, lockStore, shutdownTimeoutMs });
+    stopService = () => daemon.stop();
+    const metricsServer = metricsPort
+      ? await serveMetrics(metricsPort, '0.0.0.0', () => daemon.toPrometheus())
+      : undefined;
 
-    // Print sample of results
-    logger.info('\nSample properties:');
-    const sample = properties.slice(0, 3);
-    for (const prop of sample) {
-      formatProperty(prop);
+    try {
+      await daemon.run();
+    } finally {
+      metricsServer?.close();
     }
+  } catch (error) {
+    if (!(error instanceof InvalidOptionsError)) throw error;
+    logger.error(error.message);
+    process.exit(1);
+  } finally {
+    await lockClient?.quit();
+  }
+}
 
-    if (opts.dryRun) {
-      logger.info('\n[Dry run] Skipping Redis storage');
-      logger.info('\nFull results (JSON):');
-      logger.info('Data dump', properties));
-    } else {
-      // Store in Redis
-      logger.info('\nStoring properties in Redis...');
-      try {
-        await connectRedis(process.env.REDIS_URL);
-        await saveProperties(properties);
-        logger.info(`Successfully stored ${properties.length} properties in Redis`);
-      } catch (error) {
-        logger.error('Failed to store properties in Redis:', error);
-        logger.info('Results will be output to console instead:');
-        logger.info('Data dump', properties));
-      } finally {
-        await disconnectRedis();
-      }
+async function startWorker(opts: WorkerCliOptions): Promise<void> {
+  setUpLogging(opts);
+
+  let maxAttempts: number;
+  let retryDelayMs: number;
+  let boundaries: AdminBoundaries | null;
+  try {
+    maxAttempts = toInteger(opts.maxAttempts, '--maxAttempts');
+    retryDelayMs = parseDuration(opts.retryDelay);
+    boundaries = await AdminBoundaries.load(opts.boundaries);
+  } catch (error) {
+    logger.error((error as Error).message);
+    process.exit(1);
+  }
+
+  const proxyPool = opts.proxyFile ? ProxyPool.fromFile(opts.proxyFile) : ProxyPool.fromEnv();
+  if (proxyPool && proxyPool.size === 0) {
+    logger.error('Proxy list is empty');
+    process.exit(1);
+  }
+  const paceLimiter = await AdaptiveRateLimiter.load(opts.rateStateFile);
+  const scraper = new IdealistaScraper({
+    headless: opts.headless !== 'false',
+    proxyPool: proxyPool ?? undefined,
+    rotatePerLocation: (proxyPool?.size ?? 0) > 1,
+    rateLimiter: RateLimiter.fromEnv(),
+    paceLimiter,
+  });
+
+  // Storage uses the shared client; the queue blocks on a connection of its own
+  await connectRedis();
+  const queueClient = await openRedisClient();
+  const worker = new JobWorker({
+    queue: new RedisJobQueue(queueClient, opts.workerId),
+    scraper,
+    store: (properties) => storeListings(properties, boundaries),
+    load: getProperty,
+    maxAttempts,
+    retryDelayMs,
+  });
+
+  const running = (async () => {
+    try {
+      await scraper.initialize();
+      await worker.run();
+    } finally {
+      await scraper.close();
+      await paceLimiter
+        .save(opts.rateStateFile)
+        .catch((error) => logger.warn(`Could not save rate state to ${opts.rateStateFile}:`, error));
+      await queueClient.quit();
     }
+  })();
+  stopService = async () => {
+    await worker.stop();
+    await running.catch(() => undefined);
+  };
+  await running;
+}
+
+async function startRecheck(opts: RecheckCliOptions): Promise<void> {
+  setUpLogging(opts);
 
-    logger.info('\nDone!');
+  const recheckAfterDays = Number(opts.recheckAfterDays);
+  if (!(recheckAfterDays >= 0)) {
+    logger.error(`Invalid number of days: ${opts.recheckAfterDays}`);
+    process.exit(1);
+  }
+  let recheckBatchSize: number;
+  let maxBatches: number | undefined;
+  let detailDelayMs: number;
+  try {
+    recheckBatchSize = toInteger(opts.recheckBatchSize, '--recheckBatchSize');
+    maxBatches = opts.maxBatches === undefined ? undefined : toInteger(opts.maxBatches, '--maxBatches');
+    detailDelayMs = toInteger(opts.detailDelay, '--detailDelay', 0);
   } catch (error) {
-    logger.error('Scraper error:', error);
+    logger.error((error as Error).message);
+    process.exit(1);
+  }
+
+  const proxyPool = opts.replay ? null : opts.proxyFile ? ProxyPool.fromFile(opts.proxyFile) : ProxyPool.fromEnv();
+  if (proxyPool && proxyPool.size === 0) {
+    logger.error('Proxy list is empty');
     process.exit(1);
-  } finally {
-    await scraper.close();
   }
+  const paceLimiter = await AdaptiveRateLimiter.load(opts.rateStateFile);
+  const scraper = new IdealistaScraper({
+    headless: opts.headless !== 'false',
+    proxyPool: proxyPool ?? undefined,
+    replay: opts.replay ? await PageArchive.open(opts.replay) : undefined,
+    rateLimiter: RateLimiter.fromEnv(),
+    paceLimiter,
+  });
+  const ingestion = opts.ingest ? IngestionClient.fromEnv() : null;
+
+  await connectRedis();
+  const controller = new AbortController();
+  const running = (async () => {
+    try {
+      await scraper.initialize();
+      const report = await recheckStaleListings({
+        store: new RedisRecheckStore(),
+        checker: scraper,
+        recheckAfterDays,
+        recheckBatchSize,
+        maxBatches,
+        delayMs: detailDelayMs,
+        dryRun: opts.dryRun,
+        signal: controller.signal,
+        onChanges: ingestion
+          ? async (changed) => {
+              const result = await ingestion.ingest(createIngestionPayloadBatch(changed));
+              logger.info(`Ingested ${result.succeeded}/${result.total} status changes`);
+              for (const failure of result.results.filter((r) => !r.success)) {
+                logger.warn(`Failed to ingest ${failure.portalId}: ${failure.error}`);
+              }
+              if (result.failed > 0) process.exitCode = 1;
+            }
+          : undefined,
+      });
+      if (report.blocked) process.exitCode = 1;
+    } finally {
+      await scraper.close();
+      await paceLimiter
+        .save(opts.rateStateFile)
+        .catch((error) => logger.warn(`Could not save rate state to ${opts.rateStateFile}:`, error));
+      await disconnectRedis();
+    }
+  })();
+  stopService = async () => {
+    controller.abort();
+    await running.catch(() => undefined);
+  };
+  await running;
 }
 
-// Handle graceful shutdown
+// Handle graceful shutdown; the daemon first lets its running crawl finish the
+// current page, the queue worker its current job, a recheck its current listing
 process.on('SIGINT', async () => {
   logger.info('\nReceived SIGINT, shutting down...');
+  await stopService?.();
   await disconnectRedis();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   logger.info('\nReceived SIGTERM, shutting down...');
+  await stopService?.();
   await disconnectRedis();
   process.exit(0);
 });
 
-// Check for help flag
-if (process.argv.includes('--help') || process.argv.includes('-h')) {
+// Check for help flag (the subcommands have their own)
+if (
+  (process.argv.includes('--help') || process.argv.includes('-h')) &&
+  !['daemon', 'worker', 'recheck'].includes(process.argv[2])
+) {
   printHelp();
   process.exit(0);
 }
 
-main().catch((error) => {
+program.parseAsync().catch((error) => {
   logger.error('Fatal error:', error);
   process.exit(1);
 });
@@ -0,0 +1,222 @@
+/**
+ * Landomo Core Service ingestion client
+ *
+ * Sends IngestionPayload batches (see transformer.ts) to the Core Service API.
+ * Transient failures (5xx, 429, network errors) are retried with exponential
+ * backoff; each listing ends up with its own result in the returned report.
+ *
+ * Set environment variables:
+ *   LANDOMO_API_URL=https://core.landomo.com/api/v1
+ *   LANDOMO_API_KEY=your_api_key_here
+ */
+
+import { createLogger } from './logger';
+import type { IngestionPayload } from './transformer';
+import { delay as sleep } from './utils';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface IngestionClientOptions {
+  apiUrl: string;
+  apiKey: string;
+  batchSize?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface IngestionResult {
+  portalId: string;
+  success: boolean;
+  status?: number;
+  error?: string;
+}
+
+export interface IngestionReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  batches: number;
+  results: IngestionResult[];
+}
+
+/**
+ * Per-item result as returned by the Core Service bulk endpoint (if any)
+ */
+interface BulkIngestResponseItem {
+  portal_id?: string;
+  success?: boolean;
+  error?: string;
+}
+
+export class IngestionClient {
+  private logger = createLogger(this.constructor.name);
+  private options: Required<IngestionClientOptions>;
+
+  constructor(options: IngestionClientOptions) {
+    if (!options.apiUrl) {
+      throw new Error('LANDOMO_API_URL is required for API ingestion');
+    }
+    if (!options.apiKey) {
+      throw new Error('LANDOMO_API_KEY is required for API ingestion');
+    }
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Invalid ingestion batch size: ${options.batchSize}`);
+    }
+
+    this.options = {
+      apiUrl: options.apiUrl.replace(/\/+$/, ''),
+      apiKey: options.apiKey,
+      batchSize,
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryDelayMs: options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    };
+  }
+
+  /**
+   * Create a client from LANDOMO_API_URL / LANDOMO_API_KEY
+   */
+  static fromEnv(overrides: Partial<IngestionClientOptions> = {}): IngestionClient {
+    return new IngestionClient({
+      apiUrl: process.env.LANDOMO_API_URL || '',
+      apiKey: process.env.LANDOMO_API_KEY || '',
+      ...overrides,
+    });
+  }
+
+  /**
+   * Send all payloads in batches and report the outcome per listing
+   */
+  async ingest(payloads: IngestionPayload[]): Promise<IngestionReport> {
+    const results: IngestionResult[] = [];
+    let batches = 0;
+
+    for (let i = 0; i < payloads.length; i += this.options.batchSize) {
+      const batch = payloads.slice(i, i + this.options.batchSize);
+      batches++;
+      this.logger.info(
+        `Sending batch ${batches} (${batch.length} listings) to ${this.endpoint}`
+      );
+      results.push(...(await this.sendBatch(batch)));
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const report: IngestionReport = {
+      total: payloads.length,
+      succeeded,
+      failed: results.length - succeeded,
+      batches,
+      results,
+    };
+
+    this.logger.info(
+      `Ingestion complete: ${report.succeeded}/${report.total} succeeded in ${batches} batches`
+    );
+    return report;
+  }
+
+  private get endpoint(): string {
+    return `${this.options.apiUrl}/properties/bulk-ingest`;
+  }
+
+  /**
+   * POST a single batch, retrying on 5xx / 429 / network errors
+   */
+  private async sendBatch(batch: IngestionPayload[]): Promise<IngestionResult[]> {
+    let lastStatus: number | undefined;
+    let lastError = 'Unknown error';
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const backoff = this.options.retryDelayMs * 2 ** (attempt - 1);
+        this.logger.warn(
+          `Retrying batch in ${backoff}ms (attempt ${attempt}/${this.options.maxRetries})`
+        );
+        await sleep(backoff);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(this.endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.options.apiKey}`,
+          },
+          body: JSON.stringify({ properties: batch }),
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        });
+      } catch (error) {
+        lastStatus = undefined;
+        lastError = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Batch request failed: ${lastError}`);
+        continue;
+      }
+
+      lastStatus = response.status;
+
+      if (response.ok) {
+        return this.parseResults(batch, response);
+      }
+
+      lastError = `HTTP ${response.status}: ${await response.text().catch(() => '')}`.trim();
+
+      if (response.status !== 429 && response.status < 500) {
+        // Client errors (bad payload, auth) will not succeed on retry
+        this.logger.error(`Batch rejected: ${lastError}`);
+        break;
+      }
+
+      this.logger.warn(`Batch request failed: ${lastError}`);
+    }
+
+    return batch.map((payload) => ({
+      portalId: payload.portal_id,
+      success: false,
+      status: lastStatus,
+      error: lastError,
+    }));
+  }
+
+  /**
+   * Map the response to per-listing results
+   *
+   * If the Core Service returns a `results` array, it is matched by portal_id;
+   * otherwise every listing in a 2xx batch counts as accepted.
+   */
+  private async parseResults(
+    batch: IngestionPayload[],
+    response: Response
+  ): Promise<IngestionResult[]> {
+    let items: BulkIngestResponseItem[] = [];
+    try {
+      const body = (await response.json()) as { results?: BulkIngestResponseItem[] };
+      if (Array.isArray(body?.results)) {
+        items = body.results;
+      }
+    } catch {
+      // Empty or non-JSON body - treat the whole batch as accepted
+    }
+
+    const byPortalId = new Map(
+      items
+        .filter((item) => item.portal_id)
+        .map((item) => [item.portal_id as string, item])
+    );
+
+    return batch.map((payload) => {
+      const item = byPortalId.get(payload.portal_id);
+      return {
+        portalId: payload.portal_id,
+        success: item?.success ?? true,
+        status: response.status,
+        error: item?.error,
+      };
+    });
+  }
+}
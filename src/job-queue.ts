@@ -0,0 +1,473 @@
+/**
+ * Job queue mode: on-demand scrapes requested by other services through Redis
+ *
+ * Producers LPUSH a JSON job onto idealista:portugal:jobs:
+ *   { "id": "req-42", "type": "search", "location": "porto", "transactionType": "rent", "maxPages": 3 }
+ *   { "id": "req-43", "type": "details", "propertyCodes": ["33456789", "33456790"] }
+ *
+ * Redis layout:
+ *   idealista:portugal:jobs                      - List of pending jobs, consumed from the right
+ *   idealista:portugal:jobs:processing:{worker}  - List of the jobs a worker is running
+ *   idealista:portugal:jobs:delayed              - Sorted set of jobs waiting to be retried, scored by epoch ms
+ *   idealista:portugal:jobs:dead                 - List of jobs that failed every attempt (dead-letter queue)
+ *   idealista:portugal:jobs:result:{id}          - JSON JobResult, kept for a day
+ *   idealista:portugal:jobs:results              - Pub/sub channel every JobResult is published on
+ *
+ * A job is moved atomically (BLMOVE) from the queue to the worker's processing
+ * list and only removed from it once acknowledged, so the jobs of a worker that
+ * crashed go back on the queue when it restarts. Failed jobs are retried with
+ * exponential backoff up to `maxAttempts`, then dead-lettered.
+ */
+
+import { mergePropertyDetail, PropertyDetail } from './detail-parser';
+import { AdminBoundaries, enrichLocations } from './geo';
+import { resolveLocation } from './locations';
+import { RedisPriceHistoryStore, recordPriceHistory } from './price-history';
+import { KEY_PREFIX, RedisClient, saveProperties } from './redis';
+import { SearchFilters, validateSearchFilters } from './search-filters';
+import { validateProperties } from './validation';
+import { createLogger, runWithLogContext } from './logger';
+import type { Property } from './types';
+
+const logger = createLogger('job-queue');
+
+export const QUEUE_KEY = `${KEY_PREFIX}:jobs`;
+export const DELAYED_KEY = `${KEY_PREFIX}:jobs:delayed`;
+export const DEAD_LETTER_KEY = `${KEY_PREFIX}:jobs:dead`;
+export const RESULTS_CHANNEL = `${KEY_PREFIX}:jobs:results`;
+const RESULT_TTL_SECONDS = 24 * 60 * 60;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_POLL_MS = 5000;
+const DEFAULT_MAX_PAGES = 5;
+
+/**
+ * Re-scrape a search, e.g. "porto rent now"
+ */
+export interface SearchJob {
+  type: 'search';
+  location: string;
+  transactionType?: 'sale' | 'rent';
+  maxPages?: number;
+  limit?: number;
+  filters?: SearchFilters;
+}
+
+/**
+ * Refresh stored listings from their detail pages
+ */
+export interface DetailsJob {
+  type: 'details';
+  propertyCodes: string[];
+}
+
+export type ScrapeJob = (SearchJob | DetailsJob) & {
+  /** Chosen by the producer; results are published under it */
+  id: string;
+  /** Failed attempts so far, set by the worker */
+  attempts?: number;
+  lastError?: string;
+};
+
+export interface JobResult {
+  id: string;
+  type: ScrapeJob['type'];
+  status: 'done' | 'failed';
+  attempts: number;
+  finishedAt: string;
+  /** IDs of the listings stored */
+  propertyIds?: string[];
+  /** Listings that failed validation */
+  quarantined?: number;
+  /** Details jobs: codes whose detail page had no listing */
+  notFound?: string[];
+  /** Details jobs: codes with a detail page but no stored listing to refresh */
+  unknown?: string[];
+  error?: string;
+}
+
+/**
+ * Queue operations the worker needs; messages are kept as the raw JSON they were queued as
+ */
+export interface JobQueue {
+  enqueue(job: ScrapeJob): Promise<void>;
+  /** Wait up to `timeoutMs` for a job, moving it to this worker's processing list */
+  receive(timeoutMs: number): Promise<string | null>;
+  /** Done with a received job */
+  ack(raw: string): Promise<void>;
+  /** Take a received job off the processing list and queue `job` again at `at` (epoch ms) */
+  retry(raw: string, job: ScrapeJob, at: number): Promise<void>;
+  /** Take a received job off the processing list and park it in the dead-letter queue */
+  deadLetter(raw: string, entry: Record<string, unknown>): Promise<void>;
+  publish(result: JobResult): Promise<void>;
+  /** Queue the retries that are due, returning how many */
+  promoteDue(now: number): Promise<number>;
+  /** Queue again what a previous run of this worker left unacknowledged, returning how many */
+  recover(): Promise<number>;
+}
+
+// Moves due retries back onto the queue in one step, so two workers never both queue one
+const PROMOTE_SCRIPT = `
+local due = redis.call('zrangebyscore', KEYS[1], '-inf', ARGV[1])
+for _, job in ipairs(due) do
+  redis.call('zrem', KEYS[1], job)
+  redis.call('lpush', KEYS[2], job)
+end
+return #due`;
+
+/**
+ * The queue in Redis
+ *
+ * Takes a client of its own (see openRedisClient): BLMOVE blocks the
+ * connection while it waits.
+ */
+export class RedisJobQueue implements JobQueue {
+  private processingKey: string;
+
+  constructor(
+    private client: RedisClient,
+    workerId: string
+  ) {
+    this.processingKey = `${QUEUE_KEY}:processing:${workerId}`;
+  }
+
+  async enqueue(job: ScrapeJob): Promise<void> {
+    await this.client.lPush(QUEUE_KEY, JSON.stringify(job));
+  }
+
+  async receive(timeoutMs: number): Promise<string | null> {
+    return this.client.blMove(QUEUE_KEY, this.processingKey, 'RIGHT', 'LEFT', timeoutMs / 1000);
+  }
+
+  async ack(raw: string): Promise<void> {
+    await this.client.lRem(this.processingKey, 1, raw);
+  }
+
+  async retry(raw: string, job: ScrapeJob, at: number): Promise<void> {
+    await this.client
+      .multi()
+      .lRem(this.processingKey, 1, raw)
+      .zAdd(DELAYED_KEY, { score: at, value: JSON.stringify(job) })
+      .exec();
+  }
+
+  async deadLetter(raw: string, entry: Record<string, unknown>): Promise<void> {
+    await this.client.multi().lRem(this.processingKey, 1, raw).lPush(DEAD_LETTER_KEY, JSON.stringify(entry)).exec();
+  }
+
+  async publish(result: JobResult): Promise<void> {
+    const message = JSON.stringify(result);
+    await this.client
+      .multi()
+      .set(`${QUEUE_KEY}:result:${result.id}`, message, { EX: RESULT_TTL_SECONDS })
+      .publish(RESULTS_CHANNEL, message)
+      .exec();
+  }
+
+  async promoteDue(now: number): Promise<number> {
+    return (await this.client.eval(PROMOTE_SCRIPT, {
+      keys: [DELAYED_KEY, QUEUE_KEY],
+      arguments: [String(now)],
+    })) as number;
+  }
+
+  async recover(): Promise<number> {
+    let count = 0;
+    while (await this.client.lMove(this.processingKey, QUEUE_KEY, 'RIGHT', 'RIGHT')) {
+      count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * Keeps the queue in memory, e.g. for tests
+ */
+export class MemoryJobQueue implements JobQueue {
+  readonly pending: string[] = [];
+  readonly processing: string[] = [];
+  readonly delayed: Array<{ at: number; raw: string }> = [];
+  readonly dead: string[] = [];
+  readonly results: JobResult[] = [];
+
+  async enqueue(job: ScrapeJob): Promise<void> {
+    this.pending.unshift(JSON.stringify(job));
+  }
+
+  async receive(timeoutMs: number): Promise<string | null> {
+    const raw = this.pending.pop();
+    if (raw === undefined) {
+      await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+      return null;
+    }
+    this.processing.unshift(raw);
+    return raw;
+  }
+
+  async ack(raw: string): Promise<void> {
+    const index = this.processing.indexOf(raw);
+    if (index >= 0) this.processing.splice(index, 1);
+  }
+
+  async retry(raw: string, job: ScrapeJob, at: number): Promise<void> {
+    await this.ack(raw);
+    this.delayed.push({ at, raw: JSON.stringify(job) });
+  }
+
+  async deadLetter(raw: string, entry: Record<string, unknown>): Promise<void> {
+    await this.ack(raw);
+    this.dead.unshift(JSON.stringify(entry));
+  }
+
+  async publish(result: JobResult): Promise<void> {
+    this.results.push(result);
+  }
+
+  async promoteDue(now: number): Promise<number> {
+    const due = this.delayed.filter((entry) => entry.at <= now);
+    for (const entry of due) {
+      this.delayed.splice(this.delayed.indexOf(entry), 1);
+      this.pending.unshift(entry.raw);
+    }
+    return due.length;
+  }
+
+  async recover(): Promise<number> {
+    const count = this.processing.length;
+    this.pending.push(...this.processing.splice(0).reverse());
+    return count;
+  }
+}
+
+/**
+ * Parse and check a queued message; throws for messages that can never succeed
+ */
+export function parseJob(raw: string): ScrapeJob {
+  let job: ScrapeJob;
+  try {
+    job = JSON.parse(raw);
+  } catch {
+    throw new Error('Job is not valid JSON');
+  }
+  if (typeof job !== 'object' || job === null || typeof job.id !== 'string' || !job.id) {
+    throw new Error('Job has no id');
+  }
+
+  if (job.type === 'search') {
+    if (typeof job.location !== 'string') throw new Error('Search job has no location');
+    job.location = resolveLocation(job.location);
+    if (job.transactionType && job.transactionType !== 'sale' && job.transactionType !== 'rent') {
+      throw new Error(`Invalid transaction type: ${job.transactionType}`);
+    }
+    for (const name of ['maxPages', 'limit'] as const) {
+      const value = job[name];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Use a positive integer.`);
+      }
+    }
+    validateSearchFilters(job.filters ?? {}, job.transactionType ?? 'sale');
+  } else if (job.type === 'details') {
+    if (!Array.isArray(job.propertyCodes) || job.propertyCodes.length === 0) {
+      throw new Error('Details job has no propertyCodes');
+    }
+    job.propertyCodes = job.propertyCodes.map(String);
+  } else {
+    throw new Error(`Unknown job type: ${(job as { type?: unknown }).type}`);
+  }
+  return job;
+}
+
+/**
+ * What the worker needs from IdealistaScraper
+ */
+export interface QueueScraper {
+  scrapeLocation(
+    location: string,
+    transactionType: 'sale' | 'rent',
+    options: { maxPages?: number; limit?: number; filters?: SearchFilters }
+  ): Promise<Property[]>;
+  scrapeDetail(propertyCode: string): Promise<PropertyDetail | null>;
+}
+
+export interface JobWorkerOptions {
+  queue: JobQueue;
+  scraper: QueueScraper;
+  /** Stores scraped listings and returns the ones stored (see storeListings) */
+  store: (properties: Property[]) => Promise<Property[]>;
+  /** Looks up a stored listing, for details jobs */
+  load: (id: string) => Promise<Property | null>;
+  /** Attempts before a job is dead-lettered (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each one after (default: 1 minute) */
+  retryDelayMs?: number;
+  /** How long each wait for a job blocks (default: 5s) */
+  pollMs?: number;
+  now?: () => number;
+}
+
+type JobOutcome = Omit<JobResult, 'id' | 'type' | 'status' | 'attempts' | 'finishedAt'>;
+
+/**
+ * Consumes scrape jobs one at a time until stopped
+ */
+export class JobWorker {
+  private queue: JobQueue;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private pollMs: number;
+  private now: () => number;
+  private stopping = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(private options: JobWorkerOptions) {
+    this.queue = options.queue;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Process jobs until stop() is called
+   */
+  run(): Promise<void> {
+    this.loop ??= (async () => {
+      const recovered = await this.queue.recover();
+      if (recovered > 0) logger.warn(`Re-queued ${recovered} unacknowledged jobs from a previous run`);
+      logger.info('Waiting for jobs...');
+
+      while (!this.stopping) {
+        await this.processNext();
+      }
+      logger.info('Worker stopped');
+    })();
+    return this.loop;
+  }
+
+  /**
+   * Finish the current job, then stop
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.loop;
+  }
+
+  /**
+   * Wait for one job and process it; false if none arrived
+   */
+  async processNext(): Promise<boolean> {
+    const promoted = await this.queue.promoteDue(this.now());
+    if (promoted > 0) logger.info(`Re-queued ${promoted} jobs for retry`);
+
+    const raw = await this.queue.receive(this.pollMs);
+    if (raw === null) return false;
+    await this.handle(raw);
+    return true;
+  }
+
+  private async handle(raw: string): Promise<void> {
+    let job: ScrapeJob;
+    try {
+      job = parseJob(raw);
+    } catch (error) {
+      logger.error(`Dead-lettering invalid job: ${(error as Error).message}`, { job: raw.slice(0, 500) });
+      await this.queue.deadLetter(raw, { raw, error: (error as Error).message, failedAt: this.isoNow() });
+      return;
+    }
+
+    const attempts = (job.attempts ?? 0) + 1;
+    await runWithLogContext({ jobId: job.id }, async () => {
+      logger.info(`Running ${job.type} job ${job.id} (attempt ${attempts}/${this.maxAttempts})`);
+      try {
+        const outcome = await this.execute(job);
+        // Published before the ack: a crash in between runs the job again rather than losing it
+        await this.queue.publish({ id: job.id, type: job.type, status: 'done', attempts, finishedAt: this.isoNow(), ...outcome });
+        await this.queue.ack(raw);
+        logger.info(`Job ${job.id} done: ${outcome.propertyIds?.length ?? 0} listings stored`);
+      } catch (error) {
+        await this.fail(raw, job, attempts, error as Error);
+      }
+    });
+  }
+
+  private async fail(raw: string, job: ScrapeJob, attempts: number, error: Error): Promise<void> {
+    const failed: ScrapeJob = { ...job, attempts, lastError: error.message };
+
+    if (attempts < this.maxAttempts) {
+      const at = this.now() + this.retryDelayMs * 2 ** (attempts - 1);
+      logger.warn(`Job ${job.id} failed, retrying at ${new Date(at).toISOString()}:`, error);
+      await this.queue.retry(raw, failed, at);
+      return;
+    }
+
+    logger.error(`Job ${job.id} failed ${attempts} times, moving it to the dead-letter queue:`, error);
+    await this.queue.deadLetter(raw, { ...failed, failedAt: this.isoNow() });
+    await this.queue.publish({
+      id: job.id,
+      type: job.type,
+      status: 'failed',
+      attempts,
+      finishedAt: this.isoNow(),
+      error: error.message,
+    });
+  }
+
+  private async execute(job: ScrapeJob): Promise<JobOutcome> {
+    if (job.type === 'search') {
+      const properties = await this.options.scraper.scrapeLocation(job.location, job.transactionType ?? 'sale', {
+        maxPages: job.maxPages ?? DEFAULT_MAX_PAGES,
+        limit: job.limit,
+        filters: job.filters,
+      });
+      // Blocked or broken pages; an empty search is rare enough to be worth another attempt
+      if (properties.length === 0) throw new Error('No properties scraped');
+
+      const stored = await this.options.store(properties);
+      return { propertyIds: stored.map((p) => p.id), quarantined: properties.length - stored.length };
+    }
+
+    const refreshed: Property[] = [];
+    const notFound: string[] = [];
+    const unknown: string[] = [];
+    const scrapedAt = this.isoNow();
+
+    for (const code of job.propertyCodes) {
+      const detail = await this.options.scraper.scrapeDetail(code);
+      if (!detail) {
+        notFound.push(code);
+        continue;
+      }
+      const stored = await this.options.load(code);
+      if (stored) refreshed.push({ ...mergePropertyDetail(stored, detail), scrapedAt });
+      else unknown.push(code);
+    }
+
+    const stored = refreshed.length > 0 ? await this.options.store(refreshed) : [];
+    return {
+      propertyIds: stored.map((p) => p.id),
+      quarantined: refreshed.length - stored.length,
+      notFound,
+      unknown,
+    };
+  }
+
+  private isoNow(): string {
+    return new Date(this.now()).toISOString();
+  }
+}
+
+/**
+ * The CLI's pipeline for scraped listings: geo enrichment, validation, price
+ * history and Redis (requires connectRedis())
+ */
+export async function storeListings(properties: Property[], boundaries: AdminBoundaries | null): Promise<Property[]> {
+  const validation = validateProperties(enrichLocations(properties, boundaries));
+  for (const entry of validation.quarantined) {
+    logger.warn(`Quarantined ${entry.property.id}: ${entry.issues.map((issue) => issue.message).join('; ')}`);
+  }
+
+  const withHistory = await recordPriceHistory(validation.valid, new RedisPriceHistoryStore());
+  await saveProperties(withHistory);
+  return withHistory;
+}
@@ -0,0 +1,466 @@
+/**
+ * Portuguese location catalogue
+ *
+ * The administrative hierarchy idealista searches by, mapped to URL slugs:
+ *
+ *   district   - the 18 mainland districts plus Madeira and the Azores,
+ *                e.g. "faro-distrito"
+ *   concelho   - all 308 municipalities, e.g. "vila-nova-de-gaia"
+ *   freguesia  - every parish, from data/freguesias.json when it has been
+ *                built from the CAOP data (npm run boundaries), e.g.
+ *                "lisboa/arroios"; without it, only the 113 parishes of the
+ *                15 concelhos in FREGUESIA_SOURCES
+ *
+ * Slugs are derived from the official names (lowercased, accents stripped);
+ * the few concelho names used twice get a region suffix.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { UnknownLocationError } from './errors';
+
+/** Freguesia names by concelho slug, written by scripts/build-freguesias.ts */
+export const DEFAULT_FREGUESIAS_FILE = 'data/freguesias.json';
+
+export type LocationLevel = 'district' | 'concelho' | 'freguesia';
+
+export interface PortugueseLocation {
+  slug: string;
+  name: string;
+  level: LocationLevel;
+  /** Slug of the district (or autonomous region) the location belongs to */
+  district: string;
+  /** Slug of the concelho, for freguesias */
+  concelho?: string;
+}
+
+interface DistrictSource {
+  name: string;
+  slug?: string;
+  concelhos: string[];
+}
+
+// Mainland districts in CAOP code order (01 Aveiro .. 18 Viseu), then the autonomous regions
+const DISTRICT_SOURCES: DistrictSource[] = [
+  {
+    name: 'Aveiro',
+    concelhos: [
+      'Águeda', 'Albergaria-a-Velha', 'Anadia', 'Arouca', 'Aveiro', 'Castelo de Paiva', 'Espinho',
+      'Estarreja', 'Ílhavo', 'Mealhada', 'Murtosa', 'Oliveira de Azeméis', 'Oliveira do Bairro', 'Ovar',
+      'Santa Maria da Feira', 'São João da Madeira', 'Sever do Vouga', 'Vagos', 'Vale de Cambra',
+    ],
+  },
+  {
+    name: 'Beja',
+    concelhos: [
+      'Aljustrel', 'Almodôvar', 'Alvito', 'Barrancos', 'Beja', 'Castro Verde', 'Cuba',
+      'Ferreira do Alentejo', 'Mértola', 'Moura', 'Odemira', 'Ourique', 'Serpa', 'Vidigueira',
+    ],
+  },
+  {
+    name: 'Braga',
+    concelhos: [
+      'Amares', 'Barcelos', 'Braga', 'Cabeceiras de Basto', 'Celorico de Basto', 'Esposende', 'Fafe',
+      'Guimarães', 'Póvoa de Lanhoso', 'Terras de Bouro', 'Vieira do Minho', 'Vila Nova de Famalicão',
+      'Vila Verde', 'Vizela',
+    ],
+  },
+  {
+    name: 'Bragança',
+    concelhos: [
+      'Alfândega da Fé', 'Bragança', 'Carrazeda de Ansiães', 'Freixo de Espada à Cinta',
+      'Macedo de Cavaleiros', 'Miranda do Douro', 'Mirandela', 'Mogadouro', 'Torre de Moncorvo',
+      'Vila Flor', 'Vimioso', 'Vinhais',
+    ],
+  },
+  {
+    name: 'Castelo Branco',
+    concelhos: [
+      'Belmonte', 'Castelo Branco', 'Covilhã', 'Fundão', 'Idanha-a-Nova', 'Oleiros', 'Penamacor',
+      'Proença-a-Nova', 'Sertã', 'Vila de Rei', 'Vila Velha de Ródão',
+    ],
+  },
+  {
+    name: 'Coimbra',
+    concelhos: [
+      'Arganil', 'Cantanhede', 'Coimbra', 'Condeixa-a-Nova', 'Figueira da Foz', 'Góis', 'Lousã', 'Mira',
+      'Miranda do Corvo', 'Montemor-o-Velho', 'Oliveira do Hospital', 'Pampilhosa da Serra', 'Penacova',
+      'Penela', 'Soure', 'Tábua', 'Vila Nova de Poiares',
+    ],
+  },
+  {
+    name: 'Évora',
+    concelhos: [
+      'Alandroal', 'Arraiolos', 'Borba', 'Estremoz', 'Évora', 'Montemor-o-Novo', 'Mora', 'Mourão',
+      'Portel', 'Redondo', 'Reguengos de Monsaraz', 'Vendas Novas', 'Viana do Alentejo', 'Vila Viçosa',
+    ],
+  },
+  {
+    name: 'Faro',
+    concelhos: [
+      'Albufeira', 'Alcoutim', 'Aljezur', 'Castro Marim', 'Faro', 'Lagoa', 'Lagos', 'Loulé', 'Monchique',
+      'Olhão', 'Portimão', 'São Brás de Alportel', 'Silves', 'Tavira', 'Vila do Bispo',
+      'Vila Real de Santo António',
+    ],
+  },
+  {
+    name: 'Guarda',
+    concelhos: [
+      'Aguiar da Beira', 'Almeida', 'Celorico da Beira', 'Figueira de Castelo Rodrigo',
+      'Fornos de Algodres', 'Gouveia', 'Guarda', 'Manteigas', 'Mêda', 'Pinhel', 'Sabugal', 'Seia',
+      'Trancoso', 'Vila Nova de Foz Côa',
+    ],
+  },
+  {
+    name: 'Leiria',
+    concelhos: [
+      'Alcobaça', 'Alvaiázere', 'Ansião', 'Batalha', 'Bombarral', 'Caldas da Rainha',
+      'Castanheira de Pera', 'Figueiró dos Vinhos', 'Leiria', 'Marinha Grande', 'Nazaré', 'Óbidos',
+      'Pedrógão Grande', 'Peniche', 'Pombal', 'Porto de Mós',
+    ],
+  },
+  {
+    name: 'Lisboa',
+    concelhos: [
+      'Alenquer', 'Amadora', 'Arruda dos Vinhos', 'Azambuja', 'Cadaval', 'Cascais', 'Lisboa', 'Loures',
+      'Lourinhã', 'Mafra', 'Odivelas', 'Oeiras', 'Sintra', 'Sobral de Monte Agraço', 'Torres Vedras',
+      'Vila Franca de Xira',
+    ],
+  },
+  {
+    name: 'Portalegre',
+    concelhos: [
+      'Alter do Chão', 'Arronches', 'Avis', 'Campo Maior', 'Castelo de Vide', 'Crato', 'Elvas',
+      'Fronteira', 'Gavião', 'Marvão', 'Monforte', 'Nisa', 'Ponte de Sor', 'Portalegre', 'Sousel',
+    ],
+  },
+  {
+    name: 'Porto',
+    concelhos: [
+      'Amarante', 'Baião', 'Felgueiras', 'Gondomar', 'Lousada', 'Maia', 'Marco de Canaveses',
+      'Matosinhos', 'Paços de Ferreira', 'Paredes', 'Penafiel', 'Porto', 'Póvoa de Varzim', 'Santo Tirso',
+      'Trofa', 'Valongo', 'Vila do Conde', 'Vila Nova de Gaia',
+    ],
+  },
+  {
+    name: 'Santarém',
+    concelhos: [
+      'Abrantes', 'Alcanena', 'Almeirim', 'Alpiarça', 'Benavente', 'Cartaxo', 'Chamusca', 'Constância',
+      'Coruche', 'Entroncamento', 'Ferreira do Zêzere', 'Golegã', 'Mação', 'Ourém', 'Rio Maior',
+      'Salvaterra de Magos', 'Santarém', 'Sardoal', 'Tomar', 'Torres Novas', 'Vila Nova da Barquinha',
+    ],
+  },
+  {
+    name: 'Setúbal',
+    concelhos: [
+      'Alcácer do Sal', 'Alcochete', 'Almada', 'Barreiro', 'Grândola', 'Moita', 'Montijo', 'Palmela',
+      'Santiago do Cacém', 'Seixal', 'Sesimbra', 'Setúbal', 'Sines',
+    ],
+  },
+  {
+    name: 'Viana do Castelo',
+    concelhos: [
+      'Arcos de Valdevez', 'Caminha', 'Melgaço', 'Monção', 'Paredes de Coura', 'Ponte da Barca',
+      'Ponte de Lima', 'Valença', 'Viana do Castelo', 'Vila Nova de Cerveira',
+    ],
+  },
+  {
+    name: 'Vila Real',
+    concelhos: [
+      'Alijó', 'Boticas', 'Chaves', 'Mesão Frio', 'Mondim de Basto', 'Montalegre', 'Murça',
+      'Peso da Régua', 'Ribeira de Pena', 'Sabrosa', 'Santa Marta de Penaguião', 'Valpaços',
+      'Vila Pouca de Aguiar', 'Vila Real',
+    ],
+  },
+  {
+    name: 'Viseu',
+    concelhos: [
+      'Armamar', 'Carregal do Sal', 'Castro Daire', 'Cinfães', 'Lamego', 'Mangualde', 'Moimenta da Beira',
+      'Mortágua', 'Nelas', 'Oliveira de Frades', 'Penalva do Castelo', 'Penedono', 'Resende',
+      'Santa Comba Dão', 'São João da Pesqueira', 'São Pedro do Sul', 'Sátão', 'Sernancelhe', 'Tabuaço',
+      'Tarouca', 'Tondela', 'Vila Nova de Paiva', 'Viseu', 'Vouzela',
+    ],
+  },
+  {
+    name: 'Madeira',
+    slug: 'ilha-da-madeira',
+    concelhos: [
+      'Calheta', 'Câmara de Lobos', 'Funchal', 'Machico', 'Ponta do Sol', 'Porto Moniz', 'Porto Santo',
+      'Ribeira Brava', 'Santa Cruz', 'Santana', 'São Vicente',
+    ],
+  },
+  {
+    name: 'Açores',
+    slug: 'acores',
+    concelhos: [
+      'Angra do Heroísmo', 'Calheta', 'Corvo', 'Horta', 'Lagoa', 'Lajes das Flores', 'Lajes do Pico',
+      'Madalena', 'Nordeste', 'Ponta Delgada', 'Povoação', 'Ribeira Grande', 'Santa Cruz da Graciosa',
+      'Santa Cruz das Flores', 'São Roque do Pico', 'Velas', 'Vila da Praia da Vitória', 'Vila do Porto',
+      'Vila Franca do Campo',
+    ],
+  },
+];
+
+// Concelho names used in two regions, keyed by "{district slug}|{name}"
+const CONCELHO_SLUG_OVERRIDES: Record<string, string> = {
+  'faro-distrito|Lagoa': 'lagoa-algarve',
+  'acores|Lagoa': 'lagoa-acores',
+  'ilha-da-madeira|Calheta': 'calheta-madeira',
+  'acores|Calheta': 'calheta-acores',
+};
+
+// Freguesias (post-2013 reform) of the concelhos most likely to exceed the 60-page cap, used
+// until the full list is built from CAOP; concelhos missing here have no freguesia-level locations
+const FREGUESIA_SOURCES: Record<string, string[]> = {
+  lisboa: [
+    'Ajuda', 'Alcântara', 'Alvalade', 'Areeiro', 'Arroios', 'Avenidas Novas', 'Beato', 'Belém',
+    'Benfica', 'Campo de Ourique', 'Campolide', 'Carnide', 'Estrela', 'Lumiar', 'Marvila', 'Misericórdia',
+    'Olivais', 'Parque das Nações', 'Penha de França', 'Santa Clara', 'Santa Maria Maior',
+    'Santo António', 'São Domingos de Benfica', 'São Vicente',
+  ],
+  porto: [
+    'Aldoar, Foz do Douro e Nevogilde', 'Bonfim', 'Campanhã',
+    'Cedofeita, Santo Ildefonso, Sé, Miragaia, São Nicolau e Vitória', 'Lordelo do Ouro e Massarelos',
+    'Paranhos', 'Ramalde',
+  ],
+  'vila-nova-de-gaia': [
+    'Arcozelo', 'Avintes', 'Canelas', 'Canidelo', 'Grijó e Sermonde', 'Gulpilhares e Valadares',
+    'Madalena', 'Mafamude e Vilar do Paraíso', 'Oliveira do Douro', 'Pedroso e Seixezelo',
+    'Sandim, Olival, Lever e Crestuma', 'Santa Marinha e São Pedro da Afurada', 'São Félix da Marinha',
+    'Serzedo e Perosinho', 'Vilar de Andorinho',
+  ],
+  matosinhos: [
+    'Custóias, Leça do Balio e Guifões', 'Matosinhos e Leça da Palmeira',
+    'Perafita, Lavra e Santa Cruz do Bispo', 'São Mamede de Infesta e Senhora da Hora',
+  ],
+  cascais: ['Alcabideche', 'Carcavelos e Parede', 'Cascais e Estoril', 'São Domingos de Rana'],
+  oeiras: [
+    'Algés, Linda-a-Velha e Cruz Quebrada-Dafundo', 'Barcarena', 'Carnaxide e Queijas',
+    'Oeiras e São Julião da Barra, Paço de Arcos e Caxias', 'Porto Salvo',
+  ],
+  sintra: [
+    'Agualva e Mira-Sintra', 'Algueirão-Mem Martins', 'Almargem do Bispo, Pêro Pinheiro e Montelavar',
+    'Cacém e São Marcos', 'Casal de Cambra', 'Colares', 'Massamá e Monte Abraão', 'Queluz e Belas',
+    'Rio de Mouro', 'São João das Lampas e Terrugem',
+    'Sintra (Santa Maria e São Miguel, São Martinho e São Pedro de Penaferrim)',
+  ],
+  almada: [
+    'Almada, Cova da Piedade, Pragal e Cacilhas', 'Caparica e Trafaria', 'Charneca de Caparica e Sobreda',
+    'Costa da Caparica', 'Laranjeiro e Feijó',
+  ],
+  seixal: ['Amora', 'Corroios', 'Fernão Ferro', 'Seixal, Arrentela e Aldeia de Paio Pires'],
+  albufeira: ['Albufeira e Olhos de Água', 'Ferreiras', 'Guia', 'Paderne'],
+  loule: [
+    'Almancil', 'Alte', 'Ameixial', 'Boliqueime', 'Quarteira', 'Querença, Tôr e Benafim', 'Salir',
+    'São Clemente', 'São Sebastião',
+  ],
+  faro: ['Conceição e Estoi', 'Faro (Sé e São Pedro)', 'Montenegro', 'Santa Bárbara de Nexe'],
+  lagos: ['Bensafrim e Barão de São João', 'Luz', 'Odiáxere', 'São Gonçalo de Lagos'],
+  portimao: ['Alvor', 'Mexilhoeira Grande', 'Portimão'],
+  funchal: [
+    'Funchal (Santa Luzia)', 'Funchal (Santa Maria Maior)', 'Funchal (São Pedro)', 'Funchal (Sé)',
+    'Imaculado Coração de Maria', 'Monte', 'Santo António', 'São Gonçalo', 'São Martinho', 'São Roque',
+  ],
+};
+
+// Locations scraped by --multiple
+export const POPULAR_LOCATIONS = [
+  'lisboa',
+  'porto',
+  'faro',
+  'braga',
+  'coimbra',
+  'funchal',
+  'setubal',
+  'aveiro',
+  'evora',
+  'leiria',
+  'cascais',
+  'sintra',
+  'matosinhos',
+  'almada',
+  'portimao',
+];
+
+/**
+ * URL slug for a place name: lowercase ASCII words joined by dashes
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Freguesias of every concelho from FREGUESIAS_FILE (default: data/freguesias.json)
+ * when the file exists, otherwise the bundled FREGUESIA_SOURCES
+ */
+function freguesiaSources(): Record<string, string[]> {
+  const path = process.env.FREGUESIAS_FILE || DEFAULT_FREGUESIAS_FILE;
+  if (!existsSync(path)) return FREGUESIA_SOURCES;
+  return JSON.parse(readFileSync(path, 'utf-8')) as Record<string, string[]>;
+}
+
+function buildCatalogue(): Map<string, PortugueseLocation> {
+  const freguesias = freguesiaSources();
+  const catalogue = new Map<string, PortugueseLocation>();
+  const add = (location: PortugueseLocation) => {
+    if (catalogue.has(location.slug)) {
+      throw new Error(`Duplicate location slug "${location.slug}"`);
+    }
+    catalogue.set(location.slug, location);
+  };
+
+  for (const source of DISTRICT_SOURCES) {
+    const district = source.slug ?? `${slugify(source.name)}-distrito`;
+    add({ slug: district, name: source.name, level: 'district', district });
+
+    for (const name of source.concelhos) {
+      const concelho = CONCELHO_SLUG_OVERRIDES[`${district}|${name}`] ?? slugify(name);
+      add({ slug: concelho, name, level: 'concelho', district });
+
+      for (const freguesia of freguesias[concelho] ?? []) {
+        add({
+          slug: `${concelho}/${slugify(freguesia)}`,
+          name: freguesia,
+          level: 'freguesia',
+          district,
+          concelho,
+        });
+      }
+    }
+  }
+
+  return catalogue;
+}
+
+const CATALOGUE = buildCatalogue();
+
+/**
+ * Every location in the catalogue, optionally of one level
+ */
+export function listLocations(level?: LocationLevel): PortugueseLocation[] {
+  const locations = [...CATALOGUE.values()];
+  return level ? locations.filter((location) => location.level === level) : locations;
+}
+
+export function getLocation(slug: string): PortugueseLocation | undefined {
+  return CATALOGUE.get(slug);
+}
+
+/**
+ * Catalogue locations whose name matches (ignoring case and accents),
+ * optionally only those below a given district or concelho
+ */
+export function findLocations(name: string, level?: LocationLevel, parent?: string): PortugueseLocation[] {
+  const key = slugify(name);
+  if (!key) return [];
+
+  return listLocations(level).filter(
+    (location) =>
+      slugify(location.name) === key &&
+      (!parent || location.district === parent || location.concelho === parent)
+  );
+}
+
+/**
+ * District slug for a CAOP administrative code (DTMNFR/DICOFRE): the first two
+ * digits are the district (01-18), Madeira's islands are 31-32 and the Azores' 41-49
+ */
+export function districtForAdminCode(code: string): string | undefined {
+  const prefix = parseInt(code.slice(0, 2), 10);
+  if (prefix >= 1 && prefix <= DISTRICT_SOURCES.length - 2) {
+    const source = DISTRICT_SOURCES[prefix - 1];
+    return source.slug ?? `${slugify(source.name)}-distrito`;
+  }
+  if (prefix >= 31 && prefix <= 32) return 'ilha-da-madeira';
+  if (prefix >= 41 && prefix <= 49) return 'acores';
+  return undefined;
+}
+
+/**
+ * Slugs of the locations directly below a location: concelhos of a district,
+ * freguesias of a concelho (empty when none are catalogued)
+ */
+export function childLocations(slug: string): string[] {
+  const parent = CATALOGUE.get(slug);
+  if (!parent || parent.level === 'freguesia') return [];
+
+  return listLocations(parent.level === 'district' ? 'concelho' : 'freguesia')
+    .filter((location) =>
+      parent.level === 'district' ? location.district === slug : location.concelho === slug
+    )
+    .map((location) => location.slug);
+}
+
+/**
+ * Concelho slugs of a district (given by slug or name), or of the whole country
+ */
+export function concelhosOf(district?: string): string[] {
+  if (!district) return listLocations('concelho').map((location) => location.slug);
+
+  const slug = resolveLocation(district, 'district');
+  return childLocations(slug);
+}
+
+/**
+ * Slug for a location given as a slug or a name ("Vila Nova de Gaia", "evora")
+ *
+ * Throws UnknownLocationError with the closest matches when nothing fits, so
+ * typos fail before scraping instead of returning zero results.
+ */
+export function resolveLocation(input: string, level?: LocationLevel): string {
+  const candidates = listLocations(level);
+  const trimmed = input.trim().toLowerCase();
+  const key = slugify(input);
+
+  const match =
+    candidates.find((location) => location.slug === trimmed) ??
+    candidates.find((location) => location.slug === key) ??
+    // District names: "faro" means faro-distrito when a district is asked for
+    (level === 'district' ? candidates.find((location) => slugify(location.name) === key) : undefined);
+  if (match) return match.slug;
+
+  throw new UnknownLocationError(input, suggestLocations(input, level));
+}
+
+/**
+ * Closest catalogue slugs to a misspelt location
+ */
+export function suggestLocations(input: string, level?: LocationLevel, max = 3): string[] {
+  const key = slugify(input);
+  if (!key) return [];
+
+  return listLocations(level)
+    .map((location) => {
+      const names = [location.slug, slugify(location.name)];
+      return { slug: location.slug, distance: Math.min(...names.map((name) => editDistance(key, name))) };
+    })
+    .filter(({ distance }) => distance <= Math.max(2, Math.floor(key.length / 3)))
+    .sort((a, b) => a.distance - b.distance || a.slug.localeCompare(b.slug))
+    .slice(0, max)
+    .map(({ slug }) => slug);
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
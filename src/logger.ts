@@ -1,32 +1,149 @@
 /**
- * Simple logger utility for scraper
- * Replaces @shared/logger dependency
+ * Structured logger for the scraper, built on pino
+ *
+ * Every line carries the module, any context bound with `child()` (location,
+ * page, proxy, propertyCode...) and the context of the run it belongs to (run
+ * ID, daemon job; see runWithLogContext), so a log pipeline can follow a
+ * single crawl or location. Output is one JSON object per line on
+ * stdout, or human-readable with the pretty format for local use.
+ *
+ * Call signature is `(message, ...args)`: Error arguments are logged as `err`,
+ * plain objects are merged in as fields and anything else is formatted into
+ * the message.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import pino from 'pino';
+import pretty from 'pino-pretty';
+import { format } from 'util';
+
+export const LOG_FORMATS = ['json', 'pretty'] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export type LogContext = Record<string, unknown>;
+
 export interface Logger {
   info: (message: string, ...args: any[]) => void;
   warn: (message: string, ...args: any[]) => void;
   error: (message: string, ...args: any[]) => void;
   debug: (message: string, ...args: any[]) => void;
+  /** Logger that adds these fields to every line */
+  child: (context: LogContext) => Logger;
 }
 
-export function createLogger(module: string): Logger {
-  const prefix = `[${module}]`;
+export interface LoggingOptions {
+  /** Output format (default: LOG_FORMAT, else json) */
+  format?: LogFormat;
+  /** Minimum level (default: LOG_LEVEL, else debug with DEBUG=true, else info) */
+  level?: string;
+  /** Where lines are written (default: stdout) */
+  destination?: NodeJS.WritableStream;
+}
 
-  return {
-    info: (message: string, ...args: any[]) => {
-      console.log(`${prefix} ${message}`, ...args);
-    },
-    warn: (message: string, ...args: any[]) => {
-      console.warn(`${prefix} ${message}`, ...args);
-    },
-    error: (message: string, ...args: any[]) => {
-      console.error(`${prefix} ${message}`, ...args);
+type Level = 'info' | 'warn' | 'error' | 'debug';
+
+let root: pino.Logger | null = null;
+const runContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Configure the process-wide logger; loggers created earlier pick it up
+ */
+export function configureLogging(options: LoggingOptions = {}): void {
+  const logFormat = options.format ?? (process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json');
+  const level = options.level ?? process.env.LOG_LEVEL ?? (process.env.DEBUG === 'true' ? 'debug' : 'info');
+
+  const destination =
+    logFormat === 'pretty'
+      ? pretty({
+          sync: true,
+          destination: options.destination ?? 1,
+          colorize: !options.destination && Boolean(process.stdout.isTTY),
+          translateTime: 'SYS:HH:MM:ss',
+          ignore: 'pid,hostname,module,runId,job',
+          messageFormat: (log, messageKey) =>
+            `${log.job ? `[${log.job}] ` : ''}[${log.module}] ${log[messageKey]}`,
+        })
+      : (options.destination ?? pino.destination({ dest: 1, sync: true }));
+
+  root = pino(
+    {
+      level,
+      base: {},
+      mixin: () => runContext.getStore() ?? {},
+      timestamp: pino.stdTimeFunctions.isoTime,
+      formatters: { level: (label) => ({ level: label }) },
     },
-    debug: (message: string, ...args: any[]) => {
-      if (process.env.DEBUG === 'true') {
-        console.debug(`${prefix} ${message}`, ...args);
-      }
+    destination
+  );
+}
+
+function rootLogger(): pino.Logger {
+  if (!root) configureLogging();
+  return root!;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Split call arguments into pino fields and the message text
+ */
+function toEntry(message: string, args: any[]): [LogContext, string] {
+  const fields: LogContext = {};
+  const rest: unknown[] = [];
+
+  for (const arg of args) {
+    if (arg instanceof Error) fields.err = arg;
+    else if (isPlainObject(arg)) Object.assign(fields, arg);
+    else rest.push(arg);
+  }
+
+  let text = format(String(message).trim(), ...rest);
+  if (fields.err) text = text.replace(/:$/, '');
+  return [fields, text];
+}
+
+function wrap(context: LogContext): Logger {
+  // Bound lazily so module-level loggers follow configureLogging()
+  let bound: pino.Logger | null = null;
+  let boundRoot: pino.Logger | null = null;
+
+  const target = (): pino.Logger => {
+    const current = rootLogger();
+    if (boundRoot !== current) {
+      bound = current.child(context);
+      boundRoot = current;
     }
+    return bound!;
   };
+
+  const log =
+    (level: Level) =>
+    (message: string, ...args: any[]): void => {
+      const logger = target();
+      if (!logger.isLevelEnabled(level)) return;
+      const [fields, text] = toEntry(message, args);
+      logger[level](fields, text);
+    };
+
+  return {
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    debug: log('debug'),
+    child: (more: LogContext) => wrap({ ...context, ...more }),
+  };
+}
+
+/**
+ * Run `fn` with fields (run ID, job name) added to every line it logs, including
+ * from module-level loggers and anything it awaits
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return runContext.run({ ...runContext.getStore(), ...context }, fn);
+}
+
+export function createLogger(module: string): Logger {
+  return wrap({ module });
 }
@@ -0,0 +1,269 @@
+/**
+ * Run metrics: pages fetched, blocked and failed, parse failures, properties
+ * per location, page latency and bytes downloaded
+ *
+ * One collector is shared by every scraper of a run. At the end of the run it
+ * is written as a JSON summary and, optionally, in the Prometheus text format,
+ * either to a textfile-collector file or served on `/metrics`, so scheduled
+ * runs can be alerted on (no recent success, block rate, zero properties).
+ */
+
+import { createServer, Server } from 'http';
+import { createLogger } from './logger';
+import { writeAtomic } from './utils';
+
+const logger = createLogger('metrics');
+
+export const DEFAULT_SUMMARY_FILE = 'run-summary.json';
+
+export type PageKind = 'search' | 'detail';
+/** `interrupted`: stopped by a shutdown signal, resumable from its checkpoint */
+export type RunStatus = 'running' | 'success' | 'failed' | 'interrupted';
+
+export interface PageStats {
+  fetched: number;
+  blocked: number;
+  failed: number;
+  parseFailures: number;
+}
+
+export interface RunSummary {
+  runId?: string;
+  /** Constant labels of the run, e.g. the daemon job */
+  labels?: Record<string, string>;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs: number;
+  pages: PageStats & { byKind: Record<PageKind, PageStats> };
+  /** Blocked pages by DataDome outcome (challenge, hard_block) */
+  blocks: Record<string, number>;
+  avgPageLatencyMs: number;
+  bytesDownloaded: number;
+  properties: {
+    /** Listings parsed from search pages, per location */
+    byLocation: Record<string, number>;
+    /** Listings at each stage of the run: scraped, duplicates, quarantined, stored */
+    counts: Record<string, number>;
+  };
+}
+
+function emptyStats(): PageStats {
+  return { fetched: 0, blocked: 0, failed: 0, parseFailures: 0 };
+}
+
+/**
+ * Page kind from its URL: listing detail pages live under /imovel/
+ */
+export function pageKind(url: string): PageKind {
+  return /\/imovel\//.test(url) ? 'detail' : 'search';
+}
+
+export class ScrapeMetrics {
+  private startedAt: number;
+  private finishedAt?: number;
+  private status: RunStatus = 'running';
+  private pages: Record<PageKind, PageStats> = { search: emptyStats(), detail: emptyStats() };
+  private blocks = new Map<string, number>();
+  private latencySumMs = 0;
+  private bytes = 0;
+  private byLocation = new Map<string, number>();
+  private counts = new Map<string, number>();
+
+  /**
+   * `labels` are added to every Prometheus sample, so runs of different
+   * scheduled jobs can share a textfile directory or scrape target
+   */
+  constructor(
+    readonly runId?: string,
+    private now: () => number = Date.now,
+    readonly labels: Record<string, string> = {}
+  ) {
+    this.startedAt = now();
+  }
+
+  /**
+   * A page loaded and passed the anti-bot checks
+   */
+  recordPage(kind: PageKind, latencyMs: number, bytes: number): void {
+    this.pages[kind].fetched++;
+    this.latencySumMs += latencyMs;
+    this.bytes += bytes;
+  }
+
+  recordBlocked(kind: PageKind, outcome: string): void {
+    this.pages[kind].blocked++;
+    this.blocks.set(outcome, (this.blocks.get(outcome) ?? 0) + 1);
+  }
+
+  /**
+   * A page that failed to load (timeout, network error)
+   */
+  recordFailure(kind: PageKind): void {
+    this.pages[kind].failed++;
+  }
+
+  /**
+   * A page that loaded but had no usable __NEXT_DATA__
+   */
+  recordParseFailure(kind: PageKind): void {
+    this.pages[kind].parseFailures++;
+  }
+
+  recordProperties(location: string, count: number): void {
+    this.byLocation.set(location, (this.byLocation.get(location) ?? 0) + count);
+  }
+
+  /**
+   * Number of listings at a stage of the run (scraped, duplicates, quarantined, stored)
+   */
+  setCount(name: string, value: number): void {
+    this.counts.set(name, value);
+  }
+
+  finish(status: Exclude<RunStatus, 'running'>): void {
+    this.status = status;
+    this.finishedAt = this.now();
+  }
+
+  summary(): RunSummary {
+    const { search, detail } = this.pages;
+    const total = (key: keyof PageStats) => search[key] + detail[key];
+    const fetched = total('fetched');
+
+    return {
+      runId: this.runId,
+      labels: Object.keys(this.labels).length > 0 ? { ...this.labels } : undefined,
+      status: this.status,
+      startedAt: new Date(this.startedAt).toISOString(),
+      finishedAt: this.finishedAt ? new Date(this.finishedAt).toISOString() : undefined,
+      durationMs: (this.finishedAt ?? this.now()) - this.startedAt,
+      pages: {
+        fetched,
+        blocked: total('blocked'),
+        failed: total('failed'),
+        parseFailures: total('parseFailures'),
+        byKind: { search: { ...search }, detail: { ...detail } },
+      },
+      blocks: Object.fromEntries(this.blocks),
+      avgPageLatencyMs: fetched > 0 ? Math.round(this.latencySumMs / fetched) : 0,
+      bytesDownloaded: this.bytes,
+      properties: {
+        byLocation: Object.fromEntries(this.byLocation),
+        counts: Object.fromEntries(this.counts),
+      },
+    };
+  }
+
+  /**
+   * Metrics in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: Array<[Record<string, string>, number]>) => {
+      lines.push(`# HELP idealista_${name} ${help}`, `# TYPE idealista_${name} ${type}`);
+      for (const [labels, value] of samples) {
+        lines.push(`idealista_${name}${formatLabels({ ...this.labels, ...labels })} ${value}`);
+      }
+    };
+    const byKind = (key: keyof PageStats): Array<[Record<string, string>, number]> =>
+      (Object.keys(this.pages) as PageKind[]).map((kind) => [{ kind }, this.pages[kind][key]]);
+
+    const summary = this.summary();
+    metric('pages_fetched_total', 'counter', 'Pages loaded successfully', byKind('fetched'));
+    metric('pages_blocked_total', 'counter', 'Pages blocked by anti-bot protection', byKind('blocked'));
+    metric('pages_failed_total', 'counter', 'Pages that failed to load', byKind('failed'));
+    metric('parse_failures_total', 'counter', 'Pages without usable __NEXT_DATA__', byKind('parseFailures'));
+    metric(
+      'blocks_total',
+      'counter',
+      'Blocked pages by anti-bot outcome',
+      [...this.blocks].map(([outcome, count]) => [{ outcome }, count])
+    );
+    metric('page_latency_seconds', 'summary', 'Page load latency', []);
+    lines.push(
+      `idealista_page_latency_seconds_sum${formatLabels(this.labels)} ${this.latencySumMs / 1000}`,
+      `idealista_page_latency_seconds_count${formatLabels(this.labels)} ${summary.pages.fetched}`
+    );
+    metric('downloaded_bytes_total', 'counter', 'Page HTML downloaded', [[{}, this.bytes]]);
+    metric(
+      'location_properties_total',
+      'counter',
+      'Listings parsed from search pages per location',
+      [...this.byLocation].map(([location, count]) => [{ location }, count])
+    );
+    metric(
+      'run_properties',
+      'gauge',
+      'Listings at each stage of the run',
+      [...this.counts].map(([stage, count]) => [{ stage }, count])
+    );
+    metric('run_duration_seconds', 'gauge', 'Run duration', [[{}, summary.durationMs / 1000]]);
+    metric('run_success', 'gauge', '1 if the run finished successfully', [
+      [{}, this.status === 'success' ? 1 : 0],
+    ]);
+    metric('run_timestamp_seconds', 'gauge', 'When the run started', [[{}, Math.floor(this.startedAt / 1000)]]);
+    if (this.status === 'success') {
+      metric('run_last_success_timestamp_seconds', 'gauge', 'When the run last finished successfully', [
+        [{}, Math.floor(this.finishedAt! / 1000)],
+      ]);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Write the run summary as JSON
+   */
+  async writeSummary(path: string): Promise<void> {
+    await writeAtomic(path, `${JSON.stringify(this.summary(), null, 2)}\n`);
+    logger.info(`Wrote run summary to ${path}`);
+  }
+
+  /**
+   * Write metrics for node_exporter's textfile collector (a `.prom` file in its directory)
+   */
+  async writeTextfile(path: string): Promise<void> {
+    await writeAtomic(path, this.toPrometheus());
+    logger.info(`Wrote Prometheus metrics to ${path}`);
+  }
+
+  /**
+   * Serve the metrics on http://{host}:{port}/metrics
+   */
+  serve(port: number, host = '0.0.0.0'): Promise<Server> {
+    return serveMetrics(port, host, () => this.toPrometheus());
+  }
+}
+
+/**
+ * Serve Prometheus text from `render` on http://{host}:{port}/metrics
+ */
+export async function serveMetrics(port: number, host: string, render: () => string): Promise<Server> {
+  const server = createServer((request, response) => {
+    if (request.method === 'GET' && request.url?.split('?')[0] === '/metrics') {
+      response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      response.end(render());
+    } else {
+      response.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+  logger.info(`Serving metrics on http://${host}:${port}/metrics`);
+  return server;
+}
+
+/**
+ * Prometheus label set, e.g. `{kind="search"}`
+ */
+export function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
@@ -0,0 +1,150 @@
+/**
+ * Portugal-specific listing attributes
+ *
+ * Extracts what idealista only exposes as codes or free text:
+ *
+ *   typology            - T0..T5 and T6+ for flats, V0..V5 and V6+ for moradias
+ *                         (the number is the bedroom count)
+ *   energy certificate  - class A+ to F, "exempt" (isento) or "pending"
+ *                         (em trâmite / em curso)
+ *   condition           - new, good or needs_renovation
+ *
+ * Structured fields (detailedType, status, energy certification type) are
+ * preferred; titles, labels and descriptions are the fallback.
+ */
+
+import type { IdealistaPropertyItem } from './parser';
+
+export type EnergyCertificate = 'A+' | 'A' | 'B' | 'B-' | 'C' | 'D' | 'E' | 'F' | 'exempt' | 'pending';
+export type PropertyCondition = 'new' | 'good' | 'needs_renovation';
+
+export interface ListingAttributes {
+  typology?: string;
+  bedrooms?: number;
+  energyRating?: EnergyCertificate;
+  condition?: PropertyCondition;
+}
+
+const ENERGY_CLASSES = ['A+', 'A', 'B', 'B-', 'C', 'D', 'E', 'F'];
+
+// Typology codes 6 and above are grouped, like idealista's own filters
+const MAX_TYPOLOGY = 6;
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Typology code ("T2", "V4", "T6+") and bedroom count from text such as "Apartamento T2"
+ */
+export function parseTypology(text: string | undefined): { typology: string; bedrooms: number } | undefined {
+  const match = text?.match(/\b([TV])\s?(\d{1,2})(\s?\+)?(?![\d.,])/i);
+  if (!match) return undefined;
+
+  const bedrooms = parseInt(match[2], 10);
+  const prefix = match[1].toUpperCase();
+  const typology = bedrooms >= MAX_TYPOLOGY ? `${prefix}${MAX_TYPOLOGY}+` : `${prefix}${bedrooms}`;
+  return { typology, bedrooms };
+}
+
+/**
+ * Typology code for a bedroom count; moradias use the V prefix
+ */
+export function typologyFor(bedrooms: number, isHouse = false): string {
+  const prefix = isHouse ? 'V' : 'T';
+  return bedrooms >= MAX_TYPOLOGY ? `${prefix}${MAX_TYPOLOGY}+` : `${prefix}${bedrooms}`;
+}
+
+/**
+ * Normalise an energy certificate value: idealista codes ("a_plus", "b_minus",
+ * "exempt", "inProcess"), letters ("A+", "b-") or Portuguese ("isento", "em trâmite")
+ */
+export function parseEnergyCertificate(value: string | undefined): EnergyCertificate | undefined {
+  if (!value) return undefined;
+  const text = normalizeText(value).trim();
+
+  if (/^(exempt|isento|isenta)/.test(text)) return 'exempt';
+  if (/^(inprocess|in_process|pending|em tramite|em curso|em processo)/.test(text)) return 'pending';
+
+  const cleaned = text.toUpperCase().replace(/_PLUS$/, '+').replace(/_MINUS$/, '-').replace(/\s+/g, '');
+  return ENERGY_CLASSES.includes(cleaned) ? (cleaned as EnergyCertificate) : undefined;
+}
+
+/**
+ * Energy certificate mentioned in free text, e.g. "Certificado energético: B-"
+ */
+export function findEnergyCertificate(text: string | undefined): EnergyCertificate | undefined {
+  if (!text) return undefined;
+  const match = normalizeText(text).match(
+    /(?:certificado|certificacao|classe|classificacao|eficiencia)\s+energetic[oa]\s*[:-]?\s*(?:classe\s*)?(a\s?\+|b\s?-|[a-f](?![a-z])|isent[oa]|em tramite|em curso)/
+  );
+  return match ? parseEnergyCertificate(match[1]) : undefined;
+}
+
+/**
+ * Condition from idealista's status code ("good", "renew", "newdevelopment")
+ */
+export function parseConditionCode(status: string | undefined): PropertyCondition | undefined {
+  const code = (status || '').toLowerCase().replace(/[^a-z]/g, '');
+  if (code === 'newdevelopment' || code === 'new') return 'new';
+  if (code === 'good') return 'good';
+  if (code === 'renew' || code === 'torenew' || code === 'needsrenovation') return 'needs_renovation';
+  return undefined;
+}
+
+/**
+ * Condition mentioned in free text ("para recuperar", "como novo", "em bom estado")
+ */
+export function findCondition(text: string | undefined): PropertyCondition | undefined {
+  if (!text) return undefined;
+  const normalized = normalizeText(text);
+
+  if (/\b(para (recuperar|remodelar|reabilitar|restaurar|renovar)|necessita de obras|precisa de obras|em ruinas)\b/.test(normalized)) {
+    return 'needs_renovation';
+  }
+  if (/\b(obra nova|nova construcao|em construcao|novo empreendimento|a estrear|estrear)\b/.test(normalized)) {
+    return 'new';
+  }
+  if (/\b(bom estado|como novo|remodelad[oa]|renovad[oa]|recuperad[oa])\b/.test(normalized)) {
+    return 'good';
+  }
+  return undefined;
+}
+
+/**
+ * Typology, energy certificate and condition of a search-results item
+ */
+export function extractListingAttributes(item: IdealistaPropertyItem): ListingAttributes {
+  const labels = (item.labels || []).map((label) => label.text).filter(Boolean).join('. ');
+  const texts = [item.suggestedTexts?.title, item.suggestedTexts?.subtitle, labels, item.description];
+
+  const isHouse = /chalet|moradia|house|villa/i.test(
+    `${item.propertyType} ${item.detailedType?.typology} ${item.detailedType?.subTypology}`
+  );
+  const fromText = texts.map(parseTypology).find(Boolean);
+  const bedrooms = item.rooms ?? fromText?.bedrooms;
+  const typology =
+    fromText && (fromText.bedrooms === bedrooms || item.rooms === undefined)
+      ? fromText.typology
+      : bedrooms !== undefined && isResidential(item)
+        ? typologyFor(bedrooms, isHouse)
+        : undefined;
+
+  return {
+    typology,
+    bedrooms,
+    energyRating: texts.map(findEnergyCertificate).find(Boolean),
+    condition:
+      (item.newDevelopment ? 'new' : undefined) ??
+      parseConditionCode(item.status) ??
+      texts.map(findCondition).find(Boolean),
+  };
+}
+
+function isResidential(item: IdealistaPropertyItem): boolean {
+  const type = `${item.propertyType || ''} ${item.detailedType?.typology || ''}`.toLowerCase();
+  return /flat|apartment|apartamento|chalet|moradia|house|villa|penthouse|duplex|studio|countryhouse/.test(type);
+}
@@ -6,9 +6,12 @@ import { createLogger } from './logger';
  * Note: Structure is identical to Idealista Italy/Spain
  */
 
+import { createHash } from 'crypto';
+import { normalizePostcode } from './geo';
+import { extractListingAttributes } from './normalizer';
 import type { Property } from './types';
 
-const logger = createLogger('module');
+const logger = createLogger('parser');
 
 const SOURCE = 'idealista_portugal';
 const COUNTRY = 'Portugal';
@@ -32,6 +35,7 @@ export interface IdealistaPropertyItem {
   rooms?: number;
   bathrooms?: number;
   address?: string;
+  postalCode?: string;
   province?: string;
   municipality?: string;
   district?: string;
@@ -161,9 +165,9 @@ function mapPropertyType(propertyType?: string, typology?: string): string {
 }
 
 /**
- * Map operation to transaction type
+ * Map operation to transaction type; undefined when the operation is missing or unknown
  */
-function mapTransactionType(operation?: string): string {
+function mapTransactionType(operation?: string): string | undefined {
   const op = (operation || '').toLowerCase();
 
   if (op.includes('sale') || op.includes('comprar') || op.includes('venda')) {
@@ -173,7 +177,7 @@ function mapTransactionType(operation?: string): string {
     return 'rent';
   }
 
-  return 'sale'; // default
+  return undefined;
 }
 
 /**
@@ -226,6 +230,15 @@ function buildPropertyUrl(propertyCode?: string, url?: string): string {
   return BASE_URL;
 }
 
+/**
+ * ID for a listing without a code, derived from what the card shows so it is
+ * the same across runs and differs between listings parsed in the same page
+ */
+function fallbackId(url: string, address: string | undefined, price: number, size: number | undefined): string {
+  const hash = createHash('sha1').update(JSON.stringify([url, address, price, size])).digest('hex');
+  return `idealista-${hash.slice(0, 12)}`;
+}
+
 /**
  * Parse a single property item from Idealista data
  */
@@ -239,6 +252,7 @@ function parsePropertyItem(
     item.detailedType?.typology || item.detailedType_typology
   );
   const transactionType = mapTransactionType(item.operation);
+  const attributes = extractListingAttributes(item);
 
   // Build address from available fields
   const addressParts = [
@@ -248,19 +262,24 @@ function parsePropertyItem(
     item.municipality,
   ].filter(Boolean);
 
+  const url = buildPropertyUrl(item.propertyCode, item.url);
+  const address = addressParts.length > 0 ? addressParts.join(', ') : undefined;
+
   const property: Property = {
-    id: item.propertyCode || item.externalReference || `idealista-${Date.now()}`,
+    id: item.propertyCode || item.externalReference || fallbackId(url, address, price, item.size),
     source: SOURCE,
-    url: buildPropertyUrl(item.propertyCode, item.url),
+    url,
     title: cleanText(item.suggestedTexts?.title || item.address) || 'Property in Portugal',
     price,
+    priceByArea: item.priceByArea,
     currency: CURRENCY,
     propertyType,
-    transactionType,
+    transactionType: transactionType || 'sale', // default
     location: {
-      address: addressParts.length > 0 ? addressParts.join(', ') : undefined,
+      address,
       city: item.municipality || location,
       region: item.province,
+      postcode: normalizePostcode(item.postalCode) ?? normalizePostcode(item.address),
       country: COUNTRY,
       coordinates:
         item.latitude && item.longitude
@@ -268,11 +287,14 @@ function parsePropertyItem(
           : undefined,
     },
     details: {
-      bedrooms: item.rooms,
+      bedrooms: attributes.bedrooms,
       bathrooms: item.bathrooms,
       sqm: item.size,
       floor: parseFloor(item.floor),
       rooms: item.rooms,
+      typology: attributes.typology,
+      energyRating: attributes.energyRating,
+      condition: attributes.condition,
     },
     features: extractFeatures(item),
     images: item.thumbnail ? [item.thumbnail] : [],
@@ -282,6 +304,11 @@ function parsePropertyItem(
     scrapedAt: new Date().toISOString(),
   };
 
+  // Flag the default so validation can quarantine the listing
+  if (!transactionType) {
+    property.metadata = { transactionTypeDefaulted: true };
+  }
+
   return property;
 }
 
@@ -0,0 +1,211 @@
+/**
+ * Search partitioning planner
+ *
+ * Idealista never serves more than 60 pages (30 listings each) for a single
+ * search, so a search whose total exceeds that silently loses the rest of its
+ * inventory. The planner probes totals and recursively splits oversized
+ * searches until every partition fits:
+ *
+ *   1. price band  - halve the price range until bands get too narrow
+ *   2. typology    - one partition per T0..T5+ (homes only)
+ *   3. sub-area    - one partition per child location, if a provider is given
+ *
+ * A split whose children are no smaller than the search (a filter idealista
+ * ignores) is skipped for the next strategy. A partition that still doesn't fit
+ * after all strategies is kept (and logged) so the caller scrapes as much of it
+ * as idealista allows.
+ */
+
+import { createLogger } from './logger';
+import type { Bedrooms, SearchFilters } from './search-filters';
+import type { Property } from './types';
+
+const logger = createLogger('partition');
+
+export const MAX_PAGES_PER_SEARCH = 60;
+export const RESULTS_PER_PAGE = 30;
+export const MAX_RESULTS_PER_SEARCH = MAX_PAGES_PER_SEARCH * RESULTS_PER_PAGE;
+
+const ALL_BEDROOMS: Bedrooms[] = [0, 1, 2, 3, 4, 5];
+
+export interface SearchPartition {
+  location: string;
+  filters: SearchFilters;
+  total: number;
+}
+
+/**
+ * Returns the total number of results for a search (e.g. from searchData.total)
+ */
+export type CountResults = (location: string, filters: SearchFilters) => Promise<number>;
+
+interface PartitionChild {
+  location?: string;
+  filters: SearchFilters;
+}
+
+export interface PartitionOptions {
+  /** Largest total a single search may have (default: 60 pages x 30 = 1800) */
+  maxResults?: number;
+  /** Upper bound used to split open-ended price ranges (default: 10,000,000) */
+  priceCeiling?: number;
+  /** Price bands narrower than this are not split further (default: 10) */
+  minPriceBand?: number;
+  /** Child locations for sub-area splitting, e.g. freguesias of a concelho */
+  subAreas?: (location: string) => string[] | Promise<string[]>;
+}
+
+type PartitionSettings = Required<Omit<PartitionOptions, 'subAreas'>> &
+  Pick<PartitionOptions, 'subAreas'>;
+
+/**
+ * Plan partitions for a search so that each one fits under the page cap
+ */
+export async function planPartitions(
+  location: string,
+  filters: SearchFilters,
+  countResults: CountResults,
+  options: PartitionOptions = {}
+): Promise<SearchPartition[]> {
+  const settings: PartitionSettings = {
+    maxResults: options.maxResults ?? MAX_RESULTS_PER_SEARCH,
+    priceCeiling: options.priceCeiling ?? 10_000_000,
+    minPriceBand: options.minPriceBand ?? 10,
+    subAreas: options.subAreas,
+  };
+
+  const partitions: SearchPartition[] = [];
+  const total = await countResults(location, filters);
+  await split(location, filters, total, countResults, settings, partitions);
+
+  const covered = partitions.reduce((sum, p) => sum + p.total, 0);
+  logger.info(`Planned ${partitions.length} partitions for ${location} covering ${covered} listings`);
+  return partitions;
+}
+
+interface SplitStrategy {
+  name: string;
+  children: (location: string, filters: SearchFilters, settings: PartitionSettings) => Promise<PartitionChild[] | null>;
+}
+
+const STRATEGIES: SplitStrategy[] = [
+  { name: 'price band', children: async (_location, filters, settings) => splitByPrice(filters, settings) },
+  { name: 'typology', children: async (_location, filters) => splitByTypology(filters) },
+  { name: 'sub-area', children: splitBySubArea },
+];
+
+async function split(
+  location: string,
+  filters: SearchFilters,
+  total: number,
+  countResults: CountResults,
+  settings: PartitionSettings,
+  out: SearchPartition[]
+): Promise<void> {
+  if (total === 0) return;
+  if (total <= settings.maxResults) {
+    out.push({ location, filters, total });
+    return;
+  }
+
+  const search = `${location} ${JSON.stringify(filters)}`;
+  for (const strategy of STRATEGIES) {
+    const children = await strategy.children(location, filters, settings);
+    if (!children) continue;
+
+    const totals: number[] = [];
+    for (const child of children) {
+      totals.push(await countResults(child.location ?? location, child.filters));
+    }
+
+    // A filter idealista ignores gives every child the parent's total; recursing would never end
+    if (Math.min(...totals) >= total) {
+      logger.warn(`Splitting ${search} by ${strategy.name} doesn't narrow it down (${total} listings)`);
+      continue;
+    }
+
+    const covered = totals.reduce((sum, childTotal) => sum + childTotal, 0);
+    if (covered < total) {
+      logger.warn(
+        `Split of ${search} by ${strategy.name} covers ${covered} of ${total} listings; ` +
+          `${total - covered} will be missed`
+      );
+    }
+
+    for (const [i, child] of children.entries()) {
+      await split(child.location ?? location, child.filters, totals[i], countResults, settings, out);
+    }
+    return;
+  }
+
+  logger.warn(
+    `Cannot split ${search} further; ${total - settings.maxResults} of ${total} listings will be missed`
+  );
+  out.push({ location, filters, total });
+}
+
+/**
+ * Halve the price range; open-ended ranges are split at the midpoint to the ceiling
+ */
+function splitByPrice(filters: SearchFilters, settings: PartitionSettings): PartitionChild[] | null {
+  const low = filters.minPrice ?? 0;
+  const high = filters.maxPrice ?? settings.priceCeiling;
+
+  if (high - low < settings.minPriceBand * 2) return null;
+
+  const mid = Math.floor((low + high) / 2);
+  return [
+    { filters: withoutUndefined({ ...filters, maxPrice: mid }) },
+    // Keep the top band open-ended when the original range was
+    { filters: withoutUndefined({ ...filters, minPrice: mid + 1, maxPrice: filters.maxPrice }) },
+  ];
+}
+
+/**
+ * One partition per typology; only meaningful for homes
+ */
+function splitByTypology(filters: SearchFilters): PartitionChild[] | null {
+  if (filters.category && filters.category !== 'homes') return null;
+
+  const bedrooms = filters.bedrooms && filters.bedrooms.length > 0 ? filters.bedrooms : ALL_BEDROOMS;
+  if (bedrooms.length < 2) return null;
+
+  return bedrooms.map((value) => ({ filters: { ...filters, bedrooms: [value] } }));
+}
+
+async function splitBySubArea(
+  location: string,
+  filters: SearchFilters,
+  settings: PartitionSettings
+): Promise<PartitionChild[] | null> {
+  if (!settings.subAreas) return null;
+
+  const areas = await settings.subAreas(location);
+  if (areas.length === 0) return null;
+
+  return areas.map((area) => ({ location: area, filters }));
+}
+
+function withoutUndefined(filters: SearchFilters): SearchFilters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as SearchFilters;
+}
+
+/**
+ * Merge results from several partitions, keeping the first occurrence of each ID
+ */
+export function mergePartitionResults(results: Property[][]): Property[] {
+  const seen = new Set<string>();
+  const merged: Property[] = [];
+
+  for (const properties of results) {
+    for (const property of properties) {
+      if (seen.has(property.id)) continue;
+      seen.add(property.id);
+      merged.push(property);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,153 @@
+/**
+ * Price history tracking per listing
+ *
+ * A point is appended to a listing's history the first time it is seen and
+ * whenever its asking price changes between runs, so the history is a compact
+ * list of price changes rather than one entry per crawl.
+ *
+ * Redis layout:
+ *   idealista:portugal:price_history:{id}  - List of JSON-serialised PricePoint, oldest first
+ */
+
+import { getRedisClient, KEY_PREFIX } from './redis';
+import type { PricePoint, Property } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PriceHistoryStore {
+  get(id: string): Promise<PricePoint[]>;
+  append(id: string, point: PricePoint): Promise<void>;
+}
+
+/**
+ * Stores histories as Redis lists (requires connectRedis())
+ */
+export class RedisPriceHistoryStore implements PriceHistoryStore {
+  async get(id: string): Promise<PricePoint[]> {
+    const raw = await getRedisClient().lRange(this.key(id), 0, -1);
+    return raw.map((value) => JSON.parse(value) as PricePoint);
+  }
+
+  async append(id: string, point: PricePoint): Promise<void> {
+    await getRedisClient().rPush(this.key(id), JSON.stringify(point));
+  }
+
+  private key(id: string): string {
+    return `${KEY_PREFIX}:price_history:${id}`;
+  }
+}
+
+/**
+ * Keeps histories in memory, e.g. for dry runs and tests
+ */
+export class MemoryPriceHistoryStore implements PriceHistoryStore {
+  private histories = new Map<string, PricePoint[]>();
+
+  async get(id: string): Promise<PricePoint[]> {
+    return [...(this.histories.get(id) || [])];
+  }
+
+  async append(id: string, point: PricePoint): Promise<void> {
+    this.histories.set(id, [...(this.histories.get(id) || []), point]);
+  }
+}
+
+/**
+ * Append a point for every listing whose price changed and attach the full history
+ */
+export async function recordPriceHistory(
+  properties: Property[],
+  store: PriceHistoryStore
+): Promise<Property[]> {
+  const result: Property[] = [];
+
+  for (const property of properties) {
+    const history = await store.get(property.id);
+    const last = history[history.length - 1];
+
+    if (property.price > 0 && (!last || last.price !== property.price)) {
+      const point: PricePoint = {
+        timestamp: property.scrapedAt || new Date().toISOString(),
+        price: property.price,
+        priceByArea: property.priceByArea,
+      };
+      await store.append(property.id, point);
+      history.push(point);
+    }
+
+    result.push({ ...property, priceHistory: history });
+  }
+
+  return result;
+}
+
+export interface PriceDrop {
+  id: string;
+  fromPrice: number;
+  toPrice: number;
+  /** Drop as a percentage of fromPrice, e.g. 12.5 */
+  dropPercent: number;
+  /** When the reference (highest) price was recorded */
+  since: string;
+}
+
+/**
+ * Find listings whose current price is more than `minDropPercent` below the
+ * highest price in effect during the last `withinDays` days
+ *
+ * The price in effect at the start of the window (the last point before it)
+ * counts, so a single drop inside the window is detected.
+ */
+export function findPriceDrops(
+  histories: Map<string, PricePoint[]>,
+  options: { minDropPercent: number; withinDays: number; now?: Date }
+): PriceDrop[] {
+  const now = (options.now ?? new Date()).getTime();
+  const windowStart = now - options.withinDays * DAY_MS;
+  const drops: PriceDrop[] = [];
+
+  for (const [id, history] of histories) {
+    if (history.length < 2) continue;
+
+    const sorted = [...history].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    const current = sorted[sorted.length - 1];
+
+    const firstInWindow = sorted.findIndex((p) => new Date(p.timestamp).getTime() >= windowStart);
+    if (firstInWindow === -1) continue; // no change within the window
+
+    const candidates = sorted.slice(Math.max(0, firstInWindow - 1), sorted.length - 1);
+    if (candidates.length === 0) continue;
+
+    const reference = candidates.reduce((max, p) => (p.price > max.price ? p : max));
+    const dropPercent = ((reference.price - current.price) / reference.price) * 100;
+
+    if (dropPercent > options.minDropPercent) {
+      drops.push({
+        id,
+        fromPrice: reference.price,
+        toPrice: current.price,
+        dropPercent: Math.round(dropPercent * 100) / 100,
+        since: reference.timestamp,
+      });
+    }
+  }
+
+  return drops.sort((a, b) => b.dropPercent - a.dropPercent);
+}
+
+/**
+ * Load histories for the given IDs and find price drops among them
+ */
+export async function queryPriceDrops(
+  ids: string[],
+  store: PriceHistoryStore,
+  options: { minDropPercent: number; withinDays: number; now?: Date }
+): Promise<PriceDrop[]> {
+  const histories = new Map<string, PricePoint[]>();
+  for (const id of ids) {
+    histories.set(id, await store.get(id));
+  }
+  return findPriceDrops(histories, options);
+}
@@ -0,0 +1,141 @@
+/**
+ * Global request rate limiter
+ *
+ * Shared by every scraper worker so the total request rate stays within
+ * budget no matter how many browser contexts run in parallel:
+ *
+ *   - a token bucket refilled at one token per `intervalMs` (with up to `burst`
+ *     tokens saved up) spaces requests out over time
+ *   - at most `maxConcurrent` requests are in flight at once
+ *
+ * Configured from REQUEST_DELAY_MS and MAX_CONCURRENT_REQUESTS by fromEnv().
+ */
+
+import { delay } from './utils';
+
+export interface RateLimiterOptions {
+  /** Minimum average time between requests across all workers (default: 1000) */
+  intervalMs?: number;
+  /** Requests that may start back to back after an idle period (default: 1) */
+  burst?: number;
+  /** Requests in flight at once (default: 5) */
+  maxConcurrent?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export class RateLimiter {
+  private interval: number;
+  readonly burst: number;
+  readonly maxConcurrent: number;
+  private tokens: number;
+  private refilledAt: number;
+  private inFlight = 0;
+  // FIFO of callers waiting for a turn, so workers are served in order
+  private waiting: Array<() => void> = [];
+  private busy = false;
+  // Resolved by release() when the caller at the head is waiting for a free slot
+  private slotFreed: (() => void) | null = null;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.interval = options.intervalMs ?? 1000;
+    this.burst = Math.max(1, options.burst ?? 1);
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 5);
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? delay;
+    this.tokens = this.burst;
+    this.refilledAt = this.now();
+  }
+
+  /**
+   * Limiter configured from REQUEST_DELAY_MS and MAX_CONCURRENT_REQUESTS
+   */
+  static fromEnv(overrides: RateLimiterOptions = {}): RateLimiter {
+    const intervalMs = parseInt(process.env.REQUEST_DELAY_MS || '', 10);
+    const maxConcurrent = parseInt(process.env.MAX_CONCURRENT_REQUESTS || '', 10);
+
+    return new RateLimiter({
+      intervalMs: Number.isFinite(intervalMs) ? intervalMs : undefined,
+      maxConcurrent: Number.isFinite(maxConcurrent) ? maxConcurrent : undefined,
+      ...overrides,
+    });
+  }
+
+  get intervalMs(): number {
+    return this.interval;
+  }
+
+  /**
+   * Change the pace; tokens already saved up are kept
+   */
+  setIntervalMs(intervalMs: number): void {
+    this.refill();
+    this.interval = intervalMs;
+  }
+
+  /** Requests currently holding a slot */
+  get active(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Wait for a token and a free slot; call release() when the request is done
+   */
+  async acquire(): Promise<void> {
+    // One caller at a time takes a token, in arrival order
+    if (this.busy) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.busy = true;
+
+    try {
+      while (this.inFlight >= this.maxConcurrent) {
+        await new Promise<void>((resolve) => (this.slotFreed = resolve));
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        await this.sleep(Math.ceil((1 - this.tokens) * this.interval));
+        this.refill();
+      }
+
+      this.tokens -= 1;
+      this.inFlight++;
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.busy = false;
+    }
+  }
+
+  release(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+    const resolve = this.slotFreed;
+    this.slotFreed = null;
+    resolve?.();
+  }
+
+  /**
+   * Run a request within the limits
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await request();
+    } finally {
+      this.release();
+    }
+  }
+
+  private refill(): void {
+    const now = this.now();
+    if (this.interval <= 0) {
+      this.tokens = this.burst;
+    } else {
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.refilledAt) / this.interval);
+    }
+    this.refilledAt = now;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Recheck of stale listings
+ *
+ * A listing no search has returned for `recheckAfterDays` (going by the
+ * last_seen sorted set) may be off the market, or may only have dropped out of
+ * the pages a crawl reaches. A recheck visits the detail pages of such
+ * listings in batches of `recheckBatchSize` and updates their status:
+ *
+ *   active         - advert online; detail fields refreshed, last seen bumped
+ *   reserved       - online with a reservado label; refreshed and bumped too
+ *   sold / rented  - vendido / arrendado label
+ *   removed        - 404/410, redirected away from the advert, or deactivated
+ *
+ * Listings whose page doesn't tell are left as they are, so they come up
+ * again in the next recheck.
+ */
+
+import { ListingCheck, mergePropertyDetail } from './detail-parser';
+import type { StatusTransition } from './diff';
+import { BlockedError } from './errors';
+import { getIdsLastSeenBefore, getProperties, isListed, saveProperties } from './redis';
+import { createLogger } from './logger';
+import { delay } from './utils';
+import type { ListingStatus, Property, ScraperConfig } from './types';
+
+const logger = createLogger('recheck');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RECHECK_AFTER_DAYS = 7;
+export const DEFAULT_RECHECK_BATCH_SIZE = 50;
+
+export interface RecheckStore {
+  /** IDs of listings last seen before `before` (epoch ms), least recently seen first */
+  staleIds(before: number): Promise<string[]>;
+  load(ids: string[]): Promise<Property[]>;
+  save(properties: Property[]): Promise<void>;
+}
+
+/**
+ * Reads and updates the listings stored in Redis (requires connectRedis())
+ */
+export class RedisRecheckStore implements RecheckStore {
+  staleIds(before: number): Promise<string[]> {
+    return getIdsLastSeenBefore(before);
+  }
+
+  load(ids: string[]): Promise<Property[]> {
+    return getProperties(ids);
+  }
+
+  save(properties: Property[]): Promise<void> {
+    return saveProperties(properties);
+  }
+}
+
+/**
+ * What the recheck needs from IdealistaScraper
+ */
+export interface ListingChecker {
+  checkListing(propertyCode: string): Promise<ListingCheck>;
+}
+
+export interface RecheckOptions extends Pick<ScraperConfig, 'recheckAfterDays' | 'recheckBatchSize'> {
+  store: RecheckStore;
+  checker: ListingChecker;
+  /** Stop after this many batches (default: once every stale listing is checked) */
+  maxBatches?: number;
+  /** Delay between detail pages (default: none) */
+  delayMs?: number;
+  /** Check listings without storing anything */
+  dryRun?: boolean;
+  /** Stops the recheck after the current listing */
+  signal?: AbortSignal;
+  /** Receives each batch's listings whose status changed, e.g. to send them downstream */
+  onChanges?: (properties: Property[]) => Promise<void>;
+  now?: () => number;
+}
+
+export interface RecheckReport {
+  /** Listings last seen before the cutoff, including ones already off the market */
+  staleIds: number;
+  batches: number;
+  checked: number;
+  /** Checked listings by the status they were found in */
+  statuses: Partial<Record<ListingStatus, number>>;
+  /** Pages that didn't tell whether the listing is still online */
+  undetermined: number;
+  /** Pages that failed to load */
+  failed: number;
+  transitions: StatusTransition[];
+  /** Ended early on a hard DataDome block */
+  blocked: boolean;
+}
+
+/**
+ * Visit the detail pages of listings not seen in `recheckAfterDays` and store their status
+ */
+export async function recheckStaleListings(options: RecheckOptions): Promise<RecheckReport> {
+  const { store, checker, signal } = options;
+  const recheckAfterDays = options.recheckAfterDays ?? DEFAULT_RECHECK_AFTER_DAYS;
+  const batchSize = options.recheckBatchSize ?? DEFAULT_RECHECK_BATCH_SIZE;
+  const now = options.now ?? Date.now;
+
+  const ids = await store.staleIds(now() - recheckAfterDays * DAY_MS);
+  const report: RecheckReport = {
+    staleIds: ids.length,
+    batches: 0,
+    checked: 0,
+    statuses: {},
+    undetermined: 0,
+    failed: 0,
+    transitions: [],
+    blocked: false,
+  };
+  logger.info(`${ids.length} listings not seen in ${recheckAfterDays} days`);
+
+  let offset = 0;
+  while (!report.blocked && !signal?.aborted && report.batches !== options.maxBatches) {
+    // Listings already off the market stay in last_seen, so skip them while filling the batch
+    const batch: Property[] = [];
+    while (batch.length < batchSize && offset < ids.length) {
+      const chunk = ids.slice(offset, offset + batchSize - batch.length);
+      offset += chunk.length;
+      batch.push(...(await store.load(chunk)).filter(isListed));
+    }
+    if (batch.length === 0) break;
+
+    report.batches++;
+    logger.info(`Batch ${report.batches}: checking ${batch.length} listings`);
+
+    const updated: Property[] = [];
+    const changed: Property[] = [];
+    for (const property of batch) {
+      if (signal?.aborted) break;
+      if (report.checked > 0 && options.delayMs) await delay(options.delayMs);
+
+      let check: ListingCheck;
+      try {
+        check = await checker.checkListing(property.id);
+      } catch (error) {
+        if (error instanceof BlockedError && error.outcome === 'hard_block') {
+          logger.error(`Hard-blocked while checking ${property.id}, stopping the recheck`);
+          report.blocked = true;
+          break;
+        }
+        logger.warn(`Could not check ${property.id}:`, error);
+        report.failed++;
+        continue;
+      }
+
+      report.checked++;
+      if (!check.status) {
+        logger.warn(`Could not tell whether ${property.id} is still online: ${check.reason}`);
+        report.undetermined++;
+        continue;
+      }
+      report.statuses[check.status] = (report.statuses[check.status] ?? 0) + 1;
+
+      const rechecked = applyCheck(property, check, new Date(now()).toISOString());
+      updated.push(rechecked);
+
+      const previous = property.status ?? 'active';
+      if (check.status !== previous) {
+        logger.info(`Status ${property.id}: ${previous} -> ${check.status} (${check.reason})`);
+        report.transitions.push({ id: property.id, from: previous, to: check.status });
+        changed.push(rechecked);
+      }
+    }
+
+    if (options.dryRun) {
+      logger.info(`[Dry run] Not storing ${updated.length} rechecked listings (${changed.length} status changes)`);
+      continue;
+    }
+    if (updated.length > 0) await store.save(updated);
+    if (changed.length > 0) await options.onChanges?.(changed);
+  }
+
+  logger.info(`Recheck done: ${summarizeRecheck(report)}`);
+  return report;
+}
+
+/**
+ * A stored listing updated with what its detail page showed
+ */
+function applyCheck(property: Property, check: ListingCheck, checkedAt: string): Property {
+  const status = check.status!;
+  if (status !== 'active' && status !== 'reserved') {
+    return { ...property, status };
+  }
+
+  const refreshed = check.detail ? mergePropertyDetail(property, check.detail) : property;
+  return { ...refreshed, status, scrapedAt: checkedAt };
+}
+
+/**
+ * One-line summary for logging
+ */
+export function summarizeRecheck(report: RecheckReport): string {
+  const statuses = Object.entries(report.statuses)
+    .map(([status, count]) => `${count} ${status}`)
+    .join(', ');
+  return (
+    `${report.checked} checked in ${report.batches} batches (${statuses || 'none'}), ` +
+    `${report.undetermined} undetermined, ${report.failed} failed`
+  );
+}
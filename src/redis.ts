@@ -1,22 +1,235 @@
 /**
- * Redis stub implementation
+ * Redis persistence layer
  * Replaces @shared/redis dependency
- * For now, this is a no-op implementation
+ *
+ * Key layout (all keys are scoped by portal and country):
+ *   idealista:portugal:property:{id}                   - JSON-serialised Property
+ *   idealista:portugal:index:{location}:{transaction}  - Set of property IDs
+ *   idealista:portugal:first_seen                      - Hash of ID -> ISO timestamp
+ *   idealista:portugal:last_seen                       - Sorted set of ID scored by epoch ms
  */
 
+import { createClient } from 'redis';
+import { createLogger } from './logger';
 import type { Property } from './types';
 
-export async function connectRedis(): Promise<void> {
-  // No-op for now - can be implemented later if needed
-  console.log('[redis] Connect called (stub implementation)');
+const logger = createLogger('redis');
+
+const DEFAULT_REDIS_URL = 'redis://localhost:6379';
+export const KEY_PREFIX = 'idealista:portugal';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | null = null;
+
+/**
+ * Build the storage key for a single property
+ */
+export function propertyKey(id: string): string {
+  return `${KEY_PREFIX}:property:${id}`;
+}
+
+/**
+ * Build the index key for a location / transaction type pair
+ */
+export function indexKey(location: string, transactionType: string): string {
+  return `${KEY_PREFIX}:index:${slugify(location)}:${transactionType}`;
+}
+
+/**
+ * Normalise a city name into a key-safe slug ("Vila Nova de Gaia" -> "vila-nova-de-gaia")
+ */
+function slugify(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Connect to Redis
+ *
+ * Uses the given URL, falling back to REDIS_URL and then localhost.
+ */
+export async function connectRedis(url?: string): Promise<RedisClient> {
+  if (client?.isOpen) return client;
+
+  client = await openRedisClient(url);
+  return client;
+}
+
+/**
+ * Open a connection of its own, separate from the shared client
+ *
+ * For users that outlive a crawl's connectRedis()/disconnectRedis(), such as
+ * the scheduler's job locks. The caller quits it.
+ */
+export async function openRedisClient(url?: string): Promise<RedisClient> {
+  const redisUrl = url || process.env.REDIS_URL || DEFAULT_REDIS_URL;
+  const redisClient = createClient({ url: redisUrl });
+  redisClient.on('error', (error) => logger.error('Redis client error:', error));
+
+  await redisClient.connect();
+  logger.info(`Connected to ${redisUrl.replace(/\/\/[^@]*@/, '//***@')}`);
+  return redisClient;
+}
+
+/**
+ * Use an already-created client (e.g. an in-memory stand-in for tests)
+ */
+export function setRedisClient(redisClient: RedisClient | null): void {
+  client = redisClient;
+}
+
+/**
+ * Get the active client, throwing if connectRedis() has not been called
+ */
+export function getRedisClient(): RedisClient {
+  if (!client) {
+    throw new Error('Redis not connected. Call connectRedis() first.');
+  }
+  return client;
 }
 
 export async function disconnectRedis(): Promise<void> {
-  // No-op for now
-  console.log('[redis] Disconnect called (stub implementation)');
+  if (!client) return;
+
+  if (client.isOpen) {
+    await client.quit();
+    logger.info('Disconnected');
+  }
+  client = null;
 }
 
+/** Properties written per MULTI/EXEC transaction */
+const SAVE_BATCH_SIZE = 100;
+
+/**
+ * Store properties, update index sets and first/last-seen timestamps
+ *
+ * Listings that are off the market (removed, sold, rented) are stored
+ * without bumping their last-seen timestamp. Each batch is written in one
+ * transaction, so a listing is never left stored without its index entry.
+ */
 export async function saveProperties(properties: Property[]): Promise<void> {
-  // No-op for now - properties can be saved via Core Service API instead
-  console.log(`[redis] SaveProperties called with ${properties.length} properties (stub implementation)`);
+  const redis = getRedisClient();
+  const now = new Date();
+
+  for (let i = 0; i < properties.length; i += SAVE_BATCH_SIZE) {
+    const transaction = redis.multi();
+    for (const property of properties.slice(i, i + SAVE_BATCH_SIZE)) {
+      transaction
+        .set(propertyKey(property.id), JSON.stringify(property))
+        .sAdd(indexKey(property.location.city, property.transactionType), property.id)
+        .hSetNX(`${KEY_PREFIX}:first_seen`, property.id, now.toISOString());
+      if (isListed(property)) {
+        transaction.zAdd(`${KEY_PREFIX}:last_seen`, {
+          score: now.getTime(),
+          value: property.id,
+        });
+      }
+    }
+    await transaction.exec();
+  }
+
+  logger.info(`Saved ${properties.length} properties`);
+}
+
+/**
+ * Whether a listing is still online (active or reserved)
+ */
+export function isListed(property: Property): boolean {
+  const status = property.status ?? 'active';
+  return status === 'active' || status === 'reserved';
+}
+
+/**
+ * Bump the last-seen timestamp of listings that were seen again but not rewritten
+ */
+export async function touchProperties(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const score = Date.now();
+  await getRedisClient().zAdd(
+    `${KEY_PREFIX}:last_seen`,
+    ids.map((id) => ({ score, value: id }))
+  );
+}
+
+/**
+ * Load a single stored property
+ */
+export async function getProperty(id: string): Promise<Property | null> {
+  const raw = await getRedisClient().get(propertyKey(id));
+  return raw ? (JSON.parse(raw) as Property) : null;
+}
+
+/**
+ * Load stored properties by ID, skipping IDs that are not stored
+ */
+export async function getProperties(ids: string[]): Promise<Property[]> {
+  if (ids.length === 0) return [];
+
+  const raw = await getRedisClient().mGet(ids.map(propertyKey));
+  return raw
+    .filter((value): value is string => value !== null)
+    .map((value) => JSON.parse(value) as Property);
+}
+
+/**
+ * IDs of listings last seen before `before` (epoch ms), least recently seen first
+ */
+export async function getIdsLastSeenBefore(before: number): Promise<string[]> {
+  return getRedisClient().zRangeByScore(`${KEY_PREFIX}:last_seen`, '-inf', `(${before}`);
+}
+
+/**
+ * Load all stored properties for a location / transaction type
+ */
+export async function getPropertiesByIndex(
+  location: string,
+  transactionType: string
+): Promise<Property[]> {
+  const ids = await getRedisClient().sMembers(indexKey(location, transactionType));
+  return getProperties(ids);
+}
+
+/**
+ * Load the stored snapshot covering several locations, de-duplicated by ID
+ */
+export async function loadSnapshot(
+  locations: string[],
+  transactionType: string
+): Promise<Property[]> {
+  const byId = new Map<string, Property>();
+
+  for (const location of new Set(locations)) {
+    for (const property of await getPropertiesByIndex(location, transactionType)) {
+      byId.set(property.id, property);
+    }
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Get first-seen and last-seen timestamps for a property
+ */
+export async function getSeenTimestamps(
+  id: string
+): Promise<{ firstSeen?: string; lastSeen?: string }> {
+  const redis = getRedisClient();
+  const firstSeen = await redis.hGet(`${KEY_PREFIX}:first_seen`, id);
+  const lastSeenScore = await redis.zScore(`${KEY_PREFIX}:last_seen`, id);
+
+  return {
+    firstSeen: firstSeen ?? undefined,
+    lastSeen:
+      lastSeenScore !== null && lastSeenScore !== undefined
+        ? new Date(lastSeenScore).toISOString()
+        : undefined,
+  };
 }
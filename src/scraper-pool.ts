@@ -0,0 +1,309 @@
+/**
+ * Parallel scraping with a pool of isolated scrapers
+ *
+ * Each worker is its own IdealistaScraper: a separate browser context with
+ * its own fingerprint and cookies, and its own proxy when a proxy pool is
+ * configured. Workers pull (location, page) jobs from a shared queue, and a
+ * shared RateLimiter keeps the total request rate within budget.
+ *
+ * A search starts with a single probe page; once its total page count is
+ * known, the remaining pages are queued and fetched in parallel.
+ */
+
+import { BlockedError } from './errors';
+import { createLogger } from './logger';
+import { mergePartitionResults } from './partition';
+import type { Checkpoint } from './checkpoint';
+import type { RateLimiter } from './rate-limiter';
+import { IdealistaScraper, DetailOptions, ScrapeResult, ScraperOptions } from './scraper';
+import { searchIdFor, SearchFilters } from './search-filters';
+import { randomFingerprint } from './stealth';
+import type { Property } from './types';
+import { delay as sleep } from './utils';
+
+const logger = createLogger('scraper-pool');
+
+// A blocked or failed page is tried this many times in all, on other workers or after rotation
+const MAX_JOB_ATTEMPTS = 3;
+const BLOCKED_BACKOFF_MS = 30000;
+
+/**
+ * The part of IdealistaScraper the pool drives; replaceable in tests
+ */
+export type PoolScraper = Pick<
+  IdealistaScraper,
+  'initialize' | 'close' | 'scrapePage' | 'rotateProxy' | 'enrichWithDetails'
+>;
+
+export interface ScraperPoolOptions {
+  /** Number of workers (default: 2) */
+  size?: number;
+  /** Options shared by every worker's scraper */
+  scraperOptions?: ScraperOptions;
+  rateLimiter?: RateLimiter;
+  /** Give each worker a random fingerprint (default: true) */
+  randomizeFingerprints?: boolean;
+  createScraper?: (options: ScraperOptions) => PoolScraper;
+}
+
+interface Search {
+  location: string;
+  searchId: string;
+  pages: Map<number, Property[]>;
+  /** Last page to fetch; known once the probe page has loaded */
+  lastPage?: number;
+}
+
+interface PageJob {
+  search: Search;
+  page: number;
+  probe: boolean;
+  attempts: number;
+}
+
+export class ScraperPool {
+  private workers: PoolScraper[] = [];
+  private options: Required<Omit<ScraperPoolOptions, 'rateLimiter'>> & Pick<ScraperPoolOptions, 'rateLimiter'>;
+
+  constructor(options: ScraperPoolOptions = {}) {
+    this.options = {
+      size: Math.max(1, options.size ?? 2),
+      scraperOptions: options.scraperOptions ?? {},
+      rateLimiter: options.rateLimiter,
+      randomizeFingerprints: options.randomizeFingerprints ?? true,
+      createScraper: options.createScraper ?? ((scraperOptions) => new IdealistaScraper(scraperOptions)),
+    };
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Launch the workers; fails only if none of them could start
+   */
+  async initialize(): Promise<void> {
+    for (let i = 0; i < this.options.size; i++) {
+      const scraper = this.options.createScraper({
+        ...this.options.scraperOptions,
+        fingerprint: this.options.randomizeFingerprints
+          ? randomFingerprint()
+          : this.options.scraperOptions.fingerprint,
+        rateLimiter: this.options.rateLimiter,
+        rotatePerLocation: false,
+      });
+
+      try {
+        await scraper.initialize();
+        this.workers.push(scraper);
+      } catch (error) {
+        logger.error(`Worker ${i + 1} failed to start:`, error);
+        await scraper.close().catch(() => undefined);
+      }
+    }
+
+    if (this.workers.length === 0) {
+      throw new Error('No scraper workers could be started');
+    }
+    logger.info(`Started ${this.workers.length}/${this.options.size} workers`);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.close().catch(() => undefined)));
+    this.workers = [];
+  }
+
+  /**
+   * Scrape several locations in parallel, returning listings in location and page order
+   */
+  async scrapeLocations(
+    locations: string[],
+    transactionType: 'sale' | 'rent' = 'sale',
+    options: {
+      maxPagesPerLocation?: number;
+      limit?: number;
+      filters?: SearchFilters;
+      checkpoint?: Checkpoint;
+    } = {}
+  ): Promise<Property[]> {
+    if (this.workers.length === 0) {
+      throw new Error('Pool not initialized. Call initialize() first.');
+    }
+
+    const { maxPagesPerLocation = 3, limit, filters = {}, checkpoint } = options;
+    const queue: PageJob[] = [];
+    let collected = 0;
+    let inFlight = 0;
+    // Idle workers wait here for new jobs or for in-flight pages to finish
+    let waiters: Array<() => void> = [];
+
+    const notify = () => {
+      const resolved = waiters;
+      waiters = [];
+      resolved.forEach((resolve) => resolve());
+    };
+
+    const searches: Search[] = locations.map((location) => {
+      const searchId = searchIdFor(location, filters);
+      const search: Search = { location, searchId, pages: new Map() };
+
+      // Restore pages completed by a resumed run
+      for (let page = 1; page <= maxPagesPerLocation; page++) {
+        const saved = checkpoint?.getPage(searchId, transactionType, page);
+        if (saved) {
+          search.pages.set(page, saved);
+          collected += saved.length;
+        }
+      }
+
+      if (checkpoint?.isSearchDone(searchId, transactionType)) {
+        search.lastPage = Math.max(0, ...search.pages.keys());
+      } else {
+        const probe = firstMissingPage(search, maxPagesPerLocation);
+        if (probe) queue.push({ search, page: probe, probe: true, attempts: 0 });
+      }
+      return search;
+    });
+
+    const limitReached = () => Boolean(limit && collected >= limit);
+
+    // Takes a job and counts it as in flight in the same tick, so idle workers don't exit early
+    const nextJob = async (): Promise<PageJob | null> => {
+      for (;;) {
+        if (limitReached() || this.options.scraperOptions.signal?.aborted) return null;
+        const job = queue.shift();
+        if (job) {
+          inFlight++;
+          return job;
+        }
+        if (inFlight === 0) return null;
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+    };
+
+    const completePage = async (job: PageJob, result: ScrapeResult) => {
+      const { search } = job;
+      search.pages.set(job.page, result.properties);
+      collected += result.properties.length;
+      await checkpoint?.markPageDone(search.searchId, transactionType, job.page, result.properties);
+
+      if (job.probe) {
+        search.lastPage = result.hasNextPage
+          ? Math.min(maxPagesPerLocation, Math.max(result.totalPages, job.page + 1))
+          : job.page;
+        // Queue ahead of other searches so a --limit is filled from as few searches as possible
+        const rest: PageJob[] = [];
+        for (let page = job.page + 1; page <= search.lastPage; page++) {
+          if (!search.pages.has(page)) rest.push({ search, page, probe: false, attempts: 0 });
+        }
+        queue.unshift(...rest);
+        logger.info(`${search.searchId}: ${search.lastPage} pages to scrape`);
+      }
+
+      if (search.lastPage && firstMissingPage(search, search.lastPage) === null) {
+        await checkpoint?.markSearchDone(search.searchId, transactionType);
+      }
+    };
+
+    const worker = async (scraper: PoolScraper, index: number): Promise<void> => {
+      for (;;) {
+        const job = await nextJob();
+        if (!job) return;
+        const log = logger.child({ worker: index, location: job.search.searchId, page: job.page });
+
+        try {
+          const result = await scraper.scrapePage(job.search.location, transactionType, job.page, filters);
+          await completePage(job, result);
+          log.info(`Worker ${index}: ${job.search.searchId} page ${job.page} (${result.properties.length} properties)`);
+        } catch (error) {
+          job.attempts++;
+          if (!(error instanceof BlockedError)) {
+            log.error(`Worker ${index}: ${job.search.searchId} page ${job.page} failed:`, error);
+            if (job.attempts < MAX_JOB_ATTEMPTS) {
+              // Retried behind the pages already queued, so likely by another worker
+              queue.push(job);
+              continue;
+            }
+            log.error(`Giving up on ${job.search.searchId} page ${job.page} after ${job.attempts} failures`);
+            // Without the probe's page count the search would stall; probe the next page instead
+            if (job.probe && job.page < maxPagesPerLocation) {
+              queue.push({ search: job.search, page: job.page + 1, probe: true, attempts: 0 });
+            }
+            continue;
+          }
+
+          if (job.attempts >= MAX_JOB_ATTEMPTS) {
+            log.error(`Giving up on ${job.search.searchId} page ${job.page} after ${job.attempts} blocks`);
+            continue;
+          }
+          queue.unshift(job);
+
+          // Switch identity; without a proxy pool, back off on soft challenges and retire on hard blocks
+          const rotated = await scraper
+            .rotateProxy(`${error.outcome} on ${job.search.searchId} page ${job.page}`)
+            .catch(() => false);
+          if (!rotated) {
+            if (error.outcome === 'hard_block') {
+              log.error(`Worker ${index} blocked by anti-bot, retiring it`);
+              return;
+            }
+            await sleep(BLOCKED_BACKOFF_MS * job.attempts);
+          }
+        } finally {
+          inFlight--;
+          notify();
+        }
+      }
+    };
+
+    logger.info(`Scraping ${searches.length} searches with ${this.workers.length} workers`);
+    await Promise.all(this.workers.map((scraper, i) => worker(scraper, i + 1)));
+
+    if (queue.length > 0 && !limitReached()) {
+      logger.warn(`${queue.length} pages were not scraped (all workers blocked)`);
+    }
+
+    const merged = mergePartitionResults(
+      searches.flatMap((search) =>
+        [...search.pages.entries()].sort(([a], [b]) => a - b).map(([, properties]) => properties)
+      )
+    );
+    logger.info(`Pool scrape complete: ${merged.length} properties`);
+    return limit ? merged.slice(0, limit) : merged;
+  }
+
+  /**
+   * Fetch detail pages, splitting the listings across workers
+   *
+   * `concurrency` is the total for the pool, shared out between the workers
+   * (at least one page each); without it each worker fetches one page at a time.
+   */
+  async enrichWithDetails(properties: Property[], options: DetailOptions = {}): Promise<Property[]> {
+    if (this.workers.length === 0) {
+      throw new Error('Pool not initialized. Call initialize() first.');
+    }
+
+    const chunkSize = Math.ceil(properties.length / this.workers.length);
+    const chunks = this.workers.map((_, i) => properties.slice(i * chunkSize, (i + 1) * chunkSize));
+    const concurrency = Math.max(1, Math.floor((options.concurrency ?? this.workers.length) / this.workers.length));
+
+    const enriched = await Promise.all(
+      this.workers.map((worker, i) =>
+        chunks[i].length > 0
+          ? worker.enrichWithDetails(chunks[i], { ...options, concurrency })
+          : Promise.resolve([])
+      )
+    );
+    return enriched.flat();
+  }
+}
+
+/**
+ * First page in 1..lastPage without results, or null when all are done
+ */
+function firstMissingPage(search: Search, lastPage: number): number | null {
+  for (let page = 1; page <= lastPage; page++) {
+    if (!search.pages.has(page)) return page;
+  }
+  return null;
+}
@@ -1,4 +1,4 @@
-import { createLogger } from './logger';
+import { createLogger, LogContext, Logger } from './logger';
 /**
  * Idealista.pt Scraper
  *
@@ -14,7 +14,9 @@ import { createLogger } from './logger';
  *   PROXY_PASSWORD=pass
  */
 
-import { Browser, BrowserContext, Page, chromium } from 'playwright';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Browser, BrowserContext, LaunchOptions, Page, chromium } from 'playwright';
 import { load } from 'cheerio';
 import {
   applyStealthConfig,
@@ -22,47 +24,84 @@ import {
   humanScroll,
   humanClick,
   bypassDataDome,
+  DataDomeOutcome,
+  DEFAULT_FINGERPRINT,
+  StealthConfig,
 } from './stealth';
 import type { Property } from './types';
+import { BlockedError, PageParseError } from './errors';
+import type { PageArchive } from './archive';
+import type { RateLimiter } from './rate-limiter';
+import { AdaptiveRateLimiter, PaceSignal, paceKey } from './adaptive-limiter';
+import type { ProxyConfig, ProxyPool } from './proxy-pool';
+import type { Checkpoint } from './checkpoint';
+import { pageKind, ScrapeMetrics } from './metrics';
+import { buildSearchUrl, searchIdFor, SearchFilters } from './search-filters';
+import {
+  MAX_PAGES_PER_SEARCH,
+  PartitionOptions,
+  mergePartitionResults,
+  planPartitions,
+} from './partition';
 import { delay as sleep } from './utils';
 import { parseNextData, IdealistaNextData } from './parser.js';
+import {
+  classifyListingPage,
+  ListingCheck,
+  mergePropertyDetail,
+  parseDetailNextData,
+  PropertyDetail,
+} from './detail-parser';
 
 const BASE_URL = 'https://www.idealista.pt';
 
-// Popular Portuguese locations for property searches
-export const PORTUGUESE_LOCATIONS = [
-  'lisboa',
-  'porto',
-  'faro',
-  'braga',
-  'coimbra',
-  'funchal',
-  'setubal',
-  'aveiro',
-  'evora',
-  'leiria',
-  'cascais',
-  'sintra',
-  'matosinhos',
-  'almada',
-  'portimao',
-];
+// Soft DataDome challenges are retried after an increasing backoff
+const MAX_BLOCKED_RETRIES = 2;
+const BLOCKED_BACKOFF_MS = 30000;
+
+/**
+ * Launches the browser; replaceable so proxy rotation can be exercised without a real browser
+ */
+export type BrowserLauncher = (options: LaunchOptions) => Promise<Browser>;
 
 export interface ScraperOptions {
   headless?: boolean;
-  minDelayMs?: number;
-  maxDelayMs?: number;
-  proxy?: {
-    server: string;
-    username?: string;
-    password?: string;
-  };
+  proxy?: ProxyConfig;
+  /** Rotating proxy pool; takes precedence over `proxy` */
+  proxyPool?: ProxyPool;
+  /** Switch to the next pooled proxy before each location (default: true) */
+  rotatePerLocation?: boolean;
+  launcher?: BrowserLauncher;
+  /** Save every fetched page's raw HTML here for offline test fixtures */
+  recordFixturesDir?: string;
+  /** Archive every fetched page (URL, timestamp, status) for later replay */
+  archive?: PageArchive;
+  /** Read pages from this archive instead of launching a browser */
+  replay?: PageArchive;
+  /** Browser identity (user agent, viewport, locale, timezone, geolocation) */
+  fingerprint?: StealthConfig;
+  /** Shared limiter every page load waits on */
+  rateLimiter?: RateLimiter;
+  /** Per proxy and host pacing that adapts to blocks and latency (default: fresh, in-memory) */
+  paceLimiter?: AdaptiveRateLimiter;
+  /** Collector for pages fetched, blocked and failed, latency and bytes */
+  metrics?: ScrapeMetrics;
+  /** Stop after the current page once aborted; the checkpoint keeps the progress */
+  signal?: AbortSignal;
+}
+
+export interface DetailOptions {
+  /** Number of detail pages fetched in parallel (default: 2) */
+  concurrency?: number;
+  /** Base delay between detail page requests per worker (default: 3000) */
+  delayMs?: number;
 }
 
 export interface ScrapeResult {
   properties: Property[];
   totalFound: number;
   currentPage: number;
+  totalPages: number;
   hasNextPage: boolean;
 }
 
@@ -71,31 +110,56 @@ export class IdealistaScraper {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
+  private currentProxy: ProxyConfig | null = null;
+  // Page-1 results fetched while counting partitions, reused by the first scrapePage() of the search
+  private firstPageCache = new Map<string, ScrapeResult>();
   private options: ScraperOptions;
 
   constructor(options: ScraperOptions = {}) {
     this.options = {
       headless: options.headless ?? true,
-      minDelayMs: options.minDelayMs ?? 2000,
-      maxDelayMs: options.maxDelayMs ?? 4000,
       proxy: options.proxy,
+      proxyPool: options.proxyPool,
+      rotatePerLocation: options.rotatePerLocation ?? true,
+      launcher: options.launcher ?? ((launchOptions) => chromium.launch(launchOptions)),
+      recordFixturesDir: options.recordFixturesDir,
+      archive: options.archive,
+      replay: options.replay,
+      fingerprint: { ...DEFAULT_FINGERPRINT, ...options.fingerprint },
+      rateLimiter: options.rateLimiter,
+      paceLimiter: options.paceLimiter ?? new AdaptiveRateLimiter(),
+      metrics: options.metrics,
+      signal: options.signal,
     };
 
-    if (this.options.proxy) {
+    if (this.options.replay) {
+      this.logger.info(`[idealista] Replaying pages from ${this.options.replay.dir}`);
+    } else if (this.options.proxyPool) {
+      this.logger.info(`[idealista] Using proxy pool with ${this.options.proxyPool.size} proxies`);
+    } else if (this.options.proxy) {
       this.logger.info(`[idealista] Using proxy: ${this.options.proxy.server}`);
     } else {
       this.logger.warn('[idealista] No proxy configured - DataDome may block datacenter IPs');
     }
   }
 
+  /**
+   * Logger bound to the current proxy and the given context (location, page, propertyCode)
+   */
+  private log(context: LogContext = {}): Logger {
+    return this.logger.child({ proxy: this.currentProxy?.server, ...context });
+  }
+
   /**
    * Initialize browser with stealth settings
    */
   async initialize(): Promise<void> {
+    if (this.options.replay) return;
+
     this.logger.info('[idealista] Initializing stealth browser...');
 
     // Launch options
-    const launchOptions: Parameters<typeof chromium.launch>[0] = {
+    const launchOptions: LaunchOptions = {
       headless: this.options.headless,
       args: [
         '--disable-blink-features=AutomationControlled',
@@ -111,23 +175,35 @@ export class IdealistaScraper {
       ignoreDefaultArgs: ['--enable-automation'],
     };
 
-    // Add proxy if configured
-    if (this.options.proxy) {
+    // Add proxy if configured (pooled proxies are picked fresh on every launch)
+    if (this.options.proxyPool) {
+      this.currentProxy = this.options.proxyPool.next();
+      if (!this.currentProxy) {
+        throw new Error('No healthy proxies available in pool');
+      }
+      this.logger.info(`[idealista] Using pooled proxy: ${this.currentProxy.server}`);
+    } else {
+      this.currentProxy = this.options.proxy ?? null;
+    }
+
+    if (this.currentProxy) {
       launchOptions.proxy = {
-        server: this.options.proxy.server,
-        username: this.options.proxy.username,
-        password: this.options.proxy.password,
+        server: this.currentProxy.server,
+        username: this.currentProxy.username,
+        password: this.currentProxy.password,
       };
     }
 
-    this.browser = await chromium.launch(launchOptions);
+    this.browser = await this.options.launcher!(launchOptions);
 
-    // Create context with Portuguese locale
+    // Create context with Portuguese locale and this scraper's fingerprint
+    const fingerprint = this.options.fingerprint!;
     this.context = await this.browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      locale: 'pt-PT',
-      timezoneId: 'Europe/Lisbon',
-      geolocation: { latitude: 38.7223, longitude: -9.1393 }, // Lisbon
+      userAgent: fingerprint.userAgent,
+      viewport: fingerprint.viewport,
+      locale: fingerprint.locale,
+      timezoneId: fingerprint.timezone,
+      geolocation: fingerprint.geolocation,
       permissions: ['geolocation'],
       extraHTTPHeaders: {
         'Accept-Language': 'pt-PT,pt;q=0.9,en-US;q=0.8,en;q=0.7',
@@ -136,11 +212,7 @@ export class IdealistaScraper {
     });
 
     // Apply stealth configuration
-    await applyStealthConfig(this.context, {
-      locale: 'pt-PT',
-      timezone: 'Europe/Lisbon',
-      geolocation: { latitude: 38.7223, longitude: -9.1393 },
-    });
+    await applyStealthConfig(this.context, fingerprint);
 
     this.page = await this.context.newPage();
     await applyPageStealth(this.page);
@@ -155,9 +227,31 @@ export class IdealistaScraper {
     if (this.page) await this.page.close();
     if (this.context) await this.context.close();
     if (this.browser) await this.browser.close();
+    this.page = null;
+    this.context = null;
+    this.browser = null;
     this.logger.info('[idealista] Browser closed');
   }
 
+  /**
+   * Relaunch the browser with the next healthy proxy from the pool
+   *
+   * Returns false (leaving the browser untouched) when no pool is configured or
+   * no healthy proxy is left to switch to, e.g. a pool of one that was just blocked.
+   */
+  async rotateProxy(reason: string): Promise<boolean> {
+    if (!this.options.proxyPool || this.options.replay) return false;
+    if (this.options.proxyPool.healthyCount === 0) {
+      this.logger.warn(`[idealista] No healthy proxy to rotate to (${reason})`);
+      return false;
+    }
+
+    this.logger.info(`[idealista] Rotating proxy (${reason})`);
+    await this.close();
+    await this.initialize();
+    return true;
+  }
+
   /**
    * Handle cookie consent banners
    */
@@ -197,23 +291,126 @@ export class IdealistaScraper {
   }
 
   /**
-   * Build search URL for a location
+   * Build detail page URL for a listing
    */
-  private buildSearchUrl(
-    location: string,
-    transactionType: 'sale' | 'rent' = 'sale',
-    page: number = 1
-  ): string {
-    // Portuguese URL slugs: comprar-casas (buy) / arrendar-casas (rent)
-    const typeSlug = transactionType === 'sale' ? 'comprar-casas' : 'arrendar-casas';
-    const pageSlug = page > 1 ? `pagina-${page}.html` : '';
-    return `${BASE_URL}/${typeSlug}/${location}/${pageSlug}`;
+  private buildDetailUrl(propertyCode: string): string {
+    return `${BASE_URL}/imovel/${propertyCode}/`;
+  }
+
+  /**
+   * Save a page's raw HTML as a fixture, named after its URL path
+   * (e.g. comprar-casas_lisboa_pagina-2.html)
+   */
+  private async recordFixture(url: string, html: string): Promise<void> {
+    const dir = this.options.recordFixturesDir;
+    if (!dir) return;
+
+    const { pathname, search } = new URL(url);
+    const name =
+      `${pathname}${search}`
+        .replace(/\.html$/, '')
+        .replace(/[^a-z0-9-]+/gi, '_')
+        .replace(/^_+|_+$/g, '') || 'index';
+
+    try {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${name}.html`), html);
+      this.logger.info(`[idealista] Recorded fixture ${name}.html`);
+    } catch (error) {
+      this.logger.warn(`[idealista] Failed to record fixture for ${url}:`, error);
+    }
+  }
+
+  /**
+   * Add a fetched page to the archive, if one is configured
+   */
+  private async archivePage(
+    url: string,
+    html: string,
+    status: number | undefined,
+    outcome: DataDomeOutcome = 'clear'
+  ): Promise<void> {
+    if (!this.options.archive) return;
+
+    try {
+      await this.options.archive.save(url, html, { status, outcome });
+    } catch (error) {
+      this.logger.warn(`[idealista] Failed to archive ${url}:`, error);
+    }
+  }
+
+  /**
+   * Run the DataDome check, archiving challenged and blocked pages before rethrowing
+   */
+  private async checkDataDome(page: Page, url: string, status: number | undefined): Promise<void> {
+    try {
+      await bypassDataDome(page, { status });
+    } catch (error) {
+      if (error instanceof BlockedError) {
+        this.options.metrics?.recordBlocked(pageKind(url), error.outcome);
+        this.reportPace(
+          url,
+          error.outcome === 'hard_block' ? 'hard_block' : status === 429 ? 'rate_limited' : 'challenge'
+        );
+        const html = await page.content().catch(() => '');
+        await this.archivePage(url, html, status, error.outcome);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a page load at the current proxy's learned pace for the host, and
+   * within the shared rate limit if one is configured
+   */
+  private async paced<T>(url: string, load: () => Promise<T>): Promise<T> {
+    const limiter = this.options.paceLimiter!;
+    const key = paceKey(this.currentProxy?.server, url);
+
+    await limiter.acquire(key);
+    try {
+      return this.options.rateLimiter ? await this.options.rateLimiter.schedule(load) : await load();
+    } catch (error) {
+      if (!(error instanceof BlockedError)) {
+        this.options.metrics?.recordFailure(pageKind(url));
+        if (error instanceof Error && /timeout/i.test(error.message)) {
+          this.reportPace(url, 'slow');
+        }
+      }
+      throw error;
+    } finally {
+      limiter.release(key);
+    }
+  }
+
+  private reportPace(url: string, signal: PaceSignal, latencyMs?: number): void {
+    this.options.paceLimiter!.report(paceKey(this.currentProxy?.server, url), signal, latencyMs);
+  }
+
+  /**
+   * Wait until the page's __NEXT_DATA__ is in the DOM (challenge pages never get one)
+   */
+  private async waitForNextData(page: Page): Promise<void> {
+    await page
+      .waitForSelector('#__NEXT_DATA__', { state: 'attached', timeout: 5000 })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Read a page from the replay archive; null when it was never archived
+   */
+  private async replayPage(url: string): Promise<string | null> {
+    const html = await this.options.replay!.read(url);
+    if (html === null) {
+      this.logger.warn(`[idealista] Not in replay archive: ${url}`);
+    }
+    return html;
   }
 
   /**
    * Extract __NEXT_DATA__ JSON from page HTML
    */
-  private extractNextData(html: string): IdealistaNextData | null {
+  extractNextData(html: string): IdealistaNextData | null {
     try {
       const $ = load(html);
       const scriptTag = $('#__NEXT_DATA__');
@@ -239,63 +436,50 @@ export class IdealistaScraper {
 
   /**
    * Scrape a single page of listings
+   *
+   * Throws PageParseError when the page has no listing data, so callers
+   * neither checkpoint it nor take it for the last page.
    */
   async scrapePage(
     location: string,
     transactionType: 'sale' | 'rent' = 'sale',
-    pageNumber: number = 1
+    pageNumber: number = 1,
+    filters: SearchFilters = {}
   ): Promise<ScrapeResult> {
-    if (!this.page) {
+    if (!this.page && !this.options.replay) {
       throw new Error('Browser not initialized. Call initialize() first.');
     }
 
-    const url = this.buildSearchUrl(location, transactionType, pageNumber);
-    this.logger.info(`[idealista] Scraping: ${url}`);
-
-    try {
-      // Navigate to page
-      await this.page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
-
-      // Wait for page to load
-      await sleep(2000);
-
-      // Check for DataDome
-      await bypassDataDome(this.page);
-
-      // Handle cookie consent (look for common buttons)
-      await sleep(1000);
-      await this.handleCookieConsent();
+    const url = buildSearchUrl(location, transactionType, pageNumber, filters);
+    const log = this.log({ location, page: pageNumber });
 
-      // Scroll to simulate human behavior
-      await humanScroll(this.page, 500);
-      await sleep(1000);
+    const cached = this.firstPageCache.get(url);
+    if (cached) {
+      this.firstPageCache.delete(url);
+      log.info(`[idealista] Using cached results for ${url}`);
+      return cached;
+    }
 
-      // Wait a bit more
-      const delay = Math.floor(
-        Math.random() * (this.options.maxDelayMs! - this.options.minDelayMs!) +
-          this.options.minDelayMs!
-      );
-      await sleep(delay);
+    log.info(`[idealista] Scraping: ${url}`);
 
-      // Get page HTML
-      const html = await this.page.content();
+    try {
+      const html = this.options.replay
+        ? await this.replayPage(url)
+        : await this.paced(url, () => this.fetchSearchPage(url));
+      if (html === null) throw new PageParseError(url, 'Not in replay archive');
 
       // Extract __NEXT_DATA__
       const nextData = this.extractNextData(html);
       if (!nextData) {
-        this.logger.error('[idealista] Failed to extract Next.js data');
-        return {
-          properties: [],
-          totalFound: 0,
-          currentPage: pageNumber,
-          hasNextPage: false,
-        };
+        this.options.metrics?.recordParseFailure('search');
+        throw new PageParseError(url, 'No Next.js data in page');
       }
 
       // Parse properties from Next.js data
       const properties = parseNextData(nextData, location);
+      this.options.metrics?.recordProperties(location, properties.length);
 
-      this.logger.info(`[idealista] Found ${properties.length} properties on page ${pageNumber}`);
+      log.info(`[idealista] Found ${properties.length} properties on page ${pageNumber}`);
 
       // Determine if there's a next page
       const hasNextPage = this.hasNextPage(nextData);
@@ -304,64 +488,147 @@ export class IdealistaScraper {
         properties,
         totalFound: this.getTotalCount(nextData),
         currentPage: pageNumber,
+        totalPages: nextData.props?.pageProps?.searchData?.totalPages || 1,
         hasNextPage,
       };
     } catch (error) {
-      this.logger.error(`[idealista] Error scraping page ${pageNumber}:`, error);
+      log.error(`[idealista] Error scraping page ${pageNumber}:`, error);
+      if (error instanceof BlockedError) {
+        this.reportProxy('block');
+      } else if (error instanceof Error && /timeout|net::/i.test(error.message)) {
+        this.reportProxy('failure');
+      }
       throw error;
     }
   }
 
+  /**
+   * Load a search results page in the browser and return its HTML
+   */
+  private async fetchSearchPage(url: string): Promise<string> {
+    const page = this.page!;
+
+    // Navigate to page
+    const startedAt = Date.now();
+    const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+    const latencyMs = Date.now() - startedAt;
+    const status = response?.status();
+
+    // Wait for page to load
+    await this.waitForNextData(page);
+
+    // Check for DataDome (throws BlockedError if challenged or blocked)
+    await this.checkDataDome(page, url, status);
+    this.reportProxy('success', latencyMs);
+    this.reportPace(url, 'success', latencyMs);
+
+    // Handle cookie consent (look for common buttons)
+    await this.handleCookieConsent();
+
+    // Scroll to simulate human behavior
+    await humanScroll(page, 500);
+
+    // Get page HTML
+    const html = await page.content();
+    this.options.metrics?.recordPage('search', latencyMs, Buffer.byteLength(html));
+    await this.recordFixture(url, html);
+    await this.archivePage(url, html, status);
+    return html;
+  }
+
   /**
    * Scrape multiple pages for a location
    */
   async scrapeLocation(
     location: string,
     transactionType: 'sale' | 'rent' = 'sale',
-    options: { maxPages?: number; limit?: number } = {}
+    options: { maxPages?: number; limit?: number; filters?: SearchFilters; checkpoint?: Checkpoint } = {}
   ): Promise<Property[]> {
-    const { maxPages = 5, limit } = options;
+    const { maxPages = 5, limit, filters = {}, checkpoint } = options;
     const allProperties: Property[] = [];
+    const searchId = searchIdFor(location, filters);
+    const searchDone = checkpoint?.isSearchDone(searchId, transactionType) ?? false;
+    let blockedRetries = 0;
+    const maxBlockedRetries = this.options.proxyPool
+      ? Math.max(MAX_BLOCKED_RETRIES, this.options.proxyPool.size)
+      : MAX_BLOCKED_RETRIES;
 
-    this.logger.info(`[idealista] Starting scrape for ${location} (${transactionType})`);
-    this.logger.info(`[idealista] Max pages: ${maxPages}, Limit: ${limit || 'none'}`);
+    const log = this.log({ location: searchId });
+    log.info(`[idealista] Starting scrape for ${searchId} (${transactionType})`);
+    log.info(`[idealista] Max pages: ${maxPages}, Limit: ${limit || 'none'}`);
 
     for (let page = 1; page <= maxPages; page++) {
+      const pageLog = this.log({ location: searchId, page });
+      // Replay pages already completed by a resumed run
+      const savedPage = checkpoint?.getPage(searchId, transactionType, page);
+      if (savedPage) {
+        allProperties.push(...savedPage);
+        pageLog.info(`[idealista] Page ${page} restored from checkpoint (${savedPage.length} properties)`);
+        if (limit && allProperties.length >= limit) break;
+        continue;
+      }
+      if (searchDone) break;
+      if (this.options.signal?.aborted) {
+        log.info('[idealista] Run aborted, stopping scrape');
+        break;
+      }
+
       try {
-        const result = await this.scrapePage(location, transactionType, page);
+        const result = await this.scrapePage(location, transactionType, page, filters);
 
         // Add properties
         allProperties.push(...result.properties);
+        blockedRetries = 0;
+        await checkpoint?.markPageDone(searchId, transactionType, page, result.properties);
 
-        this.logger.info(`[idealista] Total scraped: ${allProperties.length} properties`);
+        pageLog.info(`[idealista] Total scraped: ${allProperties.length} properties`);
 
         // Check if we've reached the limit
         if (limit && allProperties.length >= limit) {
-          this.logger.info(`[idealista] Reached limit of ${limit} properties`);
+          pageLog.info(`[idealista] Reached limit of ${limit} properties`);
+          await checkpoint?.markSearchDone(searchId, transactionType);
           break;
         }
 
         // Check if there's a next page
         if (!result.hasNextPage) {
-          this.logger.info('[idealista] No more pages available');
+          pageLog.info('[idealista] No more pages available');
+          await checkpoint?.markSearchDone(searchId, transactionType);
           break;
         }
-
-        // Delay between pages
-        if (page < maxPages) {
-          const delay = Math.floor(
-            Math.random() * (this.options.maxDelayMs! - this.options.minDelayMs!) +
-              this.options.minDelayMs!
-          );
-          this.logger.info(`[idealista] Waiting ${delay}ms before next page...`);
-          await sleep(delay);
-        }
       } catch (error) {
-        this.logger.error(`[idealista] Error on page ${page}:`, error);
-        // Continue to next page or break depending on error
-        if (error instanceof Error && error.message.includes('blocked')) {
-          this.logger.error('[idealista] Blocked by anti-bot, stopping scrape');
-          break;
+        pageLog.error(`[idealista] Error on page ${page}:`, error);
+        // Blocks are retried below; other failures move on to the next page. The failed
+        // page isn't checkpointed, so the search isn't marked done and --resume fetches it again
+        if (error instanceof BlockedError) {
+          if (blockedRetries >= maxBlockedRetries) {
+            pageLog.error('[idealista] Blocked by anti-bot, stopping scrape');
+            break;
+          }
+          blockedRetries++;
+
+          // With another healthy proxy in the pool, switch identity and retry the same page straight away
+          let rotated = false;
+          try {
+            rotated = await this.rotateProxy(`${error.outcome} on page ${page}`);
+          } catch (rotateError) {
+            pageLog.error('[idealista] Proxy rotation failed, stopping scrape:', rotateError);
+            break;
+          }
+          if (rotated) {
+            page--;
+            continue;
+          }
+
+          if (error.outcome === 'hard_block') {
+            pageLog.error('[idealista] Blocked by anti-bot, stopping scrape');
+            break;
+          }
+          // Soft challenge: back off and retry the same page
+          const backoff = BLOCKED_BACKOFF_MS * blockedRetries;
+          pageLog.warn(`[idealista] DataDome challenge, backing off ${backoff}ms before retrying`);
+          await sleep(backoff);
+          page--;
         }
       }
     }
@@ -369,29 +636,119 @@ export class IdealistaScraper {
     // Trim to limit if specified
     const finalProperties = limit ? allProperties.slice(0, limit) : allProperties;
 
-    this.logger.info(`[idealista] Scrape complete: ${finalProperties.length} properties`);
+    log.info(`[idealista] Scrape complete: ${finalProperties.length} properties`);
     return finalProperties;
   }
 
+  /**
+   * Total number of results for a search, from its first page
+   */
+  async countResults(
+    location: string,
+    transactionType: 'sale' | 'rent' = 'sale',
+    filters: SearchFilters = {}
+  ): Promise<number> {
+    const result = await this.scrapePage(location, transactionType, 1, filters);
+    this.firstPageCache.set(buildSearchUrl(location, transactionType, 1, filters), result);
+    return result.totalFound;
+  }
+
+  /**
+   * Scrape a location in full despite idealista's 60-page cap
+   *
+   * Oversized searches are split by price band, typology or sub-area (see
+   * partition.ts) and each partition is scraped separately; results are merged
+   * and de-duplicated by ID.
+   */
+  async scrapePartitioned(
+    location: string,
+    transactionType: 'sale' | 'rent' = 'sale',
+    options: {
+      maxPages?: number;
+      limit?: number;
+      filters?: SearchFilters;
+      checkpoint?: Checkpoint;
+      partition?: PartitionOptions;
+    } = {}
+  ): Promise<Property[]> {
+    const { maxPages = MAX_PAGES_PER_SEARCH, limit, filters = {}, checkpoint } = options;
+
+    const partitions = await planPartitions(
+      location,
+      filters,
+      (partLocation, partFilters) => this.countResults(partLocation, transactionType, partFilters),
+      options.partition
+    );
+
+    const results: Property[][] = [];
+    let scraped = 0;
+
+    for (const partition of partitions) {
+      if (this.options.signal?.aborted) break;
+      const properties = await this.scrapeLocation(partition.location, transactionType, {
+        maxPages: Math.min(maxPages, MAX_PAGES_PER_SEARCH),
+        limit: limit ? limit - scraped : undefined,
+        filters: partition.filters,
+        checkpoint,
+      });
+      results.push(properties);
+      scraped += properties.length;
+
+      if (limit && scraped >= limit) break;
+    }
+
+    this.firstPageCache.clear();
+
+    const merged = mergePartitionResults(results);
+    this.logger.info(
+      `[idealista] Partitioned scrape complete: ${merged.length} unique properties from ${partitions.length} partitions`
+    );
+    return limit ? merged.slice(0, limit) : merged;
+  }
+
   /**
    * Scrape multiple locations
    */
   async scrapeLocations(
     locations: string[],
     transactionType: 'sale' | 'rent' = 'sale',
-    options: { maxPagesPerLocation?: number; limit?: number } = {}
+    options: {
+      maxPagesPerLocation?: number;
+      limit?: number;
+      filters?: SearchFilters;
+      checkpoint?: Checkpoint;
+      /** Split oversized searches to get past the 60-page cap */
+      partition?: boolean | PartitionOptions;
+    } = {}
   ): Promise<Property[]> {
-    const { maxPagesPerLocation = 3, limit } = options;
+    const { maxPagesPerLocation = 3, limit, filters, checkpoint, partition } = options;
     const allProperties: Property[] = [];
 
     this.logger.info(`[idealista] Scraping ${locations.length} locations`);
 
     for (const location of locations) {
+      if (this.options.signal?.aborted) break;
       try {
-        const properties = await this.scrapeLocation(location, transactionType, {
+        if (
+          this.options.rotatePerLocation &&
+          locations.indexOf(location) > 0 &&
+          !checkpoint?.isSearchDone(searchIdFor(location, filters), transactionType)
+        ) {
+          await this.rotateProxy(`new location ${location}`);
+        }
+
+        const locationOptions = {
           maxPages: maxPagesPerLocation,
           limit: limit ? limit - allProperties.length : undefined,
-        });
+          filters,
+          checkpoint,
+        };
+        const properties = partition
+          ? await this.scrapePartitioned(location, transactionType, {
+              ...locationOptions,
+              partition: typeof partition === 'object' ? partition : undefined,
+            })
+          : await this.scrapeLocation(location, transactionType, locationOptions);
 
         allProperties.push(...properties);
 
@@ -402,11 +759,6 @@ export class IdealistaScraper {
           this.logger.info(`[idealista] Reached overall limit of ${limit} properties`);
           break;
         }
-
-        // Delay between locations
-        if (locations.indexOf(location) < locations.length - 1) {
-          await sleep(3000 + Math.random() * 2000);
-        }
       } catch (error) {
         this.logger.error(`[idealista] Error scraping ${location}:`, error);
         // Continue with next location
@@ -416,6 +768,160 @@ export class IdealistaScraper {
     return allProperties;
   }
 
+  /**
+   * Scrape a listing detail page
+   *
+   * Uses the given page (so several detail fetches can share the context),
+   * defaulting to the main scraper page.
+   */
+  async scrapeDetail(propertyCode: string, page: Page | null = this.page): Promise<PropertyDetail | null> {
+    if (!page && !this.options.replay) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    const url = this.buildDetailUrl(propertyCode);
+    const log = this.log({ propertyCode });
+    log.info(`[idealista] Scraping detail: ${url}`);
+
+    const html = this.options.replay
+      ? await this.replayPage(url)
+      : (await this.paced(url, () => this.fetchDetailPage(url, page!))).html;
+    if (html === null) return null;
+
+    const nextData = this.extractNextData(html);
+    if (!nextData) {
+      log.error(`[idealista] Failed to extract Next.js data for ${propertyCode}`);
+      this.options.metrics?.recordParseFailure('detail');
+      return null;
+    }
+
+    const detail = parseDetailNextData(nextData);
+    if (!detail) this.options.metrics?.recordParseFailure('detail');
+    return detail;
+  }
+
+  /**
+   * Visit a stored listing's detail page to see whether it is still online
+   *
+   * Returns a null status when the page doesn't tell, including when a
+   * replayed run never archived it. Throws BlockedError like scrapeDetail.
+   */
+  async checkListing(propertyCode: string, page: Page | null = this.page): Promise<ListingCheck> {
+    if (!page && !this.options.replay) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    const url = this.buildDetailUrl(propertyCode);
+    this.log({ propertyCode }).info(`[idealista] Checking listing: ${url}`);
+
+    let fetched: { html: string; status?: number; url: string };
+    if (this.options.replay) {
+      const html = await this.replayPage(url);
+      if (html === null) return { status: null, reason: 'Not in replay archive' };
+      fetched = { html, status: this.options.replay.lookup(url)?.status, url };
+    } else {
+      fetched = await this.paced(url, () => this.fetchDetailPage(url, page!));
+    }
+
+    // Error pages have no __NEXT_DATA__, which is expected here rather than a parse failure
+    const nextData = fetched.html.includes('id="__NEXT_DATA__"') ? this.extractNextData(fetched.html) : null;
+    return classifyListingPage({ ...fetched, propertyCode, nextData });
+  }
+
+  /**
+   * Load a listing detail page in the browser and return its HTML, with the
+   * response status and the URL it ended up on
+   */
+  private async fetchDetailPage(url: string, page: Page): Promise<{ html: string; status?: number; url: string }> {
+    const startedAt = Date.now();
+    const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+    const latencyMs = Date.now() - startedAt;
+    const status = response?.status();
+    await this.waitForNextData(page);
+    await this.checkDataDome(page, url, status);
+    this.reportPace(url, 'success', latencyMs);
+    await humanScroll(page, 400);
+
+    const html = await page.content();
+    this.options.metrics?.recordPage('detail', latencyMs, Buffer.byteLength(html));
+    await this.recordFixture(url, html);
+    await this.archivePage(url, html, status);
+    return { html, status, url: page.url() };
+  }
+
+  /**
+   * Visit each listing's detail page and merge the extra fields into the Property
+   *
+   * Runs `concurrency` workers, each with its own page in the shared context.
+   * Listings whose detail page fails are returned unchanged.
+   */
+  async enrichWithDetails(properties: Property[], options: DetailOptions = {}): Promise<Property[]> {
+    if (!this.context && !this.options.replay) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    const { concurrency = 2, delayMs = 3000 } = options;
+    const enriched = [...properties];
+    let next = 0;
+    let succeeded = 0;
+
+    this.logger.info(
+      `[idealista] Fetching details for ${properties.length} properties (concurrency: ${concurrency})`
+    );
+
+    const worker = async (): Promise<void> => {
+      // Replayed detail pages come from the archive, so workers need no browser page
+      const page = this.options.replay ? null : await this.context!.newPage();
+      if (page) await applyPageStealth(page);
+
+      try {
+        while (next < enriched.length && !this.options.signal?.aborted) {
+          const index = next++;
+          const property = enriched[index];
+          const propertyCode = property.url.match(/\/imovel\/(\d+)/)?.[1] || property.id;
+
+          try {
+            const detail = await this.scrapeDetail(propertyCode, page);
+            if (detail) {
+              enriched[index] = mergePropertyDetail(property, detail);
+              succeeded++;
+            }
+          } catch (error) {
+            this.log({ propertyCode }).error(`[idealista] Error scraping detail ${propertyCode}:`, error);
+            if (error instanceof BlockedError && error.outcome === 'hard_block') {
+              this.logger.error('[idealista] Blocked by anti-bot, stopping detail fetch');
+              next = enriched.length;
+            }
+          }
+
+          if (next < enriched.length && !this.options.replay) {
+            await sleep(delayMs + Math.floor(Math.random() * delayMs * 0.5));
+          }
+        }
+      } finally {
+        await page?.close();
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, enriched.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    this.logger.info(`[idealista] Enriched ${succeeded}/${properties.length} properties with details`);
+    return enriched;
+  }
+
+  /**
+   * Feed the outcome of a page load back into the proxy pool
+   */
+  private reportProxy(outcome: 'success' | 'block' | 'failure', latencyMs = 0): void {
+    const pool = this.options.proxyPool;
+    if (!pool || !this.currentProxy) return;
+
+    if (outcome === 'success') pool.reportSuccess(this.currentProxy, latencyMs);
+    else if (outcome === 'block') pool.reportBlock(this.currentProxy);
+    else pool.reportFailure(this.currentProxy);
+  }
+
   /**
    * Extract total count from Next.js data
    */
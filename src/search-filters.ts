@@ -0,0 +1,205 @@
+/**
+ * Search filters and URL generation for idealista.pt
+ *
+ * Idealista encodes the property category in the first path segment and the
+ * remaining filters as a comma-separated "com-" segment after the location:
+ *
+ *   https://www.idealista.pt/comprar-casas/lisboa/com-preco-max_300000,t2,t3/pagina-2.html?ordem=precos-asc
+ *   \___________________/ \___________/ \____/ \_______________________/ \__________/ \____________/
+ *          base             category   location        filters             page          sort
+ */
+
+const BASE_URL = 'https://www.idealista.pt';
+
+export type TransactionType = 'sale' | 'rent';
+
+export type PropertyCategory =
+  | 'homes'
+  | 'offices'
+  | 'premises'
+  | 'garages'
+  | 'land'
+  | 'rooms'
+  | 'storage'
+  | 'buildings';
+
+export type SortOrder =
+  | 'relevance'
+  | 'price-asc'
+  | 'price-desc'
+  | 'newest'
+  | 'updated'
+  | 'size-asc'
+  | 'size-desc';
+
+/**
+ * Bedroom count as a Portuguese typology: 0 = T0, ..., 5 = T5 or more
+ */
+export type Bedrooms = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SearchFilters {
+  category?: PropertyCategory;
+  minPrice?: number;
+  maxPrice?: number;
+  /** Typologies to include; several values are OR-ed by idealista */
+  bedrooms?: Bedrooms[];
+  /** Size in m² */
+  minSize?: number;
+  maxSize?: number;
+  newDevelopment?: boolean;
+  sort?: SortOrder;
+}
+
+const CATEGORY_SLUGS: Record<PropertyCategory, string> = {
+  homes: 'casas',
+  offices: 'escritorios',
+  premises: 'lojas-ou-armazens',
+  garages: 'garagens',
+  land: 'terrenos',
+  rooms: 'quartos',
+  storage: 'arrecadacoes',
+  buildings: 'predios',
+};
+
+const TRANSACTION_SLUGS: Record<TransactionType, string> = {
+  sale: 'comprar',
+  rent: 'arrendar',
+};
+
+const BEDROOM_SEGMENTS: Record<Bedrooms, string> = {
+  0: 't0',
+  1: 't1',
+  2: 't2',
+  3: 't3',
+  4: 't4',
+  5: 't5-ou-mais',
+};
+
+const SORT_PARAMS: Record<SortOrder, string | undefined> = {
+  relevance: undefined,
+  'price-asc': 'precos-asc',
+  'price-desc': 'precos-desc',
+  newest: 'publicado-desc',
+  updated: 'atualizado-desc',
+  'size-asc': 'area-asc',
+  'size-desc': 'area-desc',
+};
+
+export const PROPERTY_CATEGORIES = Object.keys(CATEGORY_SLUGS) as PropertyCategory[];
+export const SORT_ORDERS = Object.keys(SORT_PARAMS) as SortOrder[];
+
+/**
+ * Check filters for values idealista cannot express, throwing on the first problem
+ */
+export function validateSearchFilters(
+  filters: SearchFilters,
+  transactionType: TransactionType = 'sale'
+): void {
+  const { category, minPrice, maxPrice, minSize, maxSize, bedrooms, sort } = filters;
+
+  if (category && !CATEGORY_SLUGS[category]) {
+    throw new Error(`Unknown property category: ${category}`);
+  }
+  if (category === 'rooms' && transactionType !== 'rent') {
+    throw new Error('Rooms can only be searched for rent');
+  }
+  for (const [name, value] of Object.entries({ minPrice, maxPrice, minSize, maxSize })) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+  }
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new Error(`minPrice (${minPrice}) is greater than maxPrice (${maxPrice})`);
+  }
+  if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+    throw new Error(`minSize (${minSize}) is greater than maxSize (${maxSize})`);
+  }
+  for (const value of bedrooms || []) {
+    if (BEDROOM_SEGMENTS[value] === undefined) {
+      throw new Error(`Invalid bedrooms value: ${value} (use 0-5, 5 meaning T5 or more)`);
+    }
+  }
+  if (sort && !(sort in SORT_PARAMS)) {
+    throw new Error(`Unknown sort order: ${sort}`);
+  }
+}
+
+/**
+ * Build the comma-separated filter segment, e.g. "com-preco-min_100000,t2" ('' when unfiltered)
+ *
+ * Segment order is fixed so the same filters always produce the same URL.
+ */
+export function buildFilterSegment(filters: SearchFilters = {}): string {
+  const parts: string[] = [];
+
+  if (filters.maxPrice !== undefined) parts.push(`preco-max_${Math.round(filters.maxPrice)}`);
+  if (filters.minPrice !== undefined) parts.push(`preco-min_${Math.round(filters.minPrice)}`);
+  if (filters.maxSize !== undefined) parts.push(`tamanho-max_${Math.round(filters.maxSize)}`);
+  if (filters.minSize !== undefined) parts.push(`tamanho-min_${Math.round(filters.minSize)}`);
+
+  const bedrooms = [...new Set(filters.bedrooms || [])].sort((a, b) => a - b);
+  parts.push(...bedrooms.map((value) => BEDROOM_SEGMENTS[value]));
+
+  if (filters.newDevelopment) parts.push('obra-nova');
+
+  return parts.length > 0 ? `com-${parts.join(',')}` : '';
+}
+
+/**
+ * Build a search results URL for a location, transaction type, page and filters
+ */
+export function buildSearchUrl(
+  location: string,
+  transactionType: TransactionType = 'sale',
+  page: number = 1,
+  filters: SearchFilters = {}
+): string {
+  validateSearchFilters(filters, transactionType);
+
+  // Portuguese URL slugs: comprar-casas (buy) / arrendar-casas (rent)
+  const typeSlug = `${TRANSACTION_SLUGS[transactionType]}-${CATEGORY_SLUGS[filters.category || 'homes']}`;
+  const filterSegment = buildFilterSegment(filters);
+  const pageSlug = page > 1 ? `pagina-${page}.html` : '';
+
+  const path = [typeSlug, location, filterSegment].filter(Boolean).join('/');
+  const sortParam = filters.sort ? SORT_PARAMS[filters.sort] : undefined;
+  const query = sortParam ? `?ordem=${sortParam}` : '';
+
+  return `${BASE_URL}/${path}/${pageSlug}${query}`;
+}
+
+/**
+ * Stable identifier for a filtered search, used to key checkpoints ("" when unfiltered)
+ */
+export function describeSearchFilters(filters: SearchFilters = {}): string {
+  const typeSlug = filters.category && filters.category !== 'homes' ? CATEGORY_SLUGS[filters.category] : '';
+  const sortParam = filters.sort ? SORT_PARAMS[filters.sort] : undefined;
+  return [typeSlug, buildFilterSegment(filters), sortParam ? `ordem=${sortParam}` : '']
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Checkpoint key for a search: filtered searches of the same location are tracked separately
+ */
+export function searchIdFor(location: string, filters: SearchFilters = {}): string {
+  const filterId = describeSearchFilters(filters);
+  return filterId ? `${location}/${filterId}` : location;
+}
+
+/**
+ * Parse a CLI bedroom list like "0,2,5+" or "t1,t2" into typology values
+ */
+export function parseBedrooms(value: string): Bedrooms[] {
+  return value
+    .split(',')
+    .map((part) => part.trim().toLowerCase().replace(/^t/, ''))
+    .filter(Boolean)
+    .map((part) => {
+      const n = parseInt(part.replace(/\+$/, ''), 10);
+      if (Number.isNaN(n) || n < 0) {
+        throw new Error(`Invalid bedrooms value: ${part}`);
+      }
+      return Math.min(n, 5) as Bedrooms;
+    });
+}
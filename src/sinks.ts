@@ -0,0 +1,389 @@
+/**
+ * File output sinks
+ *
+ * Write a run's properties to local files so they can be analysed without
+ * Redis or the Core Service API:
+ *
+ *   jsonl   - one JSON record per line, as-is
+ *   csv     - fixed columns (dotted paths), arrays joined with "|"
+ *   ndjson  - flat NDJSON: the CSV columns as snake_case keys, present on every
+ *             record with stable types, so it loads straight into Parquet/DuckDB
+ *   sqlite  - a `properties` table upserted by portal_id
+ *
+ * Records are either the scraper's Property shape or the Core Service
+ * StandardProperty shape (plus its portal_id).
+ */
+
+import { createWriteStream, existsSync, statSync, WriteStream } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import { createLogger } from './logger';
+import { transformToStandard } from './transformer';
+import type { Property } from './types';
+
+const logger = createLogger('sinks');
+
+export const OUTPUT_FORMATS = ['jsonl', 'csv', 'ndjson', 'sqlite'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const OUTPUT_SHAPES = ['property', 'standard'] as const;
+export type OutputShape = (typeof OUTPUT_SHAPES)[number];
+
+export interface OutputSink {
+  readonly path: string;
+  write(properties: Property[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+const PROPERTY_COLUMNS = [
+  'id',
+  'source',
+  'url',
+  'title',
+  'price',
+  'priceByArea',
+  'currency',
+  'propertyType',
+  'transactionType',
+  'status',
+  'location.address',
+  'location.city',
+  'location.region',
+  'location.postcode',
+  'location.country',
+  'location.coordinates.lat',
+  'location.coordinates.lon',
+  'location.geohash',
+  'location.district',
+  'location.concelho',
+  'location.freguesia',
+  'details.sqm',
+  'details.rooms',
+  'details.bedrooms',
+  'details.typology',
+  'details.bathrooms',
+  'details.floor',
+  'details.totalFloors',
+  'details.constructionYear',
+  'details.energyRating',
+  'details.condition',
+  'agent.name',
+  'agent.agency',
+  'agent.phone',
+  'features',
+  'images',
+  'description',
+  'scrapedAt',
+];
+
+const STANDARD_COLUMNS = [
+  'portal_id',
+  'source_url',
+  'title',
+  'price',
+  'currency',
+  'price_per_sqm',
+  'property_type',
+  'transaction_type',
+  'status',
+  'location.address',
+  'location.city',
+  'location.region',
+  'location.postal_code',
+  'location.country',
+  'location.coordinates.lat',
+  'location.coordinates.lon',
+  'location.geohash',
+  'details.sqm',
+  'details.rooms',
+  'details.bedrooms',
+  'details.bathrooms',
+  'details.floor',
+  'details.total_floors',
+  'details.year_built',
+  'energy_rating',
+  'agent.name',
+  'agent.agency',
+  'agent.phone',
+  'features',
+  'images',
+  'description',
+  'country_specific',
+];
+
+/**
+ * A property in the requested output shape
+ */
+export function toRecord(property: Property, shape: OutputShape): Record<string, any> {
+  return shape === 'standard' ? { portal_id: property.id, ...transformToStandard(property) } : property;
+}
+
+/**
+ * Column paths written for a shape by the CSV and flat NDJSON sinks
+ */
+export function columnsFor(shape: OutputShape): string[] {
+  return shape === 'standard' ? STANDARD_COLUMNS : PROPERTY_COLUMNS;
+}
+
+function getPath(record: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value?.[key], record);
+}
+
+/**
+ * Flatten a record to one value per column; arrays stay arrays, objects become JSON
+ */
+export function flattenRecord(record: Record<string, any>, columns: string[]): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  for (const column of columns) {
+    const value = getPath(record, column);
+    const key = column.replace(/\./g, '_').replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+
+    if (value === undefined || value === null) {
+      flat[key] = null;
+    } else if (Array.isArray(value)) {
+      flat[key] = value.map((item) => (typeof item === 'object' ? JSON.stringify(item) : String(item)));
+    } else if (typeof value === 'object') {
+      flat[key] = JSON.stringify(value);
+    } else {
+      flat[key] = value;
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Quote a CSV field per RFC 4180
+ */
+export function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  const text = Array.isArray(value)
+    ? value.join('|')
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Base for sinks that append lines to a file
+ */
+abstract class LineSink implements OutputSink {
+  private stream: WriteStream | null = null;
+
+  constructor(
+    readonly path: string,
+    protected shape: OutputShape
+  ) {}
+
+  async write(properties: Property[]): Promise<void> {
+    const stream = await this.open();
+    const lines = properties.map((property) => this.formatLine(toRecord(property, this.shape)));
+    if (lines.length === 0) return;
+
+    await new Promise<void>((resolve, reject) =>
+      stream.write(`${lines.join('\n')}\n`, (error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  async close(): Promise<void> {
+    if (!this.stream) return;
+    const stream = this.stream;
+    this.stream = null;
+    await new Promise<void>((resolve) => stream.end(resolve));
+  }
+
+  protected abstract formatLine(record: Record<string, any>): string;
+
+  /** Called once before the first line is written to a new file */
+  protected header(): string | null {
+    return null;
+  }
+
+  private async open(): Promise<WriteStream> {
+    if (this.stream) return this.stream;
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const isNewFile = !existsSync(this.path) || statSync(this.path).size === 0;
+    this.stream = createWriteStream(this.path, { flags: 'a' });
+
+    const header = isNewFile ? this.header() : null;
+    if (header) this.stream.write(`${header}\n`);
+    return this.stream;
+  }
+}
+
+export class JsonlSink extends LineSink {
+  protected formatLine(record: Record<string, any>): string {
+    return JSON.stringify(record);
+  }
+}
+
+export class FlatNdjsonSink extends LineSink {
+  protected formatLine(record: Record<string, any>): string {
+    return JSON.stringify(flattenRecord(record, columnsFor(this.shape)));
+  }
+}
+
+/**
+ * Appends to an existing CSV without repeating the header; the columns are fixed per shape
+ */
+export class CsvSink extends LineSink {
+  protected header(): string {
+    return columnsFor(this.shape).map(csvField).join(',');
+  }
+
+  protected formatLine(record: Record<string, any>): string {
+    return columnsFor(this.shape)
+      .map((column) => csvField(getPath(record, column)))
+      .join(',');
+  }
+}
+
+/**
+ * Upserts into a `properties` table keyed by portal_id
+ *
+ * Common fields get their own columns for querying; the full record (in the
+ * requested shape) is kept as JSON in `data`. `first_seen_at` survives updates.
+ */
+export class SqliteSink implements OutputSink {
+  private db: Database.Database | null = null;
+  private upsert: Database.Statement | null = null;
+
+  constructor(
+    readonly path: string,
+    private shape: OutputShape
+  ) {}
+
+  async write(properties: Property[]): Promise<void> {
+    const upsert = await this.open();
+    const now = new Date().toISOString();
+
+    const writeAll = this.db!.transaction((batch: Property[]) => {
+      for (const property of batch) {
+        const standard = transformToStandard(property);
+        upsert.run({
+          portal_id: property.id,
+          title: standard.title,
+          price: standard.price,
+          currency: standard.currency,
+          price_per_sqm: standard.price_per_sqm ?? null,
+          property_type: standard.property_type,
+          transaction_type: standard.transaction_type,
+          status: standard.status ?? null,
+          city: standard.location.city,
+          region: standard.location.region ?? null,
+          postal_code: standard.location.postal_code ?? null,
+          lat: standard.location.coordinates?.lat ?? null,
+          lon: standard.location.coordinates?.lon ?? null,
+          sqm: standard.details.sqm ?? null,
+          bedrooms: standard.details.bedrooms ?? null,
+          bathrooms: standard.details.bathrooms ?? null,
+          url: property.url,
+          scraped_at: property.scrapedAt ?? now,
+          data: JSON.stringify(toRecord(property, this.shape)),
+          now,
+        });
+      }
+    });
+
+    writeAll(properties);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    this.upsert = null;
+  }
+
+  private async open(): Promise<Database.Statement> {
+    if (this.upsert) return this.upsert;
+
+    await mkdir(dirname(this.path), { recursive: true });
+    this.db = new Database(this.path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS properties (
+        portal_id TEXT PRIMARY KEY,
+        title TEXT,
+        price REAL,
+        currency TEXT,
+        price_per_sqm REAL,
+        property_type TEXT,
+        transaction_type TEXT,
+        status TEXT,
+        city TEXT,
+        region TEXT,
+        postal_code TEXT,
+        lat REAL,
+        lon REAL,
+        sqm REAL,
+        bedrooms INTEGER,
+        bathrooms INTEGER,
+        url TEXT,
+        scraped_at TEXT,
+        data TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS properties_city_transaction ON properties (city, transaction_type);
+    `);
+
+    this.upsert = this.db.prepare(`
+      INSERT INTO properties (
+        portal_id, title, price, currency, price_per_sqm, property_type, transaction_type, status,
+        city, region, postal_code, lat, lon, sqm, bedrooms, bathrooms, url, scraped_at, data,
+        first_seen_at, updated_at
+      ) VALUES (
+        @portal_id, @title, @price, @currency, @price_per_sqm, @property_type, @transaction_type, @status,
+        @city, @region, @postal_code, @lat, @lon, @sqm, @bedrooms, @bathrooms, @url, @scraped_at, @data,
+        @now, @now
+      )
+      ON CONFLICT (portal_id) DO UPDATE SET
+        title = excluded.title,
+        price = excluded.price,
+        currency = excluded.currency,
+        price_per_sqm = excluded.price_per_sqm,
+        property_type = excluded.property_type,
+        transaction_type = excluded.transaction_type,
+        status = excluded.status,
+        city = excluded.city,
+        region = excluded.region,
+        postal_code = excluded.postal_code,
+        lat = excluded.lat,
+        lon = excluded.lon,
+        sqm = excluded.sqm,
+        bedrooms = excluded.bedrooms,
+        bathrooms = excluded.bathrooms,
+        url = excluded.url,
+        scraped_at = excluded.scraped_at,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `);
+    return this.upsert;
+  }
+}
+
+/**
+ * Create the sink for an output format
+ */
+export function createSink(format: OutputFormat, path: string, shape: OutputShape = 'property'): OutputSink {
+  logger.info(`Writing ${shape} records as ${format} to ${path}`);
+
+  switch (format) {
+    case 'jsonl':
+      return new JsonlSink(path, shape);
+    case 'csv':
+      return new CsvSink(path, shape);
+    case 'ndjson':
+      return new FlatNdjsonSink(path, shape);
+    case 'sqlite':
+      return new SqliteSink(path, shape);
+    default:
+      throw new Error(`Unknown output format "${format}" (expected one of ${OUTPUT_FORMATS.join(', ')})`);
+  }
+}
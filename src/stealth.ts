@@ -3,13 +3,37 @@
  * Replaces @shared/stealth dependency
  */
 
-import type { Page, Browser } from 'playwright';
+import type { Page, BrowserContext, Frame } from 'playwright';
+import { BlockedError } from './errors';
+import { createLogger } from './logger';
+
+const logger = createLogger('stealth');
 
 export interface StealthConfig {
   userAgent?: string;
   viewport?: { width: number; height: number };
   locale?: string;
   timezone?: string;
+  geolocation?: { latitude: number; longitude: number };
+}
+
+/**
+ * DataDome classification of a loaded page
+ *   clear          - real content was served
+ *   soft_challenge - captcha / interstitial that may clear on its own or after backing off
+ *   hard_block     - visitor is banned (403 without challenge, or DataDome "bv" block page)
+ */
+export type DataDomeOutcome = 'clear' | 'soft_challenge' | 'hard_block';
+
+export interface DataDomeSignals {
+  html: string;
+  status?: number;
+  cookies?: Array<{ name: string; value: string }>;
+}
+
+export interface DataDomeDetection {
+  outcome: DataDomeOutcome;
+  reasons: string[];
 }
 
 /**
@@ -59,11 +83,49 @@ export function getRandomUserAgent(): string {
   return userAgents[Math.floor(Math.random() * userAgents.length)];
 }
 
+// Browser identity used when none is given: desktop Chrome in Lisbon
+export const DEFAULT_FINGERPRINT: StealthConfig = {
+  viewport: { width: 1920, height: 1080 },
+  locale: 'pt-PT',
+  timezone: 'Europe/Lisbon',
+  geolocation: { latitude: 38.7223, longitude: -9.1393 },
+};
+
+const VIEWPORTS = [
+  { width: 1920, height: 1080 },
+  { width: 1680, height: 1050 },
+  { width: 1536, height: 864 },
+  { width: 1440, height: 900 },
+  { width: 1366, height: 768 },
+];
+
+// Large Portuguese cities, so parallel contexts don't all report the same position
+const GEOLOCATIONS = [
+  { latitude: 38.7223, longitude: -9.1393 }, // Lisboa
+  { latitude: 41.1579, longitude: -8.6291 }, // Porto
+  { latitude: 40.2033, longitude: -8.4103 }, // Coimbra
+  { latitude: 41.5454, longitude: -8.4265 }, // Braga
+  { latitude: 37.0194, longitude: -7.9304 }, // Faro
+];
+
+/**
+ * Random but plausible browser identity for an isolated context
+ */
+export function randomFingerprint(): StealthConfig {
+  const pick = <T>(values: T[]): T => values[Math.floor(Math.random() * values.length)];
+  return {
+    ...DEFAULT_FINGERPRINT,
+    userAgent: getRandomUserAgent(),
+    viewport: pick(VIEWPORTS),
+    geolocation: pick(GEOLOCATIONS),
+  };
+}
+
 /**
  * Apply stealth configuration to browser context
  */
-export async function applyStealthConfig(browser: Browser, config: StealthConfig = {}): Promise<void> {
-  console.log('[stealth] Apply config called (stub)');
+export async function applyStealthConfig(_context: BrowserContext, _config: StealthConfig = {}): Promise<void> {
+  logger.debug('Apply config called (stub)');
 }
 
 /**
@@ -93,10 +155,92 @@ export async function humanClick(page: Page, selector: string): Promise<void> {
 }
 
 /**
- * Bypass DataDome protection
+ * Classify a response as clear, soft challenge or hard block
+ *
+ * Pure function over the page HTML, HTTP status and cookies so it can be
+ * checked against saved pages without a browser.
+ */
+export function detectDataDome(signals: DataDomeSignals): DataDomeDetection {
+  const { html, status, cookies = [] } = signals;
+  const reasons: string[] = [];
+
+  const hasCaptchaFrame = /captcha-delivery\.com/i.test(html);
+  // DataDome's inline config, e.g. var dd={'rt':'c','cid':'...','t':'fe',...}
+  const ddConfig = html.match(/var\s+dd\s*=\s*\{([^}]*)\}/);
+  const ddType = ddConfig?.[1].match(/['"]t['"]\s*:\s*['"](\w+)['"]/)?.[1];
+  const ddChallenge = ddConfig?.[1].match(/['"]rt['"]\s*:\s*['"](\w+)['"]/)?.[1];
+  const hasNextData = html.includes('id="__NEXT_DATA__"');
+  const hasDataDomeCookie = cookies.some((cookie) => cookie.name.toLowerCase() === 'datadome');
+
+  if (hasCaptchaFrame) reasons.push('captcha-delivery iframe');
+  if (ddConfig) reasons.push(`dd config (rt=${ddChallenge || '?'}, t=${ddType || '?'})`);
+  if (status === 403) reasons.push('HTTP 403');
+  if (status === 429) reasons.push('HTTP 429');
+  if (hasDataDomeCookie) reasons.push('datadome cookie');
+
+  // "bv" = banned visitor: the challenge page cannot be solved
+  if (ddType === 'bv') {
+    return { outcome: 'hard_block', reasons };
+  }
+
+  if (hasCaptchaFrame || ddConfig || status === 429) {
+    return { outcome: 'soft_challenge', reasons };
+  }
+
+  if (status === 403 && !hasNextData) {
+    return { outcome: 'hard_block', reasons };
+  }
+
+  return { outcome: 'clear', reasons };
+}
+
+/**
+ * Check the current page for DataDome and wait for interstitials to clear
+ *
+ * Interstitial challenges usually resolve themselves after a few seconds of
+ * JavaScript execution, so a soft challenge is re-checked until `waitMs`
+ * has passed. The response status counts until the challenge navigates the
+ * page, so a bare 403 or 429 stays blocked. Throws BlockedError if the page is
+ * still challenged or blocked.
  */
-export async function bypassDataDome(page: Page): Promise<boolean> {
-  console.log('[stealth] DataDome bypass called (stub)');
-  // Stub implementation - would need real bypass logic
-  return true;
+export async function bypassDataDome(
+  page: Page,
+  options: { status?: number; waitMs?: number } = {}
+): Promise<DataDomeDetection> {
+  const { status, waitMs = 10000 } = options;
+  const deadline = Date.now() + waitMs;
+
+  let detection = detectDataDome({
+    html: await page.content(),
+    status,
+    cookies: await page.context().cookies(),
+  });
+
+  let navigated = false;
+  const onNavigated = (frame: Frame) => {
+    if (frame === page.mainFrame()) navigated = true;
+  };
+  page.on('framenavigated', onNavigated);
+  try {
+    while (detection.outcome === 'soft_challenge' && Date.now() < deadline) {
+      await page.waitForTimeout(1000);
+      detection = detectDataDome({
+        html: await page.content(),
+        status: navigated ? undefined : status,
+        cookies: await page.context().cookies(),
+      });
+    }
+  } finally {
+    page.off('framenavigated', onNavigated);
+  }
+
+  if (detection.outcome !== 'clear') {
+    throw new BlockedError(detection.outcome, {
+      url: page.url(),
+      status,
+      reasons: detection.reasons,
+    });
+  }
+
+  return detection;
 }
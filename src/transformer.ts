@@ -30,7 +30,7 @@ export interface StandardProperty {
   hoa_fees?: number;
   property_tax?: number;
   country_specific?: Record<string, any>;
-  status?: 'active' | 'removed' | 'sold' | 'rented';
+  status?: 'active' | 'reserved' | 'removed' | 'sold' | 'rented';
 }
 
 export interface PropertyLocation {
@@ -103,6 +103,7 @@ export function transformToStandard(property: Property): StandardProperty {
 
   // Extract amenities from features
   const amenities = extractAmenities(property.features);
+  if (property.details?.condition === 'new') amenities.is_new_construction = true;
 
   // Build standardized property
   const standardProperty: StandardProperty = {
@@ -122,6 +123,7 @@ export function transformToStandard(property: Property): StandardProperty {
       country: property.location.country,
       postal_code: property.location.postcode,
       coordinates: property.location.coordinates,
+      geohash: property.location.geohash,
     },
 
     details: {
@@ -138,6 +140,10 @@ export function transformToStandard(property: Property): StandardProperty {
     images: property.images,
     features: property.features,
     amenities,
+    // Only certificate classes; exempt/pending stay in country_specific
+    energy_rating: /^[A-F][+-]?$/.test(property.details?.energyRating ?? '')
+      ? property.details?.energyRating
+      : undefined,
     price_per_sqm: pricePerSqm,
 
     // Agent information
@@ -153,7 +159,7 @@ export function transformToStandard(property: Property): StandardProperty {
     // Portugal-specific fields
     country_specific: buildCountrySpecific(property),
 
-    status: 'active',
+    status: property.status ?? 'active',
   };
 
   return standardProperty;
@@ -222,6 +228,17 @@ function buildCountrySpecific(property: Property): Record<string, any> {
     Object.assign(specific, property.metadata);
   }
 
+  // Add administrative areas (see geo.ts)
+  if (property.location.district) specific.district = property.location.district;
+  if (property.location.concelho) specific.concelho = property.location.concelho;
+  if (property.location.freguesia) specific.freguesia = property.location.freguesia;
+  if (property.location.adminCode) specific.dtmnfr = property.location.adminCode;
+
+  // Add typology, energy certificate and condition (see normalizer.ts)
+  if (property.details?.typology) specific.typology = property.details.typology;
+  if (property.details?.energyRating) specific.energy_certificate = property.details.energyRating;
+  if (property.details?.condition) specific.condition = property.details.condition;
+
   // Add source info
   specific.source_portal = property.source || 'idealista_portugal';
 
@@ -240,6 +257,15 @@ function buildCountrySpecific(property: Property): Record<string, any> {
     specific.available_from = property.details.availableFrom;
   }
 
+  // Add asking price history (one point per price change)
+  if (property.priceHistory && property.priceHistory.length > 0) {
+    specific.price_history = property.priceHistory.map((point) => ({
+      timestamp: point.timestamp,
+      price: point.price,
+      price_per_sqm: point.priceByArea,
+    }));
+  }
+
   return specific;
 }
 
@@ -2,11 +2,21 @@
  * Idealista Portugal Scraper - Type Definitions
  */
 
+/** 'reserved' listings are still online, marked reservado (under offer) */
+export type ListingStatus = 'active' | 'reserved' | 'removed' | 'sold' | 'rented';
+
+export interface PricePoint {
+  timestamp: string;
+  price: number;
+  priceByArea?: number;
+}
+
 // Legacy Property interface (for compatibility with old code)
 export interface Property {
   id: string;
   title: string;
   price: number;
+  priceByArea?: number;
   currency: string;
   propertyType: string;
   transactionType: string;
@@ -18,6 +28,12 @@ export interface Property {
     postcode?: string;
     country: string;
     coordinates?: { lat: number; lon: number };
+    geohash?: string;
+    district?: string;
+    concelho?: string;
+    freguesia?: string;
+    /** CAOP code of the freguesia (DTMNFR) */
+    adminCode?: string;
   };
   details?: {
     sqm?: number;
@@ -27,6 +43,11 @@ export interface Property {
     floor?: number;
     totalFloors?: number;
     constructionYear?: number;
+    /** Energy certificate class (A+ to F), or 'exempt' / 'pending' */
+    energyRating?: string;
+    /** Portuguese typology: T0..T6+ for flats, V0..V6+ for moradias */
+    typology?: string;
+    condition?: 'new' | 'good' | 'needs_renovation';
     availableFrom?: string;
     description?: string;
   };
@@ -44,6 +65,8 @@ export interface Property {
   description?: string;
   url: string;
   scrapedAt?: string;
+  status?: ListingStatus;
+  priceHistory?: PricePoint[];
 }
 
 export interface ScraperResult {
@@ -67,7 +90,9 @@ export interface ScraperConfig {
   maxConcurrent?: number;
   navigationTimeout?: number;
   detailTimeout?: number;
+  /** Recheck stored listings not seen in a search for this many days (see recheck.ts) */
   recheckAfterDays?: number;
+  /** Listings rechecked per batch */
   recheckBatchSize?: number;
   [key: string]: any;  // Allow additional fields
 }
@@ -3,6 +3,9 @@
  * Replaces @shared/utils dependency
  */
 
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
 export async function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -15,3 +18,15 @@ export function randomDelay(min: number, max: number): Promise<void> {
   const ms = Math.floor(Math.random() * (max - min + 1)) + min;
   return delay(ms);
 }
+
+/**
+ * Write a file through a temp file and a rename, so readers (or a restart after
+ * a crash) never see it half-written. Creates the directory if needed.
+ */
+export async function writeAtomic(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  // The pid keeps processes sharing a directory (e.g. daemons taking a lock) off each other's temp file
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, content);
+  await rename(tmpPath, path);
+}
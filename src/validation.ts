@@ -0,0 +1,264 @@
+/**
+ * Validation and data-quality reporting for parsed properties
+ *
+ * The parser never fails on a listing: it falls back to `price: 0`, a
+ * synthetic `idealista-{hash}` ID or a `sale` transaction type when the
+ * source data is missing. Validation flags those records before they are
+ * stored. Errors quarantine a record; warnings are only counted.
+ *
+ * StandardProperty is derived from Property by the transformer, so validating
+ * the Property covers both.
+ */
+
+import { appendFile } from 'fs/promises';
+import { createLogger } from './logger';
+import type { Property } from './types';
+
+const logger = createLogger('validation');
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  code: string;
+  field: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface QuarantinedProperty {
+  property: Property;
+  issues: ValidationIssue[];
+}
+
+export interface QualityReport {
+  total: number;
+  valid: number;
+  quarantined: number;
+  /** Number of listings per issue code */
+  issues: Record<string, number>;
+  /** Share of listings (0-1) with each field filled in */
+  fillRates: Record<string, number>;
+}
+
+export interface ValidationOutcome {
+  valid: Property[];
+  quarantined: QuarantinedProperty[];
+  report: QualityReport;
+}
+
+export interface ValidationOptions {
+  /** Transaction type of the search; listings of another type are flagged */
+  transactionType?: 'sale' | 'rent';
+}
+
+// Bounding boxes of mainland Portugal, Madeira (incl. Selvagens) and the Azores
+const PORTUGAL_BOUNDS = [
+  { minLat: 36.9, maxLat: 42.2, minLon: -9.6, maxLon: -6.1 },
+  { minLat: 29.9, maxLat: 33.2, minLon: -17.4, maxLon: -15.8 },
+  { minLat: 36.9, maxLat: 39.8, minLon: -31.5, maxLon: -24.9 },
+];
+
+// `idealista-{hash}`, or `idealista-{timestamp}` as older runs stored them
+const SYNTHETIC_ID = /^idealista-(?:[0-9a-f]{12}|\d{13})$/;
+const MIN_SQM = 5;
+const MAX_BEDROOMS = 30;
+// Rents above this are almost certainly sale listings (and vice versa)
+const MAX_MONTHLY_RENT = 50_000;
+const MIN_SALE_PRICE = 1_000;
+
+/** Fields whose fill rate is reported, as dotted paths into Property */
+const FILL_RATE_FIELDS = [
+  'price',
+  'priceByArea',
+  'location.address',
+  'location.region',
+  'location.postcode',
+  'location.coordinates',
+  'details.sqm',
+  'details.bedrooms',
+  'details.bathrooms',
+  'details.floor',
+  'details.energyRating',
+  'details.constructionYear',
+  'description',
+  'images',
+  'agent',
+];
+
+/**
+ * True for the fallback ID the parser makes up when a listing has no code
+ */
+export function isSyntheticId(id: string | undefined): boolean {
+  return !id || SYNTHETIC_ID.test(id);
+}
+
+/**
+ * Check a single property; an empty list means it is clean
+ */
+export function validateProperty(property: Property, options: ValidationOptions = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (code: string, field: string, message: string) =>
+    issues.push({ code, field, severity: 'error', message });
+  const warning = (code: string, field: string, message: string) =>
+    issues.push({ code, field, severity: 'warning', message });
+
+  if (isSyntheticId(property.id)) {
+    error('synthetic_id', 'id', `No listing ID in source data (got "${property.id}")`);
+  }
+
+  if (!Number.isFinite(property.price) || property.price <= 0) {
+    error('missing_price', 'price', `Price is ${property.price}`);
+  } else if (property.transactionType === 'rent' && property.price > MAX_MONTHLY_RENT) {
+    warning('implausible_price', 'price', `Monthly rent of ${property.price} looks like a sale price`);
+  } else if (property.transactionType === 'sale' && property.price < MIN_SALE_PRICE) {
+    warning('implausible_price', 'price', `Sale price of ${property.price} looks like a rent`);
+  }
+
+  if (property.transactionType !== 'sale' && property.transactionType !== 'rent') {
+    error('invalid_transaction_type', 'transactionType', `Unknown transaction type "${property.transactionType}"`);
+  } else if (property.metadata?.transactionTypeDefaulted) {
+    error('invalid_transaction_type', 'transactionType', 'Operation missing in source data; defaulted to sale');
+  } else if (options.transactionType && property.transactionType !== options.transactionType) {
+    warning(
+      'transaction_type_mismatch',
+      'transactionType',
+      `Found ${property.transactionType} listing in a ${options.transactionType} search`
+    );
+  }
+
+  const sqm = property.details?.sqm;
+  if (sqm === undefined || sqm === null) {
+    warning('missing_sqm', 'details.sqm', 'No floor area');
+  } else if (sqm < MIN_SQM) {
+    error('implausible_sqm', 'details.sqm', `Floor area of ${sqm} m² is below ${MIN_SQM} m²`);
+  }
+
+  const bedrooms = property.details?.bedrooms;
+  if (bedrooms !== undefined && (bedrooms < 0 || bedrooms > MAX_BEDROOMS)) {
+    warning('implausible_bedrooms', 'details.bedrooms', `${bedrooms} bedrooms`);
+  }
+
+  const coordinates = property.location?.coordinates;
+  if (!coordinates) {
+    warning('missing_coordinates', 'location.coordinates', 'No coordinates');
+  } else if (!isInPortugal(coordinates.lat, coordinates.lon)) {
+    error(
+      'coordinates_outside_portugal',
+      'location.coordinates',
+      `Coordinates ${coordinates.lat},${coordinates.lon} are outside Portugal`
+    );
+  }
+
+  if (!property.url || !/\/imovel\/[^/]+/.test(property.url)) {
+    warning('missing_url', 'url', `No listing URL (got "${property.url}")`);
+  }
+
+  return issues;
+}
+
+/**
+ * Whether a point lies within mainland Portugal, Madeira or the Azores
+ */
+export function isInPortugal(lat: number, lon: number): boolean {
+  return PORTUGAL_BOUNDS.some(
+    (box) => lat >= box.minLat && lat <= box.maxLat && lon >= box.minLon && lon <= box.maxLon
+  );
+}
+
+/**
+ * Validate a run's properties, splitting off records with errors and building a quality report
+ */
+export function validateProperties(properties: Property[], options: ValidationOptions = {}): ValidationOutcome {
+  const valid: Property[] = [];
+  const quarantined: QuarantinedProperty[] = [];
+  const issueCounts: Record<string, number> = {};
+
+  for (const property of properties) {
+    const issues = validateProperty(property, options);
+
+    for (const code of new Set(issues.map((issue) => issue.code))) {
+      issueCounts[code] = (issueCounts[code] || 0) + 1;
+    }
+
+    if (issues.some((issue) => issue.severity === 'error')) {
+      quarantined.push({ property, issues });
+    } else {
+      valid.push(property);
+    }
+  }
+
+  return {
+    valid,
+    quarantined,
+    report: {
+      total: properties.length,
+      valid: valid.length,
+      quarantined: quarantined.length,
+      issues: issueCounts,
+      fillRates: fillRates(properties),
+    },
+  };
+}
+
+/**
+ * Share of properties with each reported field filled in
+ */
+export function fillRates(properties: Property[]): Record<string, number> {
+  const rates: Record<string, number> = {};
+
+  for (const field of FILL_RATE_FIELDS) {
+    const filled = properties.filter((property) => isFilled(getPath(property, field))).length;
+    rates[field] = properties.length > 0 ? Math.round((filled / properties.length) * 1000) / 1000 : 0;
+  }
+
+  return rates;
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], value);
+}
+
+function isFilled(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return Number.isFinite(value) && value !== 0;
+  return true;
+}
+
+/**
+ * Multi-line quality report for logging
+ */
+export function formatQualityReport(report: QualityReport): string {
+  const lines = [
+    `Data quality: ${report.valid}/${report.total} valid, ${report.quarantined} quarantined`,
+  ];
+
+  const issues = Object.entries(report.issues).sort(([, a], [, b]) => b - a);
+  if (issues.length > 0) {
+    lines.push('Issues:');
+    for (const [code, count] of issues) {
+      lines.push(`  ${code.padEnd(30)} ${count}`);
+    }
+  }
+
+  lines.push('Fill rates:');
+  for (const [field, rate] of Object.entries(report.fillRates)) {
+    lines.push(`  ${field.padEnd(30)} ${(rate * 100).toFixed(1)}%`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Append quarantined records to a JSONL file for inspection
+ */
+export async function writeQuarantine(path: string, quarantined: QuarantinedProperty[]): Promise<void> {
+  if (quarantined.length === 0) return;
+
+  const quarantinedAt = new Date().toISOString();
+  const lines = quarantined.map((entry) => JSON.stringify({ quarantinedAt, ...entry }));
+  await appendFile(path, `${lines.join('\n')}\n`);
+  logger.info(`Wrote ${quarantined.length} quarantined records to ${path}`);
+}
@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AdaptiveRateLimiter, paceKey } from '../src/adaptive-limiter';
+
+/**
+ * Clock that only moves when the limiter sleeps
+ */
+function fakeClock() {
+  const clock = { time: 0 };
+  return {
+    clock,
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      clock.time += ms;
+    },
+  };
+}
+
+const KEY = paceKey('http://proxy-a:8080', 'https://www.idealista.pt/comprar-casas/lisboa/');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-pace-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('paceKey', () => {
+  it('combines the proxy server and host', () => {
+    expect(KEY).toBe('http://proxy-a:8080|www.idealista.pt');
+    expect(paceKey(undefined, 'https://www.idealista.pt/imovel/1/')).toBe('direct|www.idealista.pt');
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  it('speeds up slowly on success and backs off sharply on blocks', () => {
+    const limiter = new AdaptiveRateLimiter({ initialIntervalMs: 3000, speedUpMs: 100 });
+
+    limiter.report(KEY, 'success', 500);
+    limiter.report(KEY, 'success', 500);
+    expect(limiter.intervalFor(KEY)).toBe(2800);
+
+    limiter.report(KEY, 'challenge');
+    expect(limiter.intervalFor(KEY)).toBe(5600);
+    limiter.report(KEY, 'rate_limited');
+    expect(limiter.intervalFor(KEY)).toBe(11200);
+    limiter.report(KEY, 'hard_block');
+    expect(limiter.intervalFor(KEY)).toBe(44800);
+  });
+
+  it('treats slow successful responses as a slow-down signal', () => {
+    const limiter = new AdaptiveRateLimiter({ initialIntervalMs: 2000, slowResponseMs: 8000 });
+
+    limiter.report(KEY, 'success', 12000);
+
+    expect(limiter.intervalFor(KEY)).toBe(3000);
+    expect(limiter.getStates()[KEY]).toMatchObject({ successes: 0, slowdowns: 1 });
+  });
+
+  it('keeps the interval within the configured bounds', () => {
+    const limiter = new AdaptiveRateLimiter({ initialIntervalMs: 1100, minIntervalMs: 1000, maxIntervalMs: 5000 });
+
+    for (let i = 0; i < 5; i++) limiter.report(KEY, 'success');
+    expect(limiter.intervalFor(KEY)).toBe(1000);
+
+    for (let i = 0; i < 5; i++) limiter.report(KEY, 'hard_block');
+    expect(limiter.intervalFor(KEY)).toBe(5000);
+  });
+
+  it('paces requests at the learned interval, per key', async () => {
+    const { clock, now, sleep } = fakeClock();
+    const limiter = new AdaptiveRateLimiter({ initialIntervalMs: 1000, now, sleep });
+    const other = paceKey('http://proxy-b:8080', 'https://www.idealista.pt/');
+    const startedAt: Array<[string, number]> = [];
+
+    const request = async (key: string) => {
+      await limiter.acquire(key);
+      startedAt.push([key, clock.time]);
+      limiter.release(key);
+    };
+
+    await request(KEY);
+    limiter.report(KEY, 'challenge');
+    await request(other);
+    await request(KEY);
+
+    expect(startedAt).toEqual([
+      [KEY, 0],
+      [other, 0],
+      [KEY, 2000],
+    ]);
+  });
+
+  it('saves learned paces and loads them in the next run', async () => {
+    const path = join(dir, 'state', 'rate-limits.json');
+    const limiter = new AdaptiveRateLimiter({ initialIntervalMs: 3000 });
+    limiter.report(KEY, 'challenge');
+    await limiter.save(path);
+
+    const reloaded = await AdaptiveRateLimiter.load(path, { maxIntervalMs: 4000 });
+    expect(reloaded.intervalFor(KEY)).toBe(4000);
+    expect(reloaded.getStates()[KEY].slowdowns).toBe(1);
+
+    const fresh = await AdaptiveRateLimiter.load(join(dir, 'missing.json'), { initialIntervalMs: 2500 });
+    expect(fresh.intervalFor(KEY)).toBe(2500);
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PageArchive } from '../src/archive';
+import { Checkpoint, FileCheckpointStore } from '../src/checkpoint';
+import { PageParseError } from '../src/errors';
+import { IdealistaScraper } from '../src/scraper';
+import { buildSearchUrl } from '../src/search-filters';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-archive-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('PageArchive', () => {
+  it('indexes saved pages and reloads them from disk', async () => {
+    const archive = await PageArchive.open(dir);
+    const entry = await archive.save('https://www.idealista.pt/imovel/1/', '<html>1</html>', { status: 200 });
+
+    const reopened = await PageArchive.open(dir);
+
+    expect(reopened.size).toBe(1);
+    expect(reopened.lookup('https://www.idealista.pt/imovel/1/')).toEqual(entry);
+    expect(await reopened.read('https://www.idealista.pt/imovel/1/')).toBe('<html>1</html>');
+    expect(await reopened.read('https://www.idealista.pt/imovel/2/')).toBeNull();
+  });
+
+  it('resolves a URL to its latest clear fetch', async () => {
+    const archive = await PageArchive.open(dir);
+    const url = 'https://www.idealista.pt/imovel/1/';
+
+    await archive.save(url, 'old', { timestamp: '2024-01-01T00:00:00.000Z' });
+    await archive.save(url, 'new', { timestamp: '2024-01-02T00:00:00.000Z' });
+    await archive.save(url, 'captcha', { timestamp: '2024-01-03T00:00:00.000Z', status: 403, outcome: 'soft_challenge' });
+
+    const reopened = await PageArchive.open(dir);
+
+    expect(reopened.size).toBe(3);
+    expect(await reopened.read(url)).toBe('new');
+  });
+});
+
+describe('replay', () => {
+  it('scrapes a location from the archive without a browser', async () => {
+    const archive = await PageArchive.open(dir);
+    await archive.save(buildSearchUrl('lisboa', 'sale', 1), fixture('search-lisboa-sale.html'), { status: 200 });
+
+    const scraper = new IdealistaScraper({
+      replay: archive,
+      launcher: () => Promise.reject(new Error('browser launched during replay')),
+    });
+    await scraper.initialize();
+
+    // The fixture reports more pages; pages 2 and 3 were never archived
+    const properties = await scraper.scrapeLocation('lisboa', 'sale', { maxPages: 3 });
+
+    expect(properties.map((p) => p.id)).toEqual(['33456789', '33112233', '33998877']);
+  });
+
+  it('leaves pages without listing data out of the checkpoint', async () => {
+    const archive = await PageArchive.open(dir);
+    await archive.save(buildSearchUrl('lisboa', 'sale', 1), fixture('search-lisboa-sale.html'), { status: 200 });
+    await archive.save(buildSearchUrl('lisboa', 'sale', 2), fixture('no-next-data.html'), { status: 200 });
+    const scraper = new IdealistaScraper({ replay: archive });
+    const checkpoint = await Checkpoint.open(new FileCheckpointStore(join(dir, 'checkpoints')), 'run-1');
+
+    await expect(scraper.scrapePage('lisboa', 'sale', 2)).rejects.toThrow(PageParseError);
+    const properties = await scraper.scrapeLocation('lisboa', 'sale', { maxPages: 3, checkpoint });
+
+    expect(properties).toHaveLength(3);
+    expect(checkpoint.getPage('lisboa', 'sale', 1)).toHaveLength(3);
+    expect(checkpoint.getPage('lisboa', 'sale', 2)).toBeUndefined();
+    expect(checkpoint.getPage('lisboa', 'sale', 3)).toBeUndefined();
+    expect(checkpoint.isSearchDone('lisboa', 'sale')).toBe(false);
+  });
+
+  it('reads detail pages from the archive', async () => {
+    const archive = await PageArchive.open(dir);
+    const detail = fixture('detail-33456789.json');
+    await archive.save(
+      'https://www.idealista.pt/imovel/33456789/',
+      `<script id="__NEXT_DATA__" type="application/json">${detail}</script>`
+    );
+
+    const scraper = new IdealistaScraper({ replay: archive });
+    const [property] = await scraper.enrichWithDetails([
+      {
+        id: '33456789',
+        title: 'Apartamento T2',
+        price: 495000,
+        currency: 'EUR',
+        propertyType: 'apartment',
+        transactionType: 'sale',
+        location: { city: 'Lisboa', country: 'Portugal' },
+        details: {},
+        features: [],
+        url: 'https://www.idealista.pt/imovel/33456789/',
+      },
+    ]);
+
+    expect(property.details.energyRating).toBe('B-');
+    expect(property.location.postcode).toBe('1900-361');
+  });
+});
@@ -0,0 +1,234 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PageArchive } from '../src/archive';
+import { Checkpoint, CHECKPOINT_TTL_MS, FileCheckpointStore, RedisCheckpointStore } from '../src/checkpoint';
+import { InvalidOptionsError } from '../src/errors';
+import { RedisClient, setRedisClient } from '../src/redis';
+import { IdealistaScraper } from '../src/scraper';
+import { buildSearchUrl } from '../src/search-filters';
+import type { Property } from '../src/types';
+
+function property(id: string): Property {
+  return {
+    id,
+    title: 'Apartamento T2',
+    price: 495000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: 'Lisboa', country: 'Portugal' },
+    details: {},
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-checkpoint-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('FileCheckpointStore', () => {
+  it('restores pages and finished searches of a resumed run', async () => {
+    const store = new FileCheckpointStore(dir);
+    const checkpoint = await Checkpoint.open(store, 'run-1');
+    await checkpoint.markPageDone('lisboa', 'sale', 1, [property('1'), property('2')]);
+    await checkpoint.markPageDone('lisboa', 'sale', 2, [property('3')]);
+    await checkpoint.markSearchDone('lisboa', 'sale');
+    await checkpoint.markPageDone('porto', 'rent', 1, []);
+
+    const resumed = await Checkpoint.open(store, 'run-1', { resume: true });
+
+    expect(resumed.getPage('lisboa', 'sale', 1)?.map((p) => p.id)).toEqual(['1', '2']);
+    expect(resumed.getPage('lisboa', 'sale', 2)).toEqual([property('3')]);
+    expect(resumed.getPage('porto', 'rent', 1)).toEqual([]);
+    expect(resumed.getPage('porto', 'rent', 2)).toBeUndefined();
+    expect(resumed.isSearchDone('lisboa', 'sale')).toBe(true);
+    expect(resumed.isSearchDone('porto', 'rent')).toBe(false);
+    await expect(Checkpoint.open(store, 'run-2', { resume: true })).rejects.toThrow('No checkpoint found for run run-2');
+  });
+
+  it('appends pages instead of rewriting the run record', async () => {
+    const checkpoint = await Checkpoint.open(new FileCheckpointStore(dir), 'run-1');
+    const run = readFileSync(join(dir, 'run-1.json'), 'utf-8');
+
+    await checkpoint.markPageDone('lisboa', 'sale', 1, [property('1')]);
+    await checkpoint.markPageDone('lisboa', 'sale', 2, [property('2')]);
+
+    expect(readFileSync(join(dir, 'run-1.json'), 'utf-8')).toBe(run);
+    expect(readFileSync(join(dir, 'run-1.pages.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(2);
+
+  });
+
+  it('deletes the checkpoint of a completed run', async () => {
+    const store = new FileCheckpointStore(dir);
+    const checkpoint = await Checkpoint.open(store, 'run-1');
+    await checkpoint.markPageDone('lisboa', 'sale', 1, [property('1')]);
+
+    await checkpoint.markRunComplete();
+
+    expect(readdirSync(dir)).toEqual([]);
+    await expect(Checkpoint.open(store, 'run-1', { resume: true })).rejects.toThrow('No checkpoint found for run run-1');
+  });
+
+  it('refuses to resume a run with different options', async () => {
+    const store = new FileCheckpointStore(dir);
+    const options = { locations: ['lisboa'], transactionType: 'sale', filters: { minPrice: 100000 }, maxPages: 5 };
+    await Checkpoint.open(store, 'run-1', { options });
+
+    const resumed = Checkpoint.open(store, 'run-1', {
+      resume: true,
+      options: { ...options, filters: { minPrice: 200000 }, maxPages: 10 },
+    });
+
+    await expect(resumed).rejects.toThrow(InvalidOptionsError);
+    await expect(resumed).rejects.toThrow('Run run-1 was started with different options (filters, maxPages)');
+    await expect(Checkpoint.open(store, 'run-1', { resume: true, options: { ...options } })).resolves.toBeDefined();
+  });
+
+  it('prunes the checkpoints of runs not written for longer than the TTL', async () => {
+    const store = new FileCheckpointStore(dir);
+    const stale = await Checkpoint.open(store, 'run-1');
+    await stale.markPageDone('lisboa', 'sale', 1, [property('1')]);
+    await Checkpoint.open(store, 'run-2');
+    const old = new Date(Date.now() - CHECKPOINT_TTL_MS - 60_000);
+    utimesSync(join(dir, 'run-1.json'), old, old);
+    utimesSync(join(dir, 'run-1.pages.jsonl'), old, old);
+
+    expect(await store.prune()).toEqual(['run-1']);
+    expect(readdirSync(dir)).toEqual(['run-2.json']);
+    expect(await new FileCheckpointStore(join(dir, 'missing')).prune()).toEqual([]);
+  });
+
+  it('keeps the earlier pages when a crash cut the last one short', async () => {
+    const store = new FileCheckpointStore(dir);
+    const checkpoint = await Checkpoint.open(store, 'run-1');
+    await checkpoint.markPageDone('lisboa', 'sale', 1, [property('1')]);
+    await appendFile(join(dir, 'run-1.pages.jsonl'), '{"key":"lisboa|sale|2","properties":[{"id":');
+
+    const resumed = await Checkpoint.open(store, 'run-1', { resume: true });
+
+    expect(resumed.getPage('lisboa', 'sale', 1)).toEqual([property('1')]);
+    expect(resumed.getPage('lisboa', 'sale', 2)).toBeUndefined();
+  });
+
+  it('replaces the run record whole, never leaving a partial write behind', async () => {
+    const store = new FileCheckpointStore(dir);
+    const checkpoint = await Checkpoint.open(store, 'run-1');
+    // A temp file from a save that crashed before its rename
+    writeFileSync(join(dir, `run-1.json.${process.pid}.tmp`), '{"runId":"run-1","fin');
+
+    await checkpoint.markSearchDone('lisboa', 'sale');
+
+    expect(readdirSync(dir)).toEqual(['run-1.json']);
+    expect((await store.load('run-1'))?.finishedSearches).toEqual(['lisboa|sale']);
+  });
+});
+
+describe('RedisCheckpointStore', () => {
+  afterEach(() => {
+    setRedisClient(null);
+  });
+
+  it('keeps the run record and its pages in separate keys', async () => {
+    const strings = new Map<string, string>();
+    const hashes = new Map<string, Record<string, string>>();
+    const ttls = new Map<string, number>();
+    const commands = {
+      set: async (key: string, value: string, options: { PX: number }) => {
+        strings.set(key, value);
+        ttls.set(key, options.PX);
+      },
+      hSet: async (key: string, field: string, value: string) =>
+        void hashes.set(key, { ...hashes.get(key), [field]: value }),
+      pExpire: async (key: string, ms: number) => void ttls.set(key, ms),
+    };
+    const client = {
+      ...commands,
+      get: async (key: string) => strings.get(key) ?? null,
+      hGetAll: async (key: string) => hashes.get(key) ?? {},
+      del: async (keys: string[]) => keys.forEach((key) => strings.delete(key) || hashes.delete(key)),
+      multi: () => {
+        const queued: Array<() => Promise<void>> = [];
+        const transaction: Record<string, unknown> = {
+          exec: async () => {
+            for (const command of queued) await command();
+          },
+        };
+        for (const [name, command] of Object.entries(commands)) {
+          transaction[name] = (...args: unknown[]) => {
+            queued.push(() => (command as (...a: unknown[]) => Promise<void>)(...args));
+            return transaction;
+          };
+        }
+        return transaction;
+      },
+    };
+    setRedisClient(client as unknown as RedisClient);
+    const store = new RedisCheckpointStore();
+
+    const checkpoint = await Checkpoint.open(store, 'run-1');
+    await checkpoint.markPageDone('lisboa', 'sale', 1, [property('1')]);
+    await checkpoint.markSearchDone('lisboa', 'sale');
+
+    expect([...strings.keys()]).toEqual(['idealista:portugal:checkpoint:run-1']);
+    expect(Object.keys(hashes.get('idealista:portugal:checkpoint:run-1:pages')!)).toEqual(['lisboa|sale|1']);
+    expect(await store.load('run-1')).toMatchObject({
+      runId: 'run-1',
+      pages: { 'lisboa|sale|1': [property('1')] },
+      finishedSearches: ['lisboa|sale'],
+    });
+    expect(await store.load('run-2')).toBeNull();
+    expect(Object.fromEntries(ttls)).toEqual({
+      'idealista:portugal:checkpoint:run-1': CHECKPOINT_TTL_MS,
+      'idealista:portugal:checkpoint:run-1:pages': CHECKPOINT_TTL_MS,
+    });
+
+    await checkpoint.markRunComplete();
+    expect(strings.size + hashes.size).toBe(0);
+  });
+});
+
+describe('resuming a search', () => {
+  it('restores completed pages and fetches only the missing ones', async () => {
+    const archive = await PageArchive.open(join(dir, 'archive'));
+    // Page 1 isn't archived, so the search only gets past it through the checkpoint
+    await archive.save(
+      buildSearchUrl('lisboa', 'sale', 2),
+      readFileSync(new URL('./fixtures/search-lisboa-sale.html', import.meta.url), 'utf-8'),
+      { status: 200 }
+    );
+    const store = new FileCheckpointStore(join(dir, 'checkpoints'));
+    const first = await Checkpoint.open(store, 'run-1');
+    await first.markPageDone('lisboa', 'sale', 1, [property('1'), property('2')]);
+
+    const checkpoint = await Checkpoint.open(store, 'run-1', { resume: true });
+    const scraper = new IdealistaScraper({ replay: archive });
+    const properties = await scraper.scrapeLocation('lisboa', 'sale', { maxPages: 2, checkpoint });
+
+    expect(properties.map((p) => p.id)).toEqual(['1', '2', '33456789', '33112233', '33998877']);
+    expect((await store.load('run-1'))?.pages['lisboa|sale|2']).toHaveLength(3);
+  });
+
+  it('does not fetch anything more for a finished search', async () => {
+    const store = new FileCheckpointStore(dir);
+    const first = await Checkpoint.open(store, 'run-1');
+    await first.markPageDone('lisboa', 'sale', 1, [property('1')]);
+    await first.markSearchDone('lisboa', 'sale');
+
+    const checkpoint = await Checkpoint.open(store, 'run-1', { resume: true });
+    const scraper = new IdealistaScraper({ replay: await PageArchive.open(join(dir, 'archive')) });
+    const properties = await scraper.scrapeLocation('lisboa', 'sale', { maxPages: 5, checkpoint });
+
+    expect(properties).toEqual([property('1')]);
+    expect(Object.keys((await store.load('run-1'))!.pages)).toEqual(['lisboa|sale|1']);
+  });
+});
@@ -0,0 +1,178 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PageArchive } from '../src/archive';
+import { CrawlPlan, planCrawl, runCrawl } from '../src/crawl';
+import { InvalidOptionsError } from '../src/errors';
+import { parseNextData } from '../src/parser';
+import { RedisClient, setRedisClient } from '../src/redis';
+import { IdealistaScraper } from '../src/scraper';
+import { buildSearchUrl } from '../src/search-filters';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-crawl-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('planCrawl', () => {
+  it('fills in defaults and normalises CLI strings', () => {
+    const plan = planCrawl({ location: 'Vila Nova de Gaia', maxPages: '3', headless: 'false', bedrooms: 't2,t3' });
+
+    expect(plan.locations).toEqual(['vila-nova-de-gaia']);
+    expect(plan.label).toBe('vila-nova-de-gaia');
+    expect(plan.filters.bedrooms).toEqual([2, 3]);
+    expect(plan.options).toMatchObject({ maxPages: 3, headless: false, transactionType: 'sale', workers: 1 });
+    expect(planCrawl({ district: 'faro' }).label).toMatch(/^faro district \(\d+ concelhos\)$/);
+  });
+
+  it('rejects bad options before anything is launched', () => {
+    expect(() => planCrawl({ transactionType: 'buy' })).toThrow(InvalidOptionsError);
+    expect(() => planCrawl({ all: true, district: 'faro' })).toThrow('Use only one of --all, --district and --multiple');
+    expect(() => planCrawl({ output: 'csv' })).toThrow('--output requires --out <path>');
+    expect(() => planCrawl({ location: 'atlantis' })).toThrow(InvalidOptionsError);
+    expect(() => planCrawl({ batchSize: '0' })).toThrow('Invalid --batchSize: 0');
+    expect(() => planCrawl({ batchSize: 'ten' })).toThrow(InvalidOptionsError);
+    expect(() => planCrawl({ maxPages: 'abc' })).toThrow('Invalid --maxPages: abc. Use a positive integer.');
+    expect(() => planCrawl({ limit: NaN })).toThrow('Invalid --limit');
+    expect(() => planCrawl({ limit: '5.5' })).toThrow('Invalid --limit: 5.5');
+    expect(() => planCrawl({ workers: '2x' })).toThrow('Invalid --workers: 2x');
+    expect(() => planCrawl({ metricsPort: '9464abc' })).toThrow('Invalid --metricsPort: 9464abc');
+    expect(() => planCrawl({ detailConcurrency: '0' })).toThrow('Invalid --detailConcurrency: 0');
+    expect(() => planCrawl({ detailDelay: '-1' })).toThrow('Invalid --detailDelay: -1. Use an integer of at least 0.');
+    expect(planCrawl({ detailDelay: '0' }).options.detailDelay).toBe(0);
+    expect(() => planCrawl({ bedrooms: 'tx' })).toThrow(InvalidOptionsError);
+    expect(() => planCrawl({ boundaries: join(dir, 'caop.geojson') })).toThrow('Boundaries file not found');
+  });
+
+  it('requires the Core Service credentials for --sink api', () => {
+    delete process.env.LANDOMO_API_URL;
+    delete process.env.LANDOMO_API_KEY;
+    expect(() => planCrawl({ sink: 'api' })).toThrow('LANDOMO_API_URL is required for API ingestion');
+    expect(planCrawl({ sink: 'api', dryRun: true }).options.sink).toBe('api');
+
+    process.env.LANDOMO_API_URL = 'https://core.example.com/api/v1';
+    process.env.LANDOMO_API_KEY = 'test-key';
+    try {
+      expect(planCrawl({ sink: 'api' }).options.sink).toBe('api');
+    } finally {
+      delete process.env.LANDOMO_API_URL;
+      delete process.env.LANDOMO_API_KEY;
+    }
+  });
+});
+
+describe('runCrawl', () => {
+  async function replayPlan(overrides: Record<string, unknown> = { dryRun: true }): Promise<CrawlPlan> {
+    const archive = await PageArchive.open(join(dir, 'archive'));
+    const html = readFileSync(new URL('./fixtures/search-lisboa-sale.html', import.meta.url), 'utf-8');
+    await archive.save(buildSearchUrl('lisboa', 'sale', 1), html);
+    writeFileSync(join(dir, 'caop.geojson'), '{"type":"FeatureCollection","features":[]}');
+
+    return planCrawl({
+      location: 'lisboa',
+      maxPages: 1,
+      replay: join(dir, 'archive'),
+      ...overrides,
+      checkpointDir: join(dir, 'checkpoints'),
+      boundaries: join(dir, 'caop.geojson'),
+      summaryFile: join(dir, 'run-summary.json'),
+      rateStateFile: join(dir, 'rate-limits.json'),
+    });
+  }
+
+  it('runs a plan and writes its summary', async () => {
+    const result = await runCrawl(await replayPlan(), { runId: 'run-1', labels: { job: 'lisboa-sale' } });
+
+    expect(result).toMatchObject({ runId: 'run-1', status: 'success' });
+    expect(JSON.parse(readFileSync(join(dir, 'run-summary.json'), 'utf-8'))).toMatchObject({
+      runId: 'run-1',
+      labels: { job: 'lisboa-sale' },
+      status: 'success',
+      properties: { byLocation: { lisboa: 3 }, counts: { scraped: 3 } },
+    });
+    expect(existsSync(join(dir, 'checkpoints', 'run-1.json'))).toBe(false);
+  });
+
+  it('fails the run when Redis rejects the listings', async () => {
+    const client = {
+      isOpen: true,
+      sMembers: async () => [],
+      lRange: async () => [],
+      rPush: async () => 1,
+      multi: () => {
+        const transaction = {
+          set: () => transaction,
+          sAdd: () => transaction,
+          hSetNX: () => transaction,
+          zAdd: () => transaction,
+          exec: async () => {
+            throw new Error('OOM command not allowed when used memory > maxmemory');
+          },
+        };
+        return transaction;
+      },
+      quit: async () => undefined,
+    };
+    setRedisClient(client as unknown as RedisClient);
+
+    const result = await runCrawl(await replayPlan({}), { runId: 'run-3' });
+
+    expect(result.status).toBe('failed');
+    expect(result.summary.properties.counts).toMatchObject({ scraped: 3, stored: 0 });
+    // The listings weren't stored, so the run can still be resumed
+    expect(existsSync(join(dir, 'checkpoints', 'run-3.json'))).toBe(true);
+  });
+
+  it('links listings to the ones stored in Redis without --diff', async () => {
+    const html = readFileSync(new URL('./fixtures/search-lisboa-sale.html', import.meta.url), 'utf-8');
+    const [listing] = parseNextData(new IdealistaScraper().extractNextData(html)!, 'lisboa');
+    // The same flat, stored under the code another agency listed it with
+    const stored = { ...listing, id: '30000001' };
+    const saved = new Map<string, string>();
+    const client = {
+      isOpen: true,
+      sMembers: async (key: string) => (key.endsWith(':index:lisboa:sale') ? [stored.id] : []),
+      mGet: async (keys: string[]) => keys.map(() => JSON.stringify(stored)),
+      lRange: async () => [],
+      rPush: async () => 1,
+      multi: () => {
+        const transaction = {
+          set: (key: string, value: string) => (saved.set(key, value), transaction),
+          sAdd: () => transaction,
+          hSetNX: () => transaction,
+          zAdd: () => transaction,
+          exec: async () => [],
+        };
+        return transaction;
+      },
+      zAdd: async () => 1,
+      quit: async () => undefined,
+    };
+    setRedisClient(client as unknown as RedisClient);
+
+    const result = await runCrawl(await replayPlan({}), { runId: 'run-4' });
+
+    expect(result.status).toBe('success');
+    const relisted = JSON.parse(saved.get(`idealista:portugal:property:${listing.id}`)!);
+    expect(relisted.metadata.unitId).toBe('30000001');
+  });
+
+  it('ends as interrupted when aborted, leaving the checkpoint to resume', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await runCrawl(await replayPlan(), { runId: 'run-2', signal: controller.signal });
+
+    expect(result.status).toBe('interrupted');
+    expect(existsSync(join(dir, 'checkpoints', 'run-2.json'))).toBe(true);
+
+    const resumed = await runCrawl(await replayPlan({ dryRun: true, maxPages: 2 }), { runId: 'run-2', resume: true });
+    expect(resumed.status).toBe('failed');
+  });
+});
@@ -0,0 +1,228 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CrawlResult, CrawlRun } from '../src/crawl';
+import {
+  CrawlDaemon,
+  FileLockStore,
+  LockStore,
+  nextTimeOfDay,
+  parseDuration,
+  parseSchedule,
+  ScheduledJob,
+} from '../src/daemon';
+import { InvalidOptionsError } from '../src/errors';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-daemon-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const HOUR = 3_600_000;
+
+function jobs(): ScheduledJob[] {
+  return parseSchedule(
+    {
+      jitter: '10m',
+      defaults: { maxPages: '20', metricsTextfile: '/var/lib/node_exporter/textfile/idealista-{job}.prom' },
+      jobs: [
+        { name: 'lisboa-sale', every: '6h', options: { location: 'lisboa' } },
+        { name: 'algarve-rent', at: '02:30', options: { district: 'faro', transactionType: 'rent' } },
+      ],
+    },
+    dir
+  );
+}
+
+function result(run: CrawlRun, status: CrawlResult['status'] = 'success'): CrawlResult {
+  return { runId: run.runId!, status, summary: {} as CrawlResult['summary'] };
+}
+
+describe('schedule', () => {
+  it('parses durations and times of day', () => {
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('6h')).toBe(6 * HOUR);
+    expect(parseDuration('1.5m')).toBe(90_000);
+    expect(parseDuration(250)).toBe(250);
+    expect(() => parseDuration('soon')).toThrow(InvalidOptionsError);
+
+    const after = new Date(2024, 0, 31, 3, 0).getTime();
+    expect(nextTimeOfDay([150], after)).toBe(new Date(2024, 1, 1, 2, 30).getTime());
+    expect(nextTimeOfDay([150, 18 * 60], after)).toBe(new Date(2024, 0, 31, 18, 0).getTime());
+  });
+
+  it('plans every job on top of the defaults', () => {
+    const [lisboa, algarve] = jobs();
+
+    expect(lisboa).toMatchObject({ name: 'lisboa-sale', everyMs: 6 * HOUR, jitterMs: 600_000 });
+    expect(lisboa.plan.options).toMatchObject({
+      location: 'lisboa',
+      maxPages: 20,
+      summaryFile: join(dir, 'summaries', 'lisboa-sale.json'),
+      metricsTextfile: '/var/lib/node_exporter/textfile/idealista-lisboa-sale.prom',
+    });
+    expect(algarve.at).toEqual([150]);
+    expect(algarve.plan.label).toMatch(/^faro district/);
+  });
+
+  it('rejects bad jobs at startup', () => {
+    const job = { name: 'lisboa', every: '6h', options: { location: 'lisboa' } };
+
+    expect(() => parseSchedule({ jobs: [] })).toThrow('Schedule has no jobs');
+    expect(() => parseSchedule({ jobs: [job, job] })).toThrow('Duplicate job name: lisboa');
+    expect(() => parseSchedule({ jobs: [{ ...job, at: '02:00' }] })).toThrow('exactly one of');
+    expect(() => parseSchedule({ jobs: [{ ...job, options: { location: 'atlantis' } }] })).toThrow(
+      /^Job lisboa: Unknown location "atlantis"/
+    );
+    expect(() => parseSchedule({ jobs: [{ ...job, every: undefined, at: '25:00' }] })).toThrow('Invalid time of day');
+  });
+});
+
+describe('FileLockStore', () => {
+  it('lets one owner hold a job until it releases it or the lock expires', async () => {
+    let now = Date.parse('2024-01-31T14:00:00.000Z');
+    const locks = new FileLockStore(dir, () => now);
+
+    expect(await locks.acquire('lisboa', 'host-a:1', 60_000)).toBe(true);
+    expect(await locks.acquire('lisboa', 'host-b:2', 60_000)).toBe(false);
+    expect(await locks.acquire('porto', 'host-b:2', 60_000)).toBe(true);
+    expect(await locks.refresh('lisboa', 'host-b:2', 60_000)).toBe(false);
+
+    await locks.release('lisboa', 'host-b:2');
+    expect(await locks.acquire('lisboa', 'host-b:2', 60_000)).toBe(false);
+
+    now += 30_000;
+    expect(await locks.refresh('lisboa', 'host-a:1', 60_000)).toBe(true);
+    now += 45_000;
+    expect(await locks.acquire('lisboa', 'host-b:2', 60_000)).toBe(false);
+
+    // host-a died without releasing
+    now += 60_000;
+    expect(await locks.acquire('lisboa', 'host-b:2', 60_000)).toBe(true);
+    await locks.release('lisboa', 'host-a:1');
+    expect(await locks.refresh('lisboa', 'host-b:2', 60_000)).toBe(true);
+
+    await locks.release('lisboa', 'host-b:2');
+    expect(await locks.acquire('lisboa', 'host-a:1', 60_000)).toBe(true);
+  });
+});
+
+describe('CrawlDaemon', () => {
+  it('runs due jobs with jitter and persists their state', async () => {
+    let now = new Date(2024, 0, 31, 14, 0).getTime();
+    const runCrawl = vi.fn(async (_plan, run: CrawlRun) => {
+      now += 20 * 60_000;
+      return result(run);
+    });
+    const daemon = new CrawlDaemon({ jobs: jobs(), stateDir: dir, runCrawl, now: () => now, random: () => 0.5 });
+
+    await daemon.initialize();
+    expect(await daemon.runDue()).toBe(0);
+
+    // lisboa-sale is first due after half of its 10 minute jitter
+    now += 5 * 60_000;
+    expect(await daemon.runDue()).toBe(1);
+    expect(runCrawl).toHaveBeenCalledTimes(1);
+    expect(runCrawl.mock.calls[0][1]).toMatchObject({ resume: false, labels: { job: 'lisboa-sale' } });
+
+    const state = JSON.parse(readFileSync(join(dir, 'state.json'), 'utf-8')).jobs;
+    expect(state['lisboa-sale']).toMatchObject({
+      lastStatus: 'success',
+      lastRunId: runCrawl.mock.calls[0][1].runId,
+      lastStartedAt: new Date(2024, 0, 31, 14, 5).toISOString(),
+      lastDurationMs: 20 * 60_000,
+      nextRunAt: new Date(2024, 0, 31, 20, 10).toISOString(),
+    });
+    expect(state['algarve-rent'].nextRunAt).toBe(new Date(2024, 1, 1, 2, 35).toISOString());
+    expect(daemon.toPrometheus()).toContain('idealista_job_last_success{job="lisboa-sale"} 1');
+
+    // A restarted daemon picks up the schedule where it left off
+    const restarted = new CrawlDaemon({ jobs: jobs(), stateDir: dir, runCrawl, now: () => now, random: () => 0 });
+    await restarted.initialize();
+    expect(restarted.getState()['lisboa-sale'].nextRunAt).toBe(new Date(2024, 0, 31, 20, 5).toISOString());
+  });
+
+  it('skips a run whose lock is held elsewhere', async () => {
+    const now = Date.now();
+    const lockStore: LockStore = {
+      acquire: vi.fn(async () => false),
+      refresh: vi.fn(async () => true),
+      release: vi.fn(async () => undefined),
+    };
+    const runCrawl = vi.fn();
+    const daemon = new CrawlDaemon({ jobs: jobs(), stateDir: dir, lockStore, runCrawl, now: () => now, random: () => 0 });
+
+    await daemon.initialize();
+    expect(await daemon.runDue()).toBe(1);
+
+    expect(runCrawl).not.toHaveBeenCalled();
+    expect(daemon.getState()['lisboa-sale']).toEqual({ nextRunAt: new Date(now + 6 * HOUR).toISOString() });
+  });
+
+  it('stops the running crawl on shutdown and resumes it on the next start', async () => {
+    const runCrawl = vi.fn(
+      (_plan, run: CrawlRun) =>
+        new Promise<CrawlResult>((resolve) => {
+          if (run.resume) resolve(result(run));
+          run.signal!.addEventListener('abort', () => resolve(result(run, 'interrupted')));
+        })
+    );
+    const daemon = new CrawlDaemon({ jobs: jobs(), stateDir: dir, runCrawl, random: () => 0 });
+
+    const running = daemon.run();
+    await vi.waitFor(() => expect(runCrawl).toHaveBeenCalledTimes(1));
+    await daemon.stop();
+    await running;
+
+    const runId = runCrawl.mock.calls[0][1].runId;
+    expect(daemon.getState()['lisboa-sale']).toMatchObject({ lastStatus: 'interrupted', resumeRunId: runId });
+    expect(existsSync(join(dir, 'locks', 'lisboa-sale.lock'))).toBe(false);
+
+    const restarted = new CrawlDaemon({ jobs: jobs(), stateDir: dir, runCrawl, random: () => 0 });
+    await restarted.initialize();
+    expect(await restarted.runDue()).toBe(1);
+    expect(runCrawl.mock.calls[1][1]).toMatchObject({ runId, resume: true });
+    expect(restarted.getState()['lisboa-sale']).toMatchObject({ lastStatus: 'success', resumeRunId: undefined });
+  });
+
+  it('stops the running crawl when another daemon takes over its lock', async () => {
+    const lockStore: LockStore = {
+      acquire: vi.fn(async () => true),
+      refresh: vi.fn(async () => false),
+      release: vi.fn(async () => undefined),
+    };
+    const runCrawl = vi.fn(
+      (_plan, run: CrawlRun) =>
+        new Promise<CrawlResult>((resolve) => {
+          run.signal!.addEventListener('abort', () => resolve(result(run, 'interrupted')));
+        })
+    );
+    const daemon = new CrawlDaemon({ jobs: jobs(), stateDir: dir, lockStore, lockTtlMs: 30, runCrawl, random: () => 0 });
+
+    await daemon.initialize();
+    expect(await daemon.runDue()).toBe(1);
+
+    expect(lockStore.refresh).toHaveBeenCalledWith('lisboa-sale', expect.any(String), 30);
+    expect(daemon.getState()['lisboa-sale']).toMatchObject({ lastStatus: 'interrupted' });
+  });
+
+  it('resumes a run the daemon died in the middle of', async () => {
+    writeFileSync(
+      join(dir, 'state.json'),
+      JSON.stringify({
+        jobs: { 'lisboa-sale': { lastRunId: '20240131T142501-3f9a2c', lastStartedAt: '2024-01-31T14:25:01.000Z' } },
+      })
+    );
+    const daemon = new CrawlDaemon({ jobs: jobs(), stateDir: dir, runCrawl: vi.fn() });
+
+    await daemon.initialize();
+    expect(daemon.getState()['lisboa-sale'].resumeRunId).toBe('20240131T142501-3f9a2c');
+    expect(Date.parse(daemon.getState()['lisboa-sale'].nextRunAt!)).toBeLessThanOrEqual(Date.now());
+  });
+});
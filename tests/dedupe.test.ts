@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { dedupeProperties, distanceMeters, matchUnit, summarizeDedupe } from '../src/dedupe';
+import type { Property } from '../src/types';
+
+function property(id: string, overrides: Partial<Property> = {}): Property {
+  return {
+    id,
+    title: 'Apartamento T2',
+    price: 300000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: 'Lisboa', country: 'Portugal', coordinates: { lat: 38.7266, lon: -9.1335 } },
+    details: { sqm: 80, bedrooms: 2, floor: 3 },
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    ...overrides,
+  };
+}
+
+// About 11 metres north
+const NEARBY = { lat: 38.7267, lon: -9.1335 };
+
+describe('matchUnit', () => {
+  it('matches close listings with the same typology, size and price', () => {
+    const distance = matchUnit(
+      property('1'),
+      property('2', { price: 305000, location: { city: 'Lisboa', country: 'Portugal', coordinates: NEARBY } })
+    );
+
+    expect(distance).toBeCloseTo(11, 0);
+  });
+
+  it('rejects listings that differ in a key attribute', () => {
+    const base = property('1');
+
+    expect(matchUnit(base, property('2', { price: 350000 }))).toBeNull();
+    expect(matchUnit(base, property('2', { details: { sqm: 80, bedrooms: 3, floor: 3 } }))).toBeNull();
+    expect(matchUnit(base, property('2', { details: { sqm: 80, bedrooms: 2, floor: 4 } }))).toBeNull();
+    expect(matchUnit(base, property('2', { details: { sqm: 95, bedrooms: 2 } }))).toBeNull();
+    expect(matchUnit(base, property('2', { transactionType: 'rent' }))).toBeNull();
+    expect(
+      matchUnit(base, property('2', { location: { city: 'Lisboa', country: 'Portugal', coordinates: { lat: 38.728, lon: -9.1335 } } }))
+    ).toBeNull();
+    expect(matchUnit(base, property('2', { location: { city: 'Lisboa', country: 'Portugal' } }))).toBeNull();
+  });
+
+  it('measures distances in metres', () => {
+    expect(distanceMeters({ lat: 38.7, lon: -9.1 }, { lat: 38.8, lon: -9.1 })).toBeCloseTo(11119, -1);
+  });
+});
+
+describe('dedupeProperties', () => {
+  it('keeps the first listing for a repeated property code', () => {
+    const result = dedupeProperties([property('1'), property('2', { price: 1 }), property('1', { price: 1 })]);
+
+    expect(result.unique.map((p) => p.id)).toEqual(['1', '2']);
+    expect(result.unique[0].price).toBe(300000);
+    expect(result.duplicates).toEqual([expect.objectContaining({ matchedId: '1', reason: 'same_code' })]);
+  });
+
+  it('drops listings without a code that match a kept listing', () => {
+    const result = dedupeProperties([property('33456789'), property('idealista-1706700000000')]);
+
+    expect(result.unique.map((p) => p.id)).toEqual(['33456789']);
+    expect(result.duplicates[0]).toMatchObject({ reason: 'fuzzy', matchedId: '33456789' });
+  });
+
+  it('gives a listing without a code the ID it had in a previous run', () => {
+    const result = dedupeProperties([property('idealista-1706700000000', { price: 299000 })], {
+      known: [property('33456789')],
+    });
+
+    expect(result.unique.map((p) => p.id)).toEqual(['33456789']);
+    expect(result.adopted).toBe(1);
+  });
+
+  it('links the same unit listed under another code by a different agency', () => {
+    const result = dedupeProperties([
+      property('1', { agent: { agency: 'Remax' } }),
+      property('2', {
+        agent: { agency: 'ERA' },
+        location: { city: 'Lisboa', country: 'Portugal', coordinates: NEARBY },
+      }),
+      property('3', { details: { sqm: 120, bedrooms: 3 } }),
+    ]);
+
+    expect(result.unique.map((p) => p.id)).toEqual(['1', '2', '3']);
+    expect(result.unique[1].metadata).toEqual({ unitId: '1' });
+    expect(result.unique[2].metadata).toBeUndefined();
+    expect(result.relists).toEqual([expect.objectContaining({ matchedId: '1', reason: 'relist' })]);
+  });
+
+  it('links relists to the unit of a previous run', () => {
+    const result = dedupeProperties([property('9')], {
+      known: [property('7', { metadata: { unitId: '5' } })],
+    });
+
+    expect(result.unique[0].metadata).toEqual({ unitId: '5' });
+    expect(summarizeDedupe(result)).toBe(
+      '1 unique, 0 duplicate codes, 0 fuzzy duplicates, 1 relisted units, 0 IDs adopted from previous runs'
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { changedProperties, compareProperties, diffSnapshots } from '../src/diff';
+import type { Property } from '../src/types';
+
+function property(id: string, overrides: Partial<Property> = {}): Property {
+  return {
+    id,
+    title: `Apartamento T2 ${id}`,
+    price: 250000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: 'Lisboa', country: 'Portugal' },
+    details: { sqm: 80, bedrooms: 2 },
+    features: ['elevator'],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('compareProperties', () => {
+  it('reports nested field deltas by dotted path', () => {
+    const changes = compareProperties(
+      property('1'),
+      property('1', { price: 240000, details: { sqm: 82, bedrooms: 2 } })
+    );
+
+    expect(changes).toEqual([
+      { field: 'details.sqm', previous: 80, current: 82 },
+      { field: 'price', previous: 250000, current: 240000 },
+    ]);
+  });
+
+  it('ignores scrape timestamps and metadata', () => {
+    const changes = compareProperties(
+      property('1'),
+      property('1', { scrapedAt: '2024-02-01T00:00:00.000Z', metadata: { page: 3 } })
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it('compares arrays as a whole', () => {
+    const changes = compareProperties(property('1'), property('1', { features: ['elevator', 'terrace'] }));
+
+    expect(changes).toEqual([
+      { field: 'features', previous: ['elevator'], current: ['elevator', 'terrace'] },
+    ]);
+  });
+});
+
+describe('diffSnapshots', () => {
+  const previous = [property('1'), property('2'), property('3'), property('4', { status: 'removed' })];
+
+  it('classifies new, unchanged, updated and disappeared listings', () => {
+    const current = [property('1'), property('2', { price: 230000 }), property('5')];
+
+    const diff = diffSnapshots(previous, current);
+
+    expect(diff.new.map((p) => p.id)).toEqual(['5']);
+    expect(diff.unchanged.map((p) => p.id)).toEqual(['1']);
+    expect(diff.updated.map((u) => [u.property.id, u.priceChanged])).toEqual([['2', true]]);
+    expect(diff.disappeared.map((p) => [p.id, p.status])).toEqual([['3', 'removed']]);
+  });
+
+  it('emits status transitions', () => {
+    const current = [property('1'), property('4'), property('5')];
+
+    const diff = diffSnapshots(previous, current);
+
+    expect(diff.transitions).toEqual([
+      { id: '4', from: 'removed', to: 'active' },
+      { id: '5', from: undefined, to: 'active' },
+      { id: '2', from: 'active', to: 'removed' },
+      { id: '3', from: 'active', to: 'removed' },
+    ]);
+    // A relisted removed listing counts as updated even if nothing else changed
+    expect(diff.updated.map((u) => u.property.id)).toEqual(['4']);
+  });
+
+  it('skips removals when the run did not cover the full search', () => {
+    const diff = diffSnapshots(previous, [property('1')], { detectRemovals: false });
+
+    expect(diff.disappeared).toEqual([]);
+    expect(diff.transitions).toEqual([]);
+  });
+
+  it('does not flag listings seen but left out of the run as disappeared', () => {
+    const diff = diffSnapshots(previous, [property('1'), property('2')], { seenIds: ['3'] });
+
+    expect(diff.disappeared).toEqual([]);
+  });
+});
+
+describe('changedProperties', () => {
+  it('returns only listings downstream needs, with their new status', () => {
+    const diff = diffSnapshots(previous(), [property('1'), property('2', { price: 1 }), property('9')]);
+
+    expect(changedProperties(diff).map((p) => [p.id, p.status])).toEqual([
+      ['9', undefined],
+      ['2', 'active'],
+      ['3', 'removed'],
+    ]);
+  });
+
+  function previous(): Property[] {
+    return [property('1'), property('2'), property('3')];
+  }
+});
@@ -0,0 +1,178 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { AdminBoundaries, encodeGeohash, enrichLocation, enrichLocations, normalizePostcode } from '../src/geo';
+import { parseNextData } from '../src/parser';
+import { IdealistaScraper } from '../src/scraper';
+import { transformToStandard } from '../src/transformer';
+import type { Property } from '../src/types';
+
+function fixtureProperties(): Property[] {
+  const html = readFileSync(new URL('./fixtures/search-lisboa-sale.html', import.meta.url), 'utf-8');
+  return parseNextData(new IdealistaScraper().extractNextData(html)!, 'lisboa');
+}
+
+function property(location: Partial<Property['location']>): Property {
+  return {
+    id: '1',
+    title: 'Apartamento',
+    price: 250000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: '', country: 'Portugal', ...location },
+    features: [],
+    url: 'https://www.idealista.pt/imovel/1/',
+  };
+}
+
+function square(minLon: number, minLat: number, maxLon: number, maxLat: number): number[][] {
+  return [
+    [minLon, minLat],
+    [maxLon, minLat],
+    [maxLon, maxLat],
+    [minLon, maxLat],
+    [minLon, minLat],
+  ];
+}
+
+// Two made-up freguesias; the first has a hole covered by the second
+const boundaries = new AdminBoundaries({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { DTMNFR: '080601', Freguesia: 'Ferragudo', Municipio: 'Lagoa', Distrito_Ilha: 'Faro' },
+      geometry: { type: 'Polygon', coordinates: [square(-8.6, 37.0, -8.4, 37.2), square(-8.55, 37.05, -8.45, 37.15)] },
+    },
+    {
+      type: 'Feature',
+      properties: { dtmnfr: '450201', freguesia: 'Cabouco', municipio: 'Lagoa', distrito_ilha: 'Ilha de São Miguel' },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [[square(-25.6, 37.7, -25.5, 37.8)], [square(-8.55, 37.05, -8.45, 37.15)]],
+      },
+    },
+  ],
+});
+
+describe('encodeGeohash', () => {
+  it('encodes points at the requested precision', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash(38.7266, -9.1335)).toHaveLength(8);
+    expect(encodeGeohash(38.7266, -9.1335, 5)).toBe('eycs2');
+  });
+});
+
+describe('normalizePostcode', () => {
+  it('formats CP7 postcodes and finds them in addresses', () => {
+    expect(normalizePostcode('1900-361')).toBe('1900-361');
+    expect(normalizePostcode('1900 361')).toBe('1900-361');
+    expect(normalizePostcode('4050361')).toBe('4050-361');
+    expect(normalizePostcode('Rua de Cedofeita 120, 4050-174 Porto')).toBe('4050-174');
+  });
+
+  it('ignores partial codes and other numbers', () => {
+    expect(normalizePostcode('1900')).toBeUndefined();
+    expect(normalizePostcode('Lote 12345678')).toBeUndefined();
+    expect(normalizePostcode(undefined)).toBeUndefined();
+  });
+});
+
+describe('AdminBoundaries', () => {
+  it('finds the freguesia containing a point, honouring holes', () => {
+    expect(boundaries.size).toBe(2);
+    expect(boundaries.lookup(37.18, -8.58)?.freguesia).toBe('Ferragudo');
+    expect(boundaries.lookup(37.1, -8.5)?.freguesia).toBe('Cabouco');
+    expect(boundaries.lookup(37.75, -25.55)?.code).toBe('450201');
+    expect(boundaries.lookup(41.15, -8.61)).toBeUndefined();
+  });
+
+  it('lists the freguesias of each catalogue concelho', () => {
+    expect(boundaries.freguesiaSources()).toEqual({ 'lagoa-acores': ['Cabouco'], 'lagoa-algarve': ['Ferragudo'] });
+  });
+
+  it('refuses a boundaries file that does not exist', async () => {
+    await expect(AdminBoundaries.load('data/no-such-caop.geojson')).rejects.toThrow(
+      'Boundaries file not found: data/no-such-caop.geojson'
+    );
+  });
+});
+
+describe('enrichLocation', () => {
+  it('places parsed listings by name and adds a geohash', () => {
+    const [flat, chalet] = fixtureProperties().map((p) => enrichLocation(p));
+
+    expect(flat.location).toMatchObject({
+      city: 'Lisboa',
+      region: 'Lisboa',
+      district: 'Lisboa',
+      concelho: 'Lisboa',
+      freguesia: 'Arroios',
+      geohash: encodeGeohash(38.7266, -9.1335),
+    });
+    expect(chalet.location.freguesia).toBe('Belém');
+  });
+
+  it('canonicalises spellings and resolves freguesias and search slugs', () => {
+    expect(enrichLocation(property({ city: 'vila nova de gaia', region: 'porto' })).location).toMatchObject({
+      city: 'Vila Nova de Gaia',
+      region: 'Porto',
+    });
+    expect(enrichLocation(property({ city: 'Alvalade' })).location).toMatchObject({
+      city: 'Lisboa',
+      region: 'Lisboa',
+      freguesia: 'Alvalade',
+    });
+    expect(enrichLocation(property({ city: 'cascais/carcavelos-e-parede' })).location).toMatchObject({
+      city: 'Cascais',
+      freguesia: 'Carcavelos e Parede',
+    });
+  });
+
+  it('uses the province to tell apart concelhos with the same name', () => {
+    expect(enrichLocation(property({ city: 'Lagoa', region: 'Açores' })).location.district).toBe('Açores');
+    expect(enrichLocation(property({ city: 'Lagoa', region: 'Faro' })).location.district).toBe('Faro');
+  });
+
+  it('prefers CAOP boundaries when the listing has coordinates', () => {
+    const enriched = enrichLocation(
+      property({ city: 'Lagoa', coordinates: { lat: 37.75, lon: -25.55 } }),
+      boundaries
+    );
+
+    expect(enriched.location).toMatchObject({
+      city: 'Lagoa',
+      region: 'Açores',
+      freguesia: 'Cabouco',
+      adminCode: '450201',
+    });
+    expect(transformToStandard(enriched).country_specific).toMatchObject({
+      district: 'Açores',
+      concelho: 'Lagoa',
+      freguesia: 'Cabouco',
+      dtmnfr: '450201',
+    });
+  });
+
+  it('reverse-geocodes parsed listings with a boundaries file in the CAOP layout', async () => {
+    // Coarse hand-traced outlines of three Lisbon freguesias, with the attributes of a CAOP export
+    const caop = await AdminBoundaries.load(fileURLToPath(new URL('./fixtures/caop-lisboa.geojson', import.meta.url)));
+
+    const [flat, chalet, withoutCoordinates] = enrichLocations(fixtureProperties(), caop);
+
+    expect(caop!.size).toBe(3);
+    expect(flat.location).toMatchObject({ district: 'Lisboa', concelho: 'Lisboa', freguesia: 'Arroios', adminCode: '110658' });
+    expect(chalet.location).toMatchObject({ concelho: 'Lisboa', freguesia: 'Belém', adminCode: '110657' });
+    // Matched by name instead
+    expect(withoutCoordinates.location).toMatchObject({ concelho: 'Lisboa', freguesia: 'Areeiro' });
+    expect(withoutCoordinates.location.adminCode).toBeUndefined();
+  });
+
+  it('leaves unknown places as idealista reported them', () => {
+    const enriched = enrichLocation(property({ city: 'Atlantis', region: 'Oceano', postcode: '8400 123' }));
+
+    expect(enriched.location).toMatchObject({ city: 'Atlantis', region: 'Oceano', postcode: '8400-123' });
+    expect(enriched.location.concelho).toBeUndefined();
+  });
+});
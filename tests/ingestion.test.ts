@@ -0,0 +1,131 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IngestionClient } from '../src/ingestion';
+import type { IngestionPayload } from '../src/transformer';
+
+interface Received {
+  path?: string;
+  authorization?: string;
+  portalIds: string[];
+}
+
+type Handler = (received: Received, res: ServerResponse) => void;
+
+let server: Server;
+let apiUrl: string;
+let received: Received[];
+let handlers: Handler[];
+
+function payload(id: string): IngestionPayload {
+  return {
+    portal: 'idealista',
+    portal_id: id,
+    country: 'portugal',
+    data: {} as IngestionPayload['data'],
+    raw_data: {},
+  };
+}
+
+function reply(status: number, body?: unknown): Handler {
+  return (_received, res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  };
+}
+
+function client(options: { batchSize?: number; maxRetries?: number; retryDelayMs?: number } = {}): IngestionClient {
+  return new IngestionClient({ apiUrl: `${apiUrl}/`, apiKey: 'secret', retryDelayMs: 1, ...options });
+}
+
+beforeEach(async () => {
+  received = [];
+  handlers = [];
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const entry = {
+        path: req.url,
+        authorization: req.headers.authorization,
+        portalIds: (JSON.parse(body).properties as IngestionPayload[]).map((p) => p.portal_id),
+      };
+      received.push(entry);
+      (handlers.shift() ?? reply(200))(entry, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('IngestionClient', () => {
+  it('sends batches with the API key as a Bearer token', async () => {
+    const report = await client({ batchSize: 2 }).ingest(['1', '2', '3'].map(payload));
+
+    expect(received).toEqual([
+      { path: '/properties/bulk-ingest', authorization: 'Bearer secret', portalIds: ['1', '2'] },
+      { path: '/properties/bulk-ingest', authorization: 'Bearer secret', portalIds: ['3'] },
+    ]);
+    expect(report).toMatchObject({ total: 3, succeeded: 3, failed: 0, batches: 2 });
+  });
+
+  it('retries 429 and 5xx responses with exponential backoff', async () => {
+    handlers.push(reply(429), reply(503));
+
+    const startedAt = Date.now();
+    const report = await client({ retryDelayMs: 40 }).ingest([payload('1')]);
+
+    // 40ms, then 80ms
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(115);
+    expect(received).toHaveLength(3);
+    expect(report.results).toEqual([{ portalId: '1', success: true, status: 200, error: undefined }]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    handlers.push(reply(500), reply(500), reply(500));
+
+    const report = await client({ maxRetries: 2 }).ingest([payload('1')]);
+
+    expect(received).toHaveLength(3);
+    expect(report.results).toEqual([{ portalId: '1', success: false, status: 500, error: 'HTTP 500:' }]);
+  });
+
+  it('does not retry other client errors', async () => {
+    handlers.push(reply(400, { message: 'bad payload' }));
+
+    const report = await client().ingest([payload('1'), payload('2')]);
+
+    expect(received).toHaveLength(1);
+    expect(report).toMatchObject({ succeeded: 0, failed: 2 });
+    expect(report.results[0]).toMatchObject({ status: 400, error: 'HTTP 400: {"message":"bad payload"}' });
+  });
+
+  it('reports each listing from the per-item results', async () => {
+    handlers.push(
+      reply(200, {
+        results: [
+          { portal_id: '1', success: true },
+          { portal_id: '2', success: false, error: 'price missing' },
+        ],
+      })
+    );
+
+    const report = await client().ingest(['1', '2', '3'].map(payload));
+
+    expect(report).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(report.results.map((r) => [r.portalId, r.success, r.error])).toEqual([
+      ['1', true, undefined],
+      ['2', false, 'price missing'],
+      ['3', true, undefined],
+    ]);
+  });
+
+  it('rejects batch sizes that would never finish', () => {
+    expect(() => client({ batchSize: 0 })).toThrow('Invalid ingestion batch size: 0');
+    expect(() => client({ batchSize: NaN })).toThrow('Invalid ingestion batch size');
+  });
+});
@@ -0,0 +1,234 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { PropertyDetail } from '../src/detail-parser';
+import {
+  DEAD_LETTER_KEY,
+  DELAYED_KEY,
+  JobResult,
+  JobWorker,
+  JobWorkerOptions,
+  MemoryJobQueue,
+  QUEUE_KEY,
+  QueueScraper,
+  RedisJobQueue,
+  RESULTS_CHANNEL,
+  parseJob,
+} from '../src/job-queue';
+import { openRedisClient, RedisClient } from '../src/redis';
+import type { Property } from '../src/types';
+
+function property(id: string, city = 'Porto'): Property {
+  return {
+    id,
+    title: 'Apartamento T2',
+    price: 1200,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'rent',
+    location: { city, country: 'Portugal' },
+    details: { sqm: 80, bedrooms: 2 },
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+  };
+}
+
+function fakeScraper(overrides: Partial<QueueScraper> = {}): QueueScraper {
+  return {
+    scrapeLocation: vi.fn(async () => [property('1'), property('2')]),
+    scrapeDetail: vi.fn(async (code: string): Promise<PropertyDetail | null> =>
+      code === 'gone' ? null : { description: `Detail of ${code}`, constructionYear: 1990 }
+    ),
+    ...overrides,
+  };
+}
+
+function worker(queue: MemoryJobQueue, overrides: Partial<JobWorkerOptions> = {}) {
+  let now = Date.parse('2024-01-31T14:00:00.000Z');
+  const store = vi.fn(async (properties: Property[]) => properties);
+  const jobWorker = new JobWorker({
+    queue,
+    scraper: fakeScraper(),
+    store,
+    load: async (id) => (id === 'new' ? null : property(id)),
+    retryDelayMs: 60_000,
+    pollMs: 1,
+    now: () => now,
+    ...overrides,
+  });
+  return { jobWorker, store, advance: (ms: number) => (now += ms) };
+}
+
+describe('parseJob', () => {
+  it('accepts search and details jobs', () => {
+    expect(parseJob('{"id":"a","type":"search","location":"Vila Nova de Gaia"}')).toMatchObject({
+      location: 'vila-nova-de-gaia',
+    });
+    expect(parseJob('{"id":"b","type":"details","propertyCodes":[33456789]}')).toMatchObject({
+      propertyCodes: ['33456789'],
+    });
+  });
+
+  it('rejects jobs that can never succeed', () => {
+    expect(() => parseJob('not json')).toThrow('not valid JSON');
+    expect(() => parseJob('{"type":"search","location":"porto"}')).toThrow('no id');
+    expect(() => parseJob('{"id":"a","type":"export"}')).toThrow('Unknown job type: export');
+    expect(() => parseJob('{"id":"a","type":"search","location":"atlantis"}')).toThrow('Unknown location');
+    expect(() => parseJob('{"id":"a","type":"search","location":"porto","maxPages":0}')).toThrow('Invalid maxPages: 0');
+    expect(() => parseJob('{"id":"a","type":"search","location":"porto","maxPages":"3"}')).toThrow('Invalid maxPages: "3"');
+    expect(() => parseJob('{"id":"a","type":"search","location":"porto","limit":2.5}')).toThrow('Invalid limit: 2.5');
+    expect(() => parseJob('{"id":"a","type":"details","propertyCodes":[]}')).toThrow('no propertyCodes');
+  });
+});
+
+describe('JobWorker', () => {
+  it('runs search jobs, stores the listings and publishes the result', async () => {
+    const queue = new MemoryJobQueue();
+    const scraper = fakeScraper();
+    const { jobWorker, store } = worker(queue, { scraper });
+
+    await queue.enqueue({ id: 'req-42', type: 'search', location: 'porto', transactionType: 'rent', maxPages: 2 });
+    expect(await jobWorker.processNext()).toBe(true);
+
+    expect(scraper.scrapeLocation).toHaveBeenCalledWith('porto', 'rent', { maxPages: 2, limit: undefined, filters: undefined });
+    expect(store).toHaveBeenCalledTimes(1);
+    expect(queue.results).toEqual([
+      {
+        id: 'req-42',
+        type: 'search',
+        status: 'done',
+        attempts: 1,
+        finishedAt: '2024-01-31T14:00:00.000Z',
+        propertyIds: ['1', '2'],
+        quarantined: 0,
+      },
+    ]);
+    expect(queue.processing).toEqual([]);
+    expect(await jobWorker.processNext()).toBe(false);
+  });
+
+  it('refreshes stored listings from their detail pages', async () => {
+    const queue = new MemoryJobQueue();
+    const { jobWorker, store } = worker(queue);
+
+    await queue.enqueue({ id: 'req-43', type: 'details', propertyCodes: ['33456789', 'gone', 'new'] });
+    await jobWorker.processNext();
+
+    const [refreshed] = store.mock.calls[0][0];
+    expect(refreshed).toMatchObject({
+      id: '33456789',
+      description: 'Detail of 33456789',
+      details: { constructionYear: 1990 },
+      scrapedAt: '2024-01-31T14:00:00.000Z',
+    });
+    expect(queue.results[0]).toMatchObject({
+      status: 'done',
+      propertyIds: ['33456789'],
+      notFound: ['gone'],
+      unknown: ['new'],
+    });
+  });
+
+  it('retries failed jobs with backoff, then dead-letters them', async () => {
+    const queue = new MemoryJobQueue();
+    const scraper = fakeScraper({ scrapeLocation: vi.fn(async () => []) });
+    const { jobWorker, advance } = worker(queue, { scraper, maxAttempts: 3 });
+
+    await queue.enqueue({ id: 'req-44', type: 'search', location: 'faro' });
+    await jobWorker.processNext();
+    expect(queue.delayed).toHaveLength(1);
+    expect(JSON.parse(queue.delayed[0].raw)).toMatchObject({ attempts: 1, lastError: 'No properties scraped' });
+
+    // Not due yet, then due after 1 minute; the second retry waits twice as long
+    expect(await jobWorker.processNext()).toBe(false);
+    advance(60_000);
+    await jobWorker.processNext();
+    expect(queue.delayed[0].at).toBe(Date.parse('2024-01-31T14:03:00.000Z'));
+    advance(120_000);
+    await jobWorker.processNext();
+
+    expect(scraper.scrapeLocation).toHaveBeenCalledTimes(3);
+    expect(queue.delayed).toEqual([]);
+    expect(queue.processing).toEqual([]);
+    expect(JSON.parse(queue.dead[0])).toMatchObject({ id: 'req-44', attempts: 3, lastError: 'No properties scraped' });
+    expect(queue.results).toEqual([expect.objectContaining({ id: 'req-44', status: 'failed', attempts: 3 })]);
+  });
+
+  it('dead-letters invalid messages straight away', async () => {
+    const queue = new MemoryJobQueue();
+    const { jobWorker } = worker(queue);
+
+    queue.pending.unshift('{"id":"req-45","type":"search","location":"atlantis"}');
+    await jobWorker.processNext();
+
+    expect(queue.dead).toHaveLength(1);
+    expect(JSON.parse(queue.dead[0]).error).toMatch(/^Unknown location "atlantis"/);
+    expect(queue.results).toEqual([]);
+  });
+
+  it('re-queues what a crashed run left unacknowledged and stops after the current job', async () => {
+    const queue = new MemoryJobQueue();
+    const { jobWorker } = worker(queue);
+    await queue.enqueue({ id: 'req-46', type: 'search', location: 'porto' });
+    await queue.receive(0);
+
+    const running = jobWorker.run();
+    await vi.waitFor(() => expect(queue.results).toHaveLength(1));
+    await jobWorker.stop();
+    await running;
+
+    expect(queue.results[0]).toMatchObject({ id: 'req-46', status: 'done' });
+    expect(queue.processing).toEqual([]);
+  });
+});
+
+// Needs a scratch redis-server, e.g. TEST_REDIS_URL=redis://localhost:6379/15 (its job keys are cleared)
+describe.skipIf(!process.env.TEST_REDIS_URL)('RedisJobQueue', () => {
+  let client: RedisClient;
+  let subscriber: RedisClient;
+  const processingKey = `${QUEUE_KEY}:processing:test-worker`;
+  const keys = [QUEUE_KEY, DELAYED_KEY, DEAD_LETTER_KEY, processingKey, `${QUEUE_KEY}:result:req-1`];
+
+  beforeAll(async () => {
+    client = await openRedisClient(process.env.TEST_REDIS_URL);
+    subscriber = client.duplicate();
+    await subscriber.connect();
+    await client.del(keys);
+  });
+
+  afterAll(async () => {
+    await client.del(keys);
+    await subscriber.quit();
+    await client.quit();
+  });
+
+  it('moves jobs through processing, retries, the dead-letter queue and results', async () => {
+    const queue = new RedisJobQueue(client, 'test-worker');
+    const published: JobResult[] = [];
+    await subscriber.subscribe(RESULTS_CHANNEL, (message) => published.push(JSON.parse(message)));
+
+    await queue.enqueue({ id: 'req-1', type: 'search', location: 'porto' });
+    await queue.enqueue({ id: 'req-2', type: 'details', propertyCodes: ['1'] });
+    expect(await queue.receive(100)).toContain('req-1');
+    const raw = (await queue.receive(100))!;
+    expect(await client.lLen(processingKey)).toBe(2);
+
+    await queue.retry(raw, { ...parseJob(raw), attempts: 1 }, 1000);
+    expect(await queue.promoteDue(999)).toBe(0);
+    expect(await queue.promoteDue(1000)).toBe(1);
+    const retried = (await queue.receive(100))!;
+    expect(JSON.parse(retried).attempts).toBe(1);
+
+    await queue.deadLetter(retried, { id: 'req-2', error: 'blocked' });
+    expect(await client.lRange(DEAD_LETTER_KEY, 0, -1)).toEqual(['{"id":"req-2","error":"blocked"}']);
+
+    // req-1 was received but never acknowledged
+    expect(await queue.recover()).toBe(1);
+    const recovered = (await queue.receive(100))!;
+    await queue.publish({ id: 'req-1', type: 'search', status: 'done', attempts: 1, finishedAt: '2024-01-31T14:00:00.000Z' });
+    await queue.ack(recovered);
+
+    expect(await client.lLen(processingKey)).toBe(0);
+    expect(JSON.parse((await client.get(`${QUEUE_KEY}:result:req-1`))!)).toMatchObject({ status: 'done' });
+    await vi.waitFor(() => expect(published).toEqual([expect.objectContaining({ id: 'req-1' })]));
+    expect(await queue.receive(100)).toBeNull();
+  });
+});
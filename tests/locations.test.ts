@@ -0,0 +1,122 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { UnknownLocationError } from '../src/errors';
+import {
+  POPULAR_LOCATIONS,
+  childLocations,
+  concelhosOf,
+  getLocation,
+  listLocations,
+  resolveLocation,
+  slugify,
+  suggestLocations,
+} from '../src/locations';
+
+/**
+ * A fresh copy of the catalogue, built with the given freguesia file
+ */
+async function catalogueWith(freguesiasFile: string) {
+  vi.resetModules();
+  process.env.FREGUESIAS_FILE = freguesiasFile;
+  try {
+    return await import('../src/locations');
+  } finally {
+    delete process.env.FREGUESIAS_FILE;
+  }
+}
+
+describe('location catalogue', () => {
+  it('covers 18 districts, Madeira and the Azores with all 308 concelhos', () => {
+    expect(listLocations('district')).toHaveLength(20);
+    expect(listLocations('concelho')).toHaveLength(308);
+    expect(getLocation('ilha-da-madeira')).toMatchObject({ level: 'district', name: 'Madeira' });
+    expect(childLocations('acores')).toHaveLength(19);
+  });
+
+  it('nests freguesias under their concelho and district', () => {
+    expect(getLocation('lisboa/arroios')).toEqual({
+      slug: 'lisboa/arroios',
+      name: 'Arroios',
+      level: 'freguesia',
+      district: 'lisboa-distrito',
+      concelho: 'lisboa',
+    });
+    expect(childLocations('lisboa')).toHaveLength(24);
+    expect(childLocations('porto-distrito')).toContain('vila-nova-de-gaia');
+    expect(childLocations('lisboa/arroios')).toEqual([]);
+  });
+
+  it('has freguesias for the concelhos the README lists, and no others, without a built list', async () => {
+    const catalogue = await catalogueWith(join(tmpdir(), 'no-freguesias.json'));
+    const concelhos = new Set(catalogue.listLocations('freguesia').map((location) => location.concelho));
+
+    expect([...concelhos].sort()).toEqual([
+      'albufeira', 'almada', 'cascais', 'faro', 'funchal', 'lagos', 'lisboa', 'loule', 'matosinhos',
+      'oeiras', 'portimao', 'porto', 'seixal', 'sintra', 'vila-nova-de-gaia',
+    ]);
+    expect(catalogue.listLocations('freguesia')).toHaveLength(113);
+    expect(catalogue.childLocations('braga')).toEqual([]);
+  });
+
+  it('takes the freguesias of every concelho from the list built from CAOP', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'idealista-locations-'));
+    try {
+      const file = join(dir, 'freguesias.json');
+      writeFileSync(file, JSON.stringify({ braga: ['Nogueiró e Tenões', 'São Vicente'], lisboa: ['Arroios'] }));
+      const catalogue = await catalogueWith(file);
+
+      expect(catalogue.childLocations('braga')).toEqual(['braga/nogueiro-e-tenoes', 'braga/sao-vicente']);
+      expect(catalogue.childLocations('lisboa')).toEqual(['lisboa/arroios']);
+      expect(catalogue.getLocation('braga/sao-vicente')).toMatchObject({ district: 'braga-distrito', concelho: 'braga' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('gives concelho names used twice a region suffix', () => {
+    expect(getLocation('lagoa-algarve')?.district).toBe('faro-distrito');
+    expect(getLocation('lagoa-acores')?.district).toBe('acores');
+    expect(getLocation('calheta-madeira')?.district).toBe('ilha-da-madeira');
+    expect(getLocation('lagoa')).toBeUndefined();
+  });
+
+  it('only lists catalogued locations as popular', () => {
+    for (const slug of POPULAR_LOCATIONS) {
+      expect(getLocation(slug)?.level).toBe('concelho');
+    }
+  });
+});
+
+describe('slugify', () => {
+  it('strips accents and punctuation', () => {
+    expect(slugify('Vila Real de Santo António')).toBe('vila-real-de-santo-antonio');
+    expect(slugify('Faro (Sé e São Pedro)')).toBe('faro-se-e-sao-pedro');
+    expect(slugify('Algés, Linda-a-Velha e Cruz Quebrada-Dafundo')).toBe(
+      'alges-linda-a-velha-e-cruz-quebrada-dafundo'
+    );
+  });
+});
+
+describe('resolveLocation', () => {
+  it('accepts slugs and names', () => {
+    expect(resolveLocation('evora')).toBe('evora');
+    expect(resolveLocation('Vila Nova de Gaia')).toBe('vila-nova-de-gaia');
+    expect(resolveLocation('Portimão')).toBe('portimao');
+    expect(resolveLocation('lisboa/avenidas-novas')).toBe('lisboa/avenidas-novas');
+  });
+
+  it('resolves district names when a district is asked for', () => {
+    expect(resolveLocation('faro', 'district')).toBe('faro-distrito');
+    expect(resolveLocation('Setúbal', 'district')).toBe('setubal-distrito');
+    expect(concelhosOf('faro')).toHaveLength(16);
+  });
+
+  it('fails fast on typos with suggestions', () => {
+    expect(() => resolveLocation('portiamo')).toThrow(UnknownLocationError);
+    expect(() => resolveLocation('portiamo')).toThrow(/did you mean portimao/);
+    expect(suggestLocations('matosinhis')).toEqual(['matosinhos']);
+    expect(suggestLocations('xyzzyplugh')).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { Writable } from 'stream';
+import { afterEach, describe, expect, it } from 'vitest';
+import { configureLogging, createLogger, runWithLogContext } from '../src/logger';
+
+function capture(): { stream: Writable; lines: string[] } {
+  const lines: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      lines.push(...chunk.toString().split('\n').filter(Boolean));
+      callback();
+    },
+  });
+  return { stream, lines };
+}
+
+afterEach(() => configureLogging());
+
+describe('createLogger', () => {
+  it('writes JSON lines with the run ID, module and bound context', () => {
+    const logger = createLogger('scraper');
+    const { stream, lines } = capture();
+    configureLogging({ destination: stream });
+
+    runWithLogContext({ runId: '20240131T142501-3f9a2c' }, () =>
+      logger.child({ location: 'lisboa', page: 2 }).info('Found %d properties', 30, { proxy: 'http://proxy-a:8080' })
+    );
+    logger.info('Outside the run');
+
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: 'info',
+      runId: '20240131T142501-3f9a2c',
+      module: 'scraper',
+      location: 'lisboa',
+      page: 2,
+      proxy: 'http://proxy-a:8080',
+      msg: 'Found 30 properties',
+    });
+    expect(JSON.parse(lines[1]).runId).toBeUndefined();
+  });
+
+  it('logs errors as err and honours the level', () => {
+    const { stream, lines } = capture();
+    configureLogging({ level: 'warn', destination: stream });
+    const logger = createLogger('redis');
+
+    logger.info('not shown');
+    logger.debug('not shown either');
+    logger.error('Failed to store properties in Redis:', new Error('ECONNREFUSED'));
+
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0]);
+    expect(entry.msg).toBe('Failed to store properties in Redis');
+    expect(entry.err).toMatchObject({ type: 'Error', message: 'ECONNREFUSED' });
+  });
+
+  it('prints readable lines in pretty mode', () => {
+    const { stream, lines } = capture();
+    configureLogging({ format: 'pretty', destination: stream });
+
+    runWithLogContext({ runId: 'run-1' }, () =>
+      createLogger('geo').warn('No boundaries file', { path: 'data/caop.geojson' })
+    );
+
+    expect(lines[0]).toMatch(/WARN.*\[geo\] No boundaries file/);
+    expect(lines.join('\n')).toContain('path: "data/caop.geojson"');
+    expect(lines.join('\n')).not.toContain('run-1');
+  });
+});
@@ -0,0 +1,127 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PageArchive } from '../src/archive';
+import { pageKind, ScrapeMetrics } from '../src/metrics';
+import { IdealistaScraper } from '../src/scraper';
+import { buildSearchUrl } from '../src/search-filters';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-metrics-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function sampleMetrics(): ScrapeMetrics {
+  let now = Date.parse('2024-01-31T14:25:00.000Z');
+  const metrics = new ScrapeMetrics('20240131T142500-3f9a2c', () => now);
+
+  metrics.recordPage('search', 1200, 300_000);
+  metrics.recordPage('search', 800, 250_000);
+  metrics.recordPage('detail', 1000, 150_000);
+  metrics.recordBlocked('search', 'soft_challenge');
+  metrics.recordFailure('detail');
+  metrics.recordParseFailure('search');
+  metrics.recordProperties('lisboa', 30);
+  metrics.recordProperties('lisboa', 12);
+  metrics.recordProperties('vila-nova-de-gaia', 5);
+  metrics.setCount('scraped', 47);
+  metrics.setCount('stored', 40);
+
+  now += 90_000;
+  metrics.finish('success');
+  return metrics;
+}
+
+describe('ScrapeMetrics', () => {
+  it('summarises pages, latency, bytes and listings per location', () => {
+    expect(sampleMetrics().summary()).toEqual({
+      runId: '20240131T142500-3f9a2c',
+      status: 'success',
+      startedAt: '2024-01-31T14:25:00.000Z',
+      finishedAt: '2024-01-31T14:26:30.000Z',
+      durationMs: 90_000,
+      pages: {
+        fetched: 3,
+        blocked: 1,
+        failed: 1,
+        parseFailures: 1,
+        byKind: {
+          search: { fetched: 2, blocked: 1, failed: 0, parseFailures: 1 },
+          detail: { fetched: 1, blocked: 0, failed: 1, parseFailures: 0 },
+        },
+      },
+      blocks: { soft_challenge: 1 },
+      avgPageLatencyMs: 1000,
+      bytesDownloaded: 700_000,
+      properties: {
+        byLocation: { lisboa: 42, 'vila-nova-de-gaia': 5 },
+        counts: { scraped: 47, stored: 40 },
+      },
+    });
+  });
+
+  it('exports the Prometheus text format', () => {
+    const text = sampleMetrics().toPrometheus();
+
+    expect(text).toContain('# TYPE idealista_pages_fetched_total counter');
+    expect(text).toContain('idealista_pages_fetched_total{kind="search"} 2');
+    expect(text).toContain('idealista_blocks_total{outcome="soft_challenge"} 1');
+    expect(text).toContain('idealista_page_latency_seconds_sum 3\nidealista_page_latency_seconds_count 3');
+    expect(text).toContain('idealista_downloaded_bytes_total 700000');
+    expect(text).toContain('idealista_location_properties_total{location="lisboa"} 42');
+    expect(text).toContain('idealista_run_properties{stage="stored"} 40');
+    expect(text).toContain('idealista_run_success 1');
+    expect(text).toContain('idealista_run_last_success_timestamp_seconds 1706711190');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('writes the summary and textfile, and serves /metrics', async () => {
+    const metrics = sampleMetrics();
+    await metrics.writeSummary(join(dir, 'run-summary.json'));
+    await metrics.writeTextfile(join(dir, 'textfile', 'idealista.prom'));
+
+    expect(JSON.parse(readFileSync(join(dir, 'run-summary.json'), 'utf-8')).pages.fetched).toBe(3);
+    expect(readFileSync(join(dir, 'textfile', 'idealista.prom'), 'utf-8')).toBe(metrics.toPrometheus());
+
+    const server = await metrics.serve(0, '127.0.0.1');
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(await response.text()).toBe(metrics.toPrometheus());
+      expect((await fetch(`http://127.0.0.1:${port}/`)).status).toBe(404);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('tells search and detail pages apart', () => {
+    expect(pageKind('https://www.idealista.pt/imovel/33456789/')).toBe('detail');
+    expect(pageKind(buildSearchUrl('lisboa', 'sale', 2))).toBe('search');
+  });
+});
+
+describe('scraper metrics', () => {
+  it('counts listings per location and parse failures', async () => {
+    const archive = await PageArchive.open(dir);
+    const html = readFileSync(new URL('./fixtures/search-lisboa-sale.html', import.meta.url), 'utf-8');
+    await archive.save(buildSearchUrl('lisboa', 'sale', 1), html);
+    await archive.save(buildSearchUrl('porto', 'sale', 1), '<html>no data</html>');
+
+    const metrics = new ScrapeMetrics();
+    const scraper = new IdealistaScraper({ replay: archive, metrics });
+    await scraper.scrapeLocation('lisboa', 'sale', { maxPages: 1 });
+    await scraper.scrapeLocation('porto', 'sale', { maxPages: 1 });
+
+    const summary = metrics.summary();
+    expect(summary.properties.byLocation).toEqual({ lisboa: 3 });
+    expect(summary.pages.byKind.search.parseFailures).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractListingAttributes,
+  findCondition,
+  findEnergyCertificate,
+  parseConditionCode,
+  parseEnergyCertificate,
+  parseTypology,
+  typologyFor,
+} from '../src/normalizer';
+import type { IdealistaPropertyItem } from '../src/parser';
+import { transformToStandard } from '../src/transformer';
+import type { Property } from '../src/types';
+
+describe('parseTypology', () => {
+  it('reads T and V typologies from titles', () => {
+    expect(parseTypology('Apartamento T2 na Rua Morais Soares')).toEqual({ typology: 'T2', bedrooms: 2 });
+    expect(parseTypology('Moradia V4 no Restelo')).toEqual({ typology: 'V4', bedrooms: 4 });
+    expect(parseTypology('Estúdio t0 mobilado')).toEqual({ typology: 'T0', bedrooms: 0 });
+    expect(parseTypology('Apartamento T 3+1')).toEqual({ typology: 'T3', bedrooms: 3 });
+  });
+
+  it('groups six or more bedrooms and ignores other codes', () => {
+    expect(parseTypology('Moradia V7 com piscina')).toEqual({ typology: 'V6+', bedrooms: 7 });
+    expect(parseTypology('Loja com 120 m2')).toBeUndefined();
+    expect(parseTypology('Lote 2.5 ha')).toBeUndefined();
+    expect(typologyFor(3)).toBe('T3');
+    expect(typologyFor(6, true)).toBe('V6+');
+  });
+});
+
+describe('energy certificate', () => {
+  it('normalises idealista codes, letters and Portuguese', () => {
+    expect(parseEnergyCertificate('a_plus')).toBe('A+');
+    expect(parseEnergyCertificate('b_minus')).toBe('B-');
+    expect(parseEnergyCertificate(' c ')).toBe('C');
+    expect(parseEnergyCertificate('Isento')).toBe('exempt');
+    expect(parseEnergyCertificate('inProcess')).toBe('pending');
+    expect(parseEnergyCertificate('Em trâmite')).toBe('pending');
+    expect(parseEnergyCertificate('G')).toBeUndefined();
+  });
+
+  it('finds the certificate in descriptions', () => {
+    expect(findEnergyCertificate('Certificado energético: B-. Perto do metro.')).toBe('B-');
+    expect(findEnergyCertificate('Classe energética A+')).toBe('A+');
+    expect(findEnergyCertificate('Certificação energética: em trâmite')).toBe('pending');
+    expect(findEnergyCertificate('Eficiência energética isento')).toBe('exempt');
+    expect(findEnergyCertificate('Apartamento com boa exposição solar')).toBeUndefined();
+  });
+});
+
+describe('condition', () => {
+  it('maps status codes and Portuguese phrases', () => {
+    expect(parseConditionCode('newdevelopment')).toBe('new');
+    expect(parseConditionCode('good')).toBe('good');
+    expect(parseConditionCode('renew')).toBe('needs_renovation');
+    expect(findCondition('Moradia para recuperar, com terreno')).toBe('needs_renovation');
+    expect(findCondition('Apartamento a estrear')).toBe('new');
+    expect(findCondition('Em bom estado de conservação')).toBe('good');
+    expect(findCondition('Apartamento com varanda')).toBeUndefined();
+  });
+});
+
+describe('extractListingAttributes', () => {
+  it('prefers structured fields and falls back to text', () => {
+    const item: IdealistaPropertyItem = {
+      propertyType: 'chalet',
+      rooms: 3,
+      status: 'renew',
+      suggestedTexts: { title: 'Moradia em Sintra' },
+      description: 'Certificado energético: isento',
+    };
+
+    expect(extractListingAttributes(item)).toEqual({
+      typology: 'V3',
+      bedrooms: 3,
+      energyRating: 'exempt',
+      condition: 'needs_renovation',
+    });
+    expect(extractListingAttributes({ propertyType: 'flat', suggestedTexts: { title: 'Apartamento T1' } })).toMatchObject({
+      typology: 'T1',
+      bedrooms: 1,
+    });
+    expect(extractListingAttributes({ propertyType: 'garage', newDevelopment: true })).toEqual({
+      typology: undefined,
+      bedrooms: undefined,
+      energyRating: undefined,
+      condition: 'new',
+    });
+  });
+
+  it('maps into the standard format', () => {
+    const property: Property = {
+      id: '1',
+      title: 'Apartamento T2',
+      price: 300000,
+      currency: 'EUR',
+      propertyType: 'apartment',
+      transactionType: 'sale',
+      location: { city: 'Lisboa', country: 'Portugal' },
+      details: { bedrooms: 2, typology: 'T2', energyRating: 'pending', condition: 'new' },
+      features: [],
+      url: 'https://www.idealista.pt/imovel/1/',
+    };
+
+    const standard = transformToStandard(property);
+    expect(standard.energy_rating).toBeUndefined();
+    expect(standard.amenities?.is_new_construction).toBe(true);
+    expect(standard.country_specific).toMatchObject({
+      typology: 'T2',
+      energy_certificate: 'pending',
+      condition: 'new',
+    });
+    expect(transformToStandard({ ...property, details: { energyRating: 'B-' } }).energy_rating).toBe('B-');
+  });
+});
@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { classifyListingPage, parseDetailNextData } from '../src/detail-parser';
+import { extractSearchMetadata, parseNextData, type IdealistaNextData } from '../src/parser';
+import { IdealistaScraper } from '../src/scraper';
+import { transformToStandard } from '../src/transformer';
+import { validateProperty } from '../src/validation';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+function jsonFixture(name: string): IdealistaNextData {
+  return JSON.parse(fixture(name)) as IdealistaNextData;
+}
+
+// scrapedAt depends on the clock
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-03-01T12:00:00.000Z'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe('extractNextData', () => {
+  const scraper = new IdealistaScraper();
+
+  it('extracts the __NEXT_DATA__ JSON from a search page', () => {
+    const nextData = scraper.extractNextData(fixture('search-lisboa-sale.html'));
+
+    expect(nextData?.props?.pageProps?.searchData?.elementList).toHaveLength(3);
+  });
+
+  it('returns null when the script tag is missing', () => {
+    expect(scraper.extractNextData(fixture('no-next-data.html'))).toBeNull();
+    expect(scraper.extractNextData(fixture('datadome-captcha.html'))).toBeNull();
+  });
+
+  it('returns null when the script tag is empty or malformed', () => {
+    expect(scraper.extractNextData('<script id="__NEXT_DATA__" type="application/json"></script>')).toBeNull();
+    expect(scraper.extractNextData('<script id="__NEXT_DATA__" type="application/json">{"props":</script>')).toBeNull();
+  });
+});
+
+describe('search page fixtures', () => {
+  const scraper = new IdealistaScraper();
+
+  it('parses a sale search page', () => {
+    const nextData = scraper.extractNextData(fixture('search-lisboa-sale.html'))!;
+
+    expect(extractSearchMetadata(nextData)).toEqual({ total: 4213, currentPage: 2, totalPages: 141 });
+    expect(parseNextData(nextData, 'lisboa')).toMatchSnapshot();
+  });
+
+  it('parses a rent search page from raw __NEXT_DATA__ JSON', () => {
+    const nextData = jsonFixture('search-porto-rent.json');
+
+    expect(extractSearchMetadata(nextData)).toEqual({ total: 2, currentPage: 1, totalPages: 1 });
+    expect(parseNextData(nextData, 'porto')).toMatchSnapshot();
+  });
+
+  it('transforms parsed listings to the standard format', () => {
+    const nextData = scraper.extractNextData(fixture('search-lisboa-sale.html'))!;
+
+    expect(parseNextData(nextData, 'lisboa').map(transformToStandard)).toMatchSnapshot();
+  });
+
+  it('gives listings without a code an ID of their own that stays the same across runs', () => {
+    const nextData = {
+      props: {
+        pageProps: {
+          searchData: {
+            elementList: [
+              { price: 250000, size: 80, address: 'Rua da Prata', municipality: 'Lisboa', operation: 'sale' },
+              { price: 310000, size: 95, address: 'Rua Augusta', municipality: 'Lisboa', operation: 'sale' },
+            ],
+          },
+        },
+      },
+    } as IdealistaNextData;
+
+    const ids = parseNextData(nextData, 'lisboa').map((p) => p.id);
+    vi.setSystemTime(new Date('2024-03-08T12:00:00.000Z'));
+    const nextRun = parseNextData(nextData, 'lisboa').map((p) => p.id);
+    vi.setSystemTime(new Date('2024-03-01T12:00:00.000Z'));
+
+    expect(ids[0]).toMatch(/^idealista-[0-9a-f]{12}$/);
+    expect(ids[1]).not.toBe(ids[0]);
+    expect(nextRun).toEqual(ids);
+    expect(validateProperty(parseNextData(nextData, 'lisboa')[0]).map((issue) => issue.code)).toContain('synthetic_id');
+  });
+
+  it('returns no listings when searchData is missing', () => {
+    expect(parseNextData({ props: { pageProps: {} } } as IdealistaNextData, 'lisboa')).toEqual([]);
+    expect(extractSearchMetadata({} as IdealistaNextData)).toEqual({ total: 0, currentPage: 1, totalPages: 1 });
+  });
+});
+
+describe('detail page fixtures', () => {
+  it('parses a detail page', () => {
+    expect(parseDetailNextData(jsonFixture('detail-33456789.json'))).toMatchSnapshot();
+  });
+
+  it('returns null when the page has no advert', () => {
+    expect(parseDetailNextData(jsonFixture('search-porto-rent.json'))).toBeNull();
+  });
+});
+
+describe('listing status', () => {
+  const url = 'https://www.idealista.pt/imovel/33456789/';
+  const nextData = jsonFixture('detail-33456789.json');
+
+  function page(html: string, overrides = {}) {
+    return { propertyCode: '33456789', status: 200, url, html, nextData, ...overrides };
+  }
+
+  it('finds adverts still online', () => {
+    const check = classifyListingPage(page('<span class="tag">Luxo</span>'));
+
+    expect(check).toMatchObject({ status: 'active', detail: { constructionYear: 1950 } });
+  });
+
+  it('reads the reservado, vendido and arrendado labels but not the description', () => {
+    expect(classifyListingPage(page('<span class="tag"> Reservado </span>'))).toMatchObject({
+      status: 'reserved',
+      reason: 'Labelled "Reservado"',
+      detail: { postcode: '1900-361' },
+    });
+    expect(classifyListingPage(page('<div class="deactivated-detail">Imóvel vendido</div>')).status).toBe('sold');
+    expect(classifyListingPage(page('<span class="tag">Arrendado</span>')).status).toBe('rented');
+    expect(classifyListingPage(page('<div class="comment">Vendido com recheio</div>')).status).toBe('active');
+  });
+
+  it('treats missing, redirected and deactivated adverts as removed', () => {
+    expect(classifyListingPage(page('Not found', { status: 404, nextData: null }))).toEqual({
+      status: 'removed',
+      reason: 'HTTP 404',
+    });
+    expect(classifyListingPage(page('', { url: 'https://www.idealista.pt/comprar-casas/lisboa/' }))).toEqual({
+      status: 'removed',
+      reason: 'Redirected to /comprar-casas/lisboa/',
+    });
+    expect(
+      classifyListingPage(page('<div class="deactivated-detail">Este anúncio já não está disponível</div>')).status
+    ).toBe('removed');
+  });
+
+  it('leaves pages without an advert undecided', () => {
+    expect(classifyListingPage(page('', { nextData: jsonFixture('search-porto-rent.json') })).status).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mergePartitionResults, planPartitions } from '../src/partition';
+import type { SearchFilters } from '../src/search-filters';
+import type { Property } from '../src/types';
+
+interface Listing {
+  location: string;
+  price: number;
+  bedrooms: number;
+}
+
+/**
+ * Count function over an in-memory inventory, mimicking searchData.total
+ */
+function countFrom(inventory: Listing[]) {
+  return vi.fn(async (location: string, filters: SearchFilters) =>
+    inventory.filter(
+      (listing) =>
+        listing.location === location &&
+        (filters.minPrice === undefined || listing.price >= filters.minPrice) &&
+        (filters.maxPrice === undefined || listing.price <= filters.maxPrice) &&
+        (!filters.bedrooms || filters.bedrooms.includes(Math.min(listing.bedrooms, 5) as any))
+    ).length
+  );
+}
+
+function listings(count: number, make: (i: number) => Partial<Listing>): Listing[] {
+  return Array.from({ length: count }, (_, i) => ({
+    location: 'lisboa',
+    price: 100000,
+    bedrooms: 2,
+    ...make(i),
+  }));
+}
+
+describe('planPartitions', () => {
+  it('keeps a search that already fits as a single partition', async () => {
+    const count = countFrom(listings(500, (i) => ({ price: 1000 * i })));
+
+    const partitions = await planPartitions('lisboa', {}, count);
+
+    expect(partitions).toEqual([{ location: 'lisboa', filters: {}, total: 500 }]);
+    expect(count).toHaveBeenCalledTimes(1);
+  });
+
+  it('splits oversized searches into price bands that each fit and cover everything', async () => {
+    const inventory = listings(5000, (i) => ({ price: 50000 + i * 200 }));
+    const count = countFrom(inventory);
+
+    const partitions = await planPartitions('lisboa', {}, count, { maxResults: 1800 });
+
+    expect(partitions.length).toBeGreaterThan(2);
+    for (const partition of partitions) {
+      expect(partition.total).toBeLessThanOrEqual(1800);
+      expect(partition.filters.bedrooms).toBeUndefined();
+    }
+    expect(partitions.reduce((sum, p) => sum + p.total, 0)).toBe(5000);
+  });
+
+  it('keeps the top price band open-ended', async () => {
+    const count = countFrom(listings(3000, (i) => ({ price: i < 2000 ? 1000 : 20_000_000 + i })));
+
+    const partitions = await planPartitions('lisboa', {}, count, { maxResults: 2500 });
+
+    const top = partitions[partitions.length - 1];
+    expect(top.filters.minPrice).toBeGreaterThan(0);
+    expect(top.filters.maxPrice).toBeUndefined();
+    expect(partitions.reduce((sum, p) => sum + p.total, 0)).toBe(3000);
+  });
+
+  it('falls back to typology when prices cannot be split further', async () => {
+    const inventory = listings(3000, (i) => ({ price: 250000, bedrooms: i % 4 }));
+    const count = countFrom(inventory);
+
+    const partitions = await planPartitions('lisboa', {}, count, { maxResults: 1000 });
+
+    expect(partitions.map((p) => p.filters.bedrooms)).toEqual([[0], [1], [2], [3]]);
+    expect(partitions.every((p) => p.total === 750)).toBe(true);
+  });
+
+  it('does not split non-home categories by typology', async () => {
+    const count = vi.fn(async () => 5000);
+
+    const partitions = await planPartitions('lisboa', { category: 'land', minPrice: 100, maxPrice: 105 }, count);
+
+    expect(partitions).toHaveLength(1);
+    expect(partitions[0].total).toBe(5000);
+  });
+
+  it('falls back to sub-areas after price and typology', async () => {
+    const inventory = [
+      ...listings(900, () => ({ location: 'arroios', bedrooms: 1 })),
+      ...listings(900, () => ({ location: 'alvalade', bedrooms: 1 })),
+    ].map((listing) => ({ ...listing, price: 300000 }));
+    const count = vi.fn(async (location: string, filters: SearchFilters) =>
+      location === 'lisboa'
+        ? (!filters.bedrooms || filters.bedrooms.includes(1) ? 1800 : 0)
+        : countFrom(inventory)(location, filters)
+    );
+
+    const partitions = await planPartitions('lisboa', { minPrice: 300000, maxPrice: 300000 }, count, {
+      maxResults: 1000,
+      subAreas: (location) => (location === 'lisboa' ? ['arroios', 'alvalade'] : []),
+    });
+
+    expect(partitions.map((p) => [p.location, p.total])).toEqual([
+      ['arroios', 900],
+      ['alvalade', 900],
+    ]);
+  });
+
+  it('skips splits that do not narrow the search down', async () => {
+    const inventory = listings(3000, (i) => ({ price: 1000 * i, bedrooms: i % 4 }));
+    // As if idealista ignored the price filter
+    const count = vi.fn(async (location: string, filters: SearchFilters) =>
+      countFrom(inventory)(location, { bedrooms: filters.bedrooms })
+    );
+
+    const partitions = await planPartitions('lisboa', {}, count, { maxResults: 1000 });
+
+    expect(partitions.map((p) => [p.filters.bedrooms, p.total])).toEqual([
+      [[0], 750],
+      [[1], 750],
+      [[2], 750],
+      [[3], 750],
+    ]);
+    // The search, both price bands, then the six typologies
+    expect(count).toHaveBeenCalledTimes(9);
+  });
+
+  it('keeps a search no strategy can narrow down as one partition', async () => {
+    const count = vi.fn(async () => 5000);
+
+    const partitions = await planPartitions('lisboa', {}, count, {
+      maxResults: 1800,
+      subAreas: () => ['lisboa/arroios', 'lisboa/belem'],
+    });
+
+    expect(partitions).toEqual([{ location: 'lisboa', filters: {}, total: 5000 }]);
+    expect(count).toHaveBeenCalledTimes(11);
+  });
+
+  it('drops empty partitions', async () => {
+    const count = countFrom(listings(2000, (i) => ({ price: i < 1000 ? 10 : 9_000_000 })));
+
+    const partitions = await planPartitions('lisboa', {}, count, { maxResults: 1500 });
+
+    expect(partitions.every((p) => p.total > 0)).toBe(true);
+    expect(partitions.reduce((sum, p) => sum + p.total, 0)).toBe(2000);
+  });
+});
+
+describe('mergePartitionResults', () => {
+  it('de-duplicates listings that appear in more than one partition', () => {
+    const property = (id: string) => ({ id }) as Property;
+
+    const merged = mergePartitionResults([
+      [property('1'), property('2')],
+      [property('2'), property('3')],
+    ]);
+
+    expect(merged.map((p) => p.id)).toEqual(['1', '2', '3']);
+  });
+});
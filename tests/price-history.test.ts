@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MemoryPriceHistoryStore,
+  findPriceDrops,
+  queryPriceDrops,
+  recordPriceHistory,
+} from '../src/price-history';
+import { transformToStandard } from '../src/transformer';
+import type { PricePoint, Property } from '../src/types';
+
+function property(id: string, price: number, scrapedAt: string): Property {
+  return {
+    id,
+    title: 'Moradia V3',
+    price,
+    priceByArea: Math.round(price / 100),
+    currency: 'EUR',
+    propertyType: 'villa',
+    transactionType: 'sale',
+    location: { city: 'Faro', country: 'Portugal' },
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    scrapedAt,
+  };
+}
+
+describe('recordPriceHistory', () => {
+  it('appends a point only when the price changes', async () => {
+    const store = new MemoryPriceHistoryStore();
+
+    await recordPriceHistory([property('1', 300000, '2024-01-01T00:00:00.000Z')], store);
+    await recordPriceHistory([property('1', 300000, '2024-01-08T00:00:00.000Z')], store);
+    const [latest] = await recordPriceHistory([property('1', 280000, '2024-01-15T00:00:00.000Z')], store);
+
+    expect(latest.priceHistory).toEqual([
+      { timestamp: '2024-01-01T00:00:00.000Z', price: 300000, priceByArea: 3000 },
+      { timestamp: '2024-01-15T00:00:00.000Z', price: 280000, priceByArea: 2800 },
+    ]);
+    expect(await store.get('1')).toEqual(latest.priceHistory);
+  });
+
+  it('ignores listings without a price', async () => {
+    const store = new MemoryPriceHistoryStore();
+
+    const [result] = await recordPriceHistory([property('1', 0, '2024-01-01T00:00:00.000Z')], store);
+
+    expect(result.priceHistory).toEqual([]);
+  });
+
+  it('exposes the history in country_specific', async () => {
+    const [result] = await recordPriceHistory(
+      [property('1', 300000, '2024-01-01T00:00:00.000Z')],
+      new MemoryPriceHistoryStore()
+    );
+
+    expect(transformToStandard(result).country_specific?.price_history).toEqual([
+      { timestamp: '2024-01-01T00:00:00.000Z', price: 300000, price_per_sqm: 3000 },
+    ]);
+  });
+});
+
+describe('findPriceDrops', () => {
+  const now = new Date('2024-03-01T00:00:00.000Z');
+  const point = (timestamp: string, price: number): PricePoint => ({ timestamp, price });
+
+  it('finds drops above the threshold within the window', () => {
+    const histories = new Map([
+      ['big-drop', [point('2024-01-01T00:00:00.000Z', 400000), point('2024-02-20T00:00:00.000Z', 340000)]],
+      ['small-drop', [point('2024-01-01T00:00:00.000Z', 400000), point('2024-02-20T00:00:00.000Z', 390000)]],
+      ['increase', [point('2024-01-01T00:00:00.000Z', 400000), point('2024-02-20T00:00:00.000Z', 420000)]],
+    ]);
+
+    const drops = findPriceDrops(histories, { minDropPercent: 10, withinDays: 30, now });
+
+    expect(drops).toEqual([
+      {
+        id: 'big-drop',
+        fromPrice: 400000,
+        toPrice: 340000,
+        dropPercent: 15,
+        since: '2024-01-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('ignores drops that happened before the window', () => {
+    const histories = new Map([
+      ['old-drop', [point('2023-06-01T00:00:00.000Z', 400000), point('2023-07-01T00:00:00.000Z', 300000)]],
+    ]);
+
+    expect(findPriceDrops(histories, { minDropPercent: 5, withinDays: 30, now })).toEqual([]);
+  });
+
+  it('measures from the highest price in the window across several steps', () => {
+    const histories = new Map([
+      [
+        'stepped',
+        [
+          point('2024-02-05T00:00:00.000Z', 500000),
+          point('2024-02-15T00:00:00.000Z', 470000),
+          point('2024-02-25T00:00:00.000Z', 440000),
+        ],
+      ],
+    ]);
+
+    const [drop] = findPriceDrops(histories, { minDropPercent: 10, withinDays: 30, now });
+
+    expect(drop).toMatchObject({ fromPrice: 500000, toPrice: 440000, dropPercent: 12 });
+  });
+});
+
+describe('queryPriceDrops', () => {
+  it('loads histories from the store', async () => {
+    const store = new MemoryPriceHistoryStore();
+    await store.append('1', { timestamp: '2024-02-01T00:00:00.000Z', price: 1000 });
+    await store.append('1', { timestamp: '2024-02-10T00:00:00.000Z', price: 800 });
+
+    const drops = await queryPriceDrops(['1', '2'], store, {
+      minDropPercent: 10,
+      withinDays: 30,
+      now: new Date('2024-02-20T00:00:00.000Z'),
+    });
+
+    expect(drops.map((d) => [d.id, d.dropPercent])).toEqual([['1', 20]]);
+  });
+});
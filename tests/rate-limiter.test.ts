@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../src/rate-limiter';
+
+/**
+ * Clock that only moves when the limiter sleeps; sleeping yields first so
+ * requests that were already let through start at the time they were allowed
+ */
+function fakeClock() {
+  const clock = { time: 0 };
+  return {
+    clock,
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      clock.time += ms;
+    },
+  };
+}
+
+describe('RateLimiter', () => {
+  it('spaces requests by the interval', async () => {
+    const { clock, now, sleep } = fakeClock();
+    const limiter = new RateLimiter({ intervalMs: 1000, now, sleep });
+    const startedAt: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.schedule(async () => startedAt.push(clock.time));
+    }
+
+    expect(startedAt).toEqual([0, 1000, 2000]);
+  });
+
+  it('allows a burst after an idle period', async () => {
+    const { clock, now, sleep } = fakeClock();
+    const limiter = new RateLimiter({ intervalMs: 1000, burst: 3, now, sleep });
+    clock.time = 10_000;
+    const startedAt: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      await limiter.schedule(async () => startedAt.push(clock.time));
+    }
+
+    expect(startedAt).toEqual([10_000, 10_000, 10_000, 11_000]);
+  });
+
+  it('keeps the rate across concurrent callers', async () => {
+    const { clock, now, sleep } = fakeClock();
+    const limiter = new RateLimiter({ intervalMs: 500, maxConcurrent: 10, now, sleep });
+    const startedAt: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 4 }, () => limiter.schedule(async () => startedAt.push(clock.time)))
+    );
+
+    expect(startedAt).toEqual([0, 500, 1000, 1500]);
+  });
+
+  it('caps requests in flight', async () => {
+    const { now, sleep } = fakeClock();
+    const limiter = new RateLimiter({ intervalMs: 0, maxConcurrent: 2, now, sleep });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.schedule(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it('reads its limits from the environment', () => {
+    process.env.REQUEST_DELAY_MS = '2500';
+    process.env.MAX_CONCURRENT_REQUESTS = '3';
+    try {
+      const limiter = RateLimiter.fromEnv();
+      expect([limiter.intervalMs, limiter.maxConcurrent]).toEqual([2500, 3]);
+    } finally {
+      delete process.env.REQUEST_DELAY_MS;
+      delete process.env.MAX_CONCURRENT_REQUESTS;
+    }
+  });
+});
@@ -0,0 +1,186 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PageArchive } from '../src/archive';
+import type { ListingCheck } from '../src/detail-parser';
+import { BlockedError } from '../src/errors';
+import { ListingChecker, RecheckStore, recheckStaleListings } from '../src/recheck';
+import { IdealistaScraper } from '../src/scraper';
+import type { ListingStatus, Property } from '../src/types';
+
+const NOW = Date.parse('2024-03-01T12:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function property(id: string, status?: ListingStatus): Property {
+  return {
+    id,
+    title: 'Apartamento T2',
+    price: 495000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: 'Lisboa', country: 'Portugal' },
+    details: {},
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    scrapedAt: '2024-02-01T12:00:00.000Z',
+    status,
+  };
+}
+
+/**
+ * Listings with the number of days since each was last seen
+ */
+function memoryStore(listings: Array<[Property, number]>) {
+  const saved: Property[][] = [];
+  const store: RecheckStore = {
+    staleIds: async (before) =>
+      listings
+        .filter(([, days]) => NOW - days * DAY < before)
+        .sort(([, a], [, b]) => b - a)
+        .map(([p]) => p.id),
+    load: async (ids) => listings.map(([p]) => p).filter((p) => ids.includes(p.id)),
+    save: async (properties) => {
+      saved.push(properties);
+    },
+  };
+  return { store, saved };
+}
+
+function checker(checks: Record<string, ListingCheck | Error>): ListingChecker {
+  return {
+    checkListing: vi.fn(async (code: string) => {
+      const check = checks[code];
+      if (check instanceof Error) throw check;
+      return check;
+    }),
+  };
+}
+
+describe('recheckStaleListings', () => {
+  it('checks listings not seen in recheckAfterDays, oldest first, and stores their status', async () => {
+    const { store, saved } = memoryStore([
+      [property('fresh'), 2],
+      [property('sold'), 30],
+      [property('online'), 10],
+      [property('reserved'), 12],
+      [property('gone', 'removed'), 60],
+    ]);
+    const onChanges = vi.fn(async () => undefined);
+
+    const report = await recheckStaleListings({
+      store,
+      checker: checker({
+        sold: { status: 'sold', reason: 'Labelled "Vendido"' },
+        reserved: { status: 'reserved', reason: 'Labelled "Reservado"', detail: { constructionYear: 1950 } },
+        online: { status: 'active', reason: 'Advert online', detail: { postcode: '1900-361' } },
+      }),
+      recheckAfterDays: 7,
+      recheckBatchSize: 2,
+      onChanges,
+      now: () => NOW,
+    });
+
+    expect(report).toMatchObject({
+      staleIds: 4,
+      batches: 2,
+      checked: 3,
+      statuses: { sold: 1, reserved: 1, active: 1 },
+      transitions: [
+        { id: 'sold', from: 'active', to: 'sold' },
+        { id: 'reserved', from: 'active', to: 'reserved' },
+      ],
+      blocked: false,
+    });
+    expect(saved.map((batch) => batch.map((p) => p.id))).toEqual([['sold', 'reserved'], ['online']]);
+
+    const [sold, reserved] = saved[0];
+    expect(sold).toMatchObject({ status: 'sold', scrapedAt: '2024-02-01T12:00:00.000Z' });
+    expect(reserved).toMatchObject({
+      status: 'reserved',
+      details: { constructionYear: 1950 },
+      scrapedAt: '2024-03-01T12:00:00.000Z',
+    });
+    expect(saved[1][0]).toMatchObject({ status: 'active', location: { postcode: '1900-361' } });
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(onChanges).toHaveBeenCalledWith([sold, reserved]);
+  });
+
+  it('leaves undecided and failed listings for the next recheck and stops when hard-blocked', async () => {
+    const { store, saved } = memoryStore([
+      [property('a'), 10],
+      [property('b'), 9],
+      [property('c'), 8],
+      [property('d'), 8],
+    ]);
+
+    const report = await recheckStaleListings({
+      store,
+      checker: checker({
+        a: { status: null, reason: 'No advert found in the page' },
+        b: new Error('Timeout 60000ms exceeded'),
+        c: { status: 'removed', reason: 'HTTP 404' },
+        d: new BlockedError('hard_block', { url: 'https://www.idealista.pt/imovel/d/' }),
+      }),
+      recheckBatchSize: 10,
+      now: () => NOW,
+    });
+
+    expect(report).toMatchObject({ checked: 2, undetermined: 1, failed: 1, blocked: true });
+    expect(saved).toEqual([[expect.objectContaining({ id: 'c', status: 'removed' })]]);
+  });
+
+  it('stores nothing on a dry run and stops after maxBatches', async () => {
+    const { store, saved } = memoryStore([
+      [property('a'), 10],
+      [property('b'), 9],
+    ]);
+    const listingChecker = checker({ a: { status: 'removed', reason: 'HTTP 404' } });
+
+    const report = await recheckStaleListings({
+      store,
+      checker: listingChecker,
+      recheckBatchSize: 1,
+      maxBatches: 1,
+      dryRun: true,
+      now: () => NOW,
+    });
+
+    expect(report).toMatchObject({ batches: 1, statuses: { removed: 1 } });
+    expect(listingChecker.checkListing).toHaveBeenCalledTimes(1);
+    expect(saved).toEqual([]);
+  });
+});
+
+describe('IdealistaScraper.checkListing', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'idealista-recheck-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('classifies archived detail pages', async () => {
+    const archive = await PageArchive.open(dir);
+    const detail = readFileSync(new URL('./fixtures/detail-33456789.json', import.meta.url), 'utf-8');
+    await archive.save(
+      'https://www.idealista.pt/imovel/33456789/',
+      `<span class="tag">Reservado</span><script id="__NEXT_DATA__" type="application/json">${detail}</script>`,
+      { status: 200 }
+    );
+    await archive.save('https://www.idealista.pt/imovel/33112233/', '<h1>Página não encontrada</h1>', { status: 404 });
+
+    const scraper = new IdealistaScraper({ replay: archive });
+
+    expect(await scraper.checkListing('33456789')).toMatchObject({
+      status: 'reserved',
+      detail: { energyRating: 'B-' },
+    });
+    expect(await scraper.checkListing('33112233')).toEqual({ status: 'removed', reason: 'HTTP 404' });
+    expect(await scraper.checkListing('33998877')).toEqual({ status: null, reason: 'Not in replay archive' });
+  });
+});
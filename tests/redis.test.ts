@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getIdsLastSeenBefore,
+  getProperties,
+  getPropertiesByIndex,
+  getSeenTimestamps,
+  indexKey,
+  KEY_PREFIX,
+  loadSnapshot,
+  propertyKey,
+  RedisClient,
+  saveProperties,
+  setRedisClient,
+  touchProperties,
+} from '../src/redis';
+import type { ListingStatus, Property } from '../src/types';
+
+function property(id: string, city = 'Vila Nova de Gaia', status?: ListingStatus): Property {
+  return {
+    id,
+    title: 'Apartamento T2',
+    price: 1200,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'rent',
+    location: { city, country: 'Portugal' },
+    details: {},
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    status,
+  };
+}
+
+/**
+ * In-memory stand-in for the node-redis commands redis.ts uses
+ */
+function memoryRedis() {
+  const strings = new Map<string, string>();
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, string>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const entry = <T>(map: Map<string, T>, key: string, create: () => T): T => {
+    if (!map.has(key)) map.set(key, create());
+    return map.get(key)!;
+  };
+
+  const transactions: string[][] = [];
+  const client = {
+    isOpen: true,
+    // Queued commands run on exec(), one transaction per call
+    multi: () => {
+      const queued: Array<[string, unknown[]]> = [];
+      const transaction: Record<string, unknown> = {
+        exec: async () => {
+          transactions.push(queued.map(([name]) => name));
+          for (const [name, args] of queued) await (client[name] as (...a: unknown[]) => Promise<unknown>)(...args);
+        },
+      };
+      for (const name of ['set', 'sAdd', 'hSetNX', 'zAdd']) {
+        transaction[name] = (...args: unknown[]) => {
+          queued.push([name, args]);
+          return transaction;
+        };
+      }
+      return transaction;
+    },
+    set: async (key: string, value: string) => void strings.set(key, value),
+    get: async (key: string) => strings.get(key) ?? null,
+    mGet: async (keys: string[]) => keys.map((key) => strings.get(key) ?? null),
+    sAdd: async (key: string, member: string) => void entry(sets, key, () => new Set()).add(member),
+    sMembers: async (key: string) => [...(sets.get(key) ?? [])],
+    hSetNX: async (key: string, field: string, value: string) => {
+      const hash = entry(hashes, key, () => new Map());
+      if (hash.has(field)) return false;
+      hash.set(field, value);
+      return true;
+    },
+    hGet: async (key: string, field: string) => hashes.get(key)?.get(field),
+    zAdd: async (key: string, members: { score: number; value: string } | Array<{ score: number; value: string }>) => {
+      const zset = entry(sortedSets, key, () => new Map());
+      for (const { score, value } of [members].flat()) zset.set(value, score);
+    },
+    zScore: async (key: string, member: string) => sortedSets.get(key)?.get(member) ?? null,
+    zRangeByScore: async (key: string, _min: string, max: string) =>
+      [...(sortedSets.get(key) ?? [])]
+        .filter(([, score]) => score < Number(max.replace('(', '')))
+        .sort(([, a], [, b]) => a - b)
+        .map(([member]) => member),
+  };
+  return { client, strings, sets, hashes, sortedSets, transactions };
+}
+
+describe('redis persistence', () => {
+  let redis: ReturnType<typeof memoryRedis>;
+
+  beforeEach(() => {
+    redis = memoryRedis();
+    setRedisClient(redis.client as unknown as RedisClient);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-31T14:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setRedisClient(null);
+  });
+
+  it('stores listings under their key and in the location index', async () => {
+    await saveProperties([property('1'), property('2', 'Porto')]);
+
+    expect(JSON.parse(redis.strings.get(propertyKey('1'))!)).toMatchObject({ id: '1', price: 1200 });
+    expect(indexKey('Vila Nova de Gaia', 'rent')).toBe(`${KEY_PREFIX}:index:vila-nova-de-gaia:rent`);
+    expect(redis.sets.get(`${KEY_PREFIX}:index:vila-nova-de-gaia:rent`)).toEqual(new Set(['1']));
+    expect(redis.sets.get(`${KEY_PREFIX}:index:porto:rent`)).toEqual(new Set(['2']));
+
+    expect((await getPropertiesByIndex('vila nova de gaia', 'rent')).map((p) => p.id)).toEqual(['1']);
+    expect((await loadSnapshot(['Porto', 'Vila Nova de Gaia', 'Porto'], 'rent')).map((p) => p.id)).toEqual([
+      '2',
+      '1',
+    ]);
+    expect((await getProperties(['2', 'missing', '1'])).map((p) => p.id)).toEqual(['2', '1']);
+  });
+
+  it('writes each batch of listings in one transaction', async () => {
+    const properties = Array.from({ length: 150 }, (_, i) => property(String(i)));
+    properties[0].status = 'sold';
+
+    await saveProperties(properties);
+
+    expect(redis.transactions).toHaveLength(2);
+    expect(redis.transactions[0].slice(0, 7)).toEqual(['set', 'sAdd', 'hSetNX', 'set', 'sAdd', 'hSetNX', 'zAdd']);
+    expect(redis.transactions[1]).toHaveLength(50 * 4);
+    expect(redis.sets.get(`${KEY_PREFIX}:index:vila-nova-de-gaia:rent`)?.size).toBe(150);
+  });
+
+  it('keeps the first-seen time and bumps the last-seen time of listed properties', async () => {
+    await saveProperties([property('1')]);
+    vi.setSystemTime(new Date('2024-02-07T09:30:00.000Z'));
+    await saveProperties([property('1', 'Vila Nova de Gaia', 'reserved')]);
+
+    expect(await getSeenTimestamps('1')).toEqual({
+      firstSeen: '2024-01-31T14:00:00.000Z',
+      lastSeen: '2024-02-07T09:30:00.000Z',
+    });
+    expect(await getSeenTimestamps('unknown')).toEqual({ firstSeen: undefined, lastSeen: undefined });
+  });
+
+  it('does not bump the last-seen time of listings off the market', async () => {
+    await saveProperties([property('1'), property('2')]);
+    vi.setSystemTime(new Date('2024-02-14T14:00:00.000Z'));
+    await saveProperties([property('1', 'Vila Nova de Gaia', 'sold')]);
+    await touchProperties(['2']);
+
+    expect((await getSeenTimestamps('1')).lastSeen).toBe('2024-01-31T14:00:00.000Z');
+    expect(JSON.parse(redis.strings.get(propertyKey('1'))!).status).toBe('sold');
+    expect(await getIdsLastSeenBefore(Date.parse('2024-02-07T00:00:00.000Z'))).toEqual(['1']);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BlockedError } from '../src/errors';
+import { PoolScraper, ScraperPool } from '../src/scraper-pool';
+import type { ScrapeResult } from '../src/scraper';
+import type { Property } from '../src/types';
+
+const PAGES: Record<string, number> = { lisboa: 3, porto: 2, faro: 1 };
+
+function page(location: string, pageNumber: number): ScrapeResult {
+  const totalPages = PAGES[location];
+  return {
+    properties: [1, 2].map((n) => ({ id: `${location}-${pageNumber}-${n}` }) as Property),
+    totalFound: totalPages * 2,
+    currentPage: pageNumber,
+    totalPages,
+    hasNextPage: pageNumber < totalPages,
+  };
+}
+
+function fakeScraper(overrides: Partial<PoolScraper> = {}): PoolScraper {
+  return {
+    initialize: vi.fn(async () => undefined),
+    close: vi.fn(async () => undefined),
+    rotateProxy: vi.fn(async () => false),
+    enrichWithDetails: vi.fn(async (properties: Property[]) =>
+      properties.map((p) => ({ ...p, description: 'detail' }))
+    ),
+    scrapePage: vi.fn(async (location: string, _tx?: 'sale' | 'rent', pageNumber = 1) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return page(location, pageNumber);
+    }),
+    ...overrides,
+  };
+}
+
+describe('ScraperPool', () => {
+  it('spreads pages over workers and returns listings in location and page order', async () => {
+    const scrapers = [fakeScraper(), fakeScraper(), fakeScraper()];
+    let created = 0;
+    const pool = new ScraperPool({ size: 3, createScraper: () => scrapers[created++] });
+    await pool.initialize();
+
+    const properties = await pool.scrapeLocations(['lisboa', 'porto', 'faro'], 'sale', {
+      maxPagesPerLocation: 5,
+    });
+
+    expect(properties.map((p) => p.id)).toEqual([
+      'lisboa-1-1', 'lisboa-1-2', 'lisboa-2-1', 'lisboa-2-2', 'lisboa-3-1', 'lisboa-3-2',
+      'porto-1-1', 'porto-1-2', 'porto-2-1', 'porto-2-2',
+      'faro-1-1', 'faro-1-2',
+    ]);
+    const calls = scrapers.map((s) => (s.scrapePage as any).mock.calls.length);
+    expect(calls.reduce((a, b) => a + b, 0)).toBe(6);
+    expect(calls.every((n) => n > 0)).toBe(true);
+  });
+
+  it('gives each worker its own fingerprint', async () => {
+    const createScraper = vi.fn(() => fakeScraper());
+    const pool = new ScraperPool({ size: 2, createScraper });
+    await pool.initialize();
+
+    const [first, second] = createScraper.mock.calls.map(([options]: any[]) => options);
+    expect(first.fingerprint.userAgent).toBeDefined();
+    expect(first.rotatePerLocation).toBe(false);
+    expect(second.fingerprint).not.toBe(first.fingerprint);
+  });
+
+  it('retries a blocked page on another worker', async () => {
+    const blocked = fakeScraper({
+      scrapePage: vi.fn(async () => {
+        throw new BlockedError('hard_block', { status: 403 });
+      }),
+    });
+    const healthy = fakeScraper();
+    const scrapers = [blocked, healthy];
+    let created = 0;
+    const pool = new ScraperPool({ size: 2, createScraper: () => scrapers[created++] });
+    await pool.initialize();
+
+    const properties = await pool.scrapeLocations(['porto'], 'sale', { maxPagesPerLocation: 5 });
+
+    expect(properties).toHaveLength(4);
+    expect(blocked.scrapePage).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries pages that fail for other reasons, then gives up on them', async () => {
+    const attempts = new Map<number, number>();
+    const scraper = fakeScraper({
+      scrapePage: vi.fn(async (location: string, _tx?: 'sale' | 'rent', pageNumber = 1) => {
+        attempts.set(pageNumber, (attempts.get(pageNumber) ?? 0) + 1);
+        // Page 2 times out once; page 3 never loads
+        if ((pageNumber === 2 && attempts.get(2) === 1) || pageNumber === 3) {
+          throw new Error('Timeout 60000ms exceeded');
+        }
+        return page(location, pageNumber);
+      }),
+    });
+    const pool = new ScraperPool({ size: 1, createScraper: () => scraper });
+    await pool.initialize();
+
+    const properties = await pool.scrapeLocations(['lisboa'], 'sale', { maxPagesPerLocation: 5 });
+
+    expect(properties.map((p) => p.id)).toEqual(['lisboa-1-1', 'lisboa-1-2', 'lisboa-2-1', 'lisboa-2-2']);
+    expect(Object.fromEntries(attempts)).toEqual({ 1: 1, 2: 2, 3: 3 });
+  });
+
+  it('probes the next page once the first page has failed every try', async () => {
+    const scraper = fakeScraper({
+      scrapePage: vi.fn(async (location: string, _tx?: 'sale' | 'rent', pageNumber = 1) => {
+        if (pageNumber === 1) throw new Error('No Next.js data in page');
+        return page(location, pageNumber);
+      }),
+    });
+    const pool = new ScraperPool({ size: 1, createScraper: () => scraper });
+    await pool.initialize();
+
+    const properties = await pool.scrapeLocations(['porto'], 'sale', { maxPagesPerLocation: 5 });
+
+    expect(properties.map((p) => p.id)).toEqual(['porto-2-1', 'porto-2-2']);
+    expect(scraper.scrapePage).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops taking jobs once the limit is reached', async () => {
+    const pool = new ScraperPool({ size: 1, createScraper: () => fakeScraper() });
+    await pool.initialize();
+
+    const properties = await pool.scrapeLocations(['lisboa', 'porto'], 'sale', { limit: 3 });
+
+    expect(properties.map((p) => p.id)).toEqual(['lisboa-1-1', 'lisboa-1-2', 'lisboa-2-1']);
+  });
+
+  it('splits detail fetches across workers, keeping order', async () => {
+    const pool = new ScraperPool({ size: 2, createScraper: () => fakeScraper() });
+    await pool.initialize();
+
+    const enriched = await pool.enrichWithDetails(['a', 'b', 'c'].map((id) => ({ id }) as Property));
+
+    expect(enriched.map((p) => [p.id, p.description])).toEqual([
+      ['a', 'detail'],
+      ['b', 'detail'],
+      ['c', 'detail'],
+    ]);
+  });
+
+  it('shares the detail concurrency out between workers', async () => {
+    const scrapers = [fakeScraper(), fakeScraper(), fakeScraper()];
+    let created = 0;
+    const pool = new ScraperPool({ size: 3, createScraper: () => scrapers[created++] });
+    await pool.initialize();
+    const properties = ['a', 'b', 'c'].map((id) => ({ id }) as Property);
+
+    await pool.enrichWithDetails(properties, { concurrency: 7, delayMs: 500 });
+    await pool.enrichWithDetails(properties, { concurrency: 2 });
+
+    const options = (scraper: PoolScraper) => (scraper.enrichWithDetails as any).mock.calls.map(([, o]: any[]) => o);
+    expect(options(scrapers[0])).toEqual([{ concurrency: 2, delayMs: 500 }, { concurrency: 1 }]);
+    expect(options(scrapers[2])).toEqual([{ concurrency: 2, delayMs: 500 }, { concurrency: 1 }]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildFilterSegment,
+  buildSearchUrl,
+  describeSearchFilters,
+  parseBedrooms,
+  validateSearchFilters,
+} from '../src/search-filters';
+
+describe('buildSearchUrl', () => {
+  it('builds unfiltered sale and rent URLs', () => {
+    expect(buildSearchUrl('lisboa')).toBe('https://www.idealista.pt/comprar-casas/lisboa/');
+    expect(buildSearchUrl('porto', 'rent')).toBe('https://www.idealista.pt/arrendar-casas/porto/');
+  });
+
+  it('appends the page slug after page 1', () => {
+    expect(buildSearchUrl('faro', 'sale', 1)).toBe('https://www.idealista.pt/comprar-casas/faro/');
+    expect(buildSearchUrl('faro', 'sale', 3)).toBe(
+      'https://www.idealista.pt/comprar-casas/faro/pagina-3.html'
+    );
+  });
+
+  it('encodes price, size, typology and new-development filters in one segment', () => {
+    const url = buildSearchUrl('lisboa', 'sale', 2, {
+      minPrice: 100000,
+      maxPrice: 400000,
+      minSize: 70,
+      maxSize: 150,
+      bedrooms: [3, 2],
+      newDevelopment: true,
+    });
+    expect(url).toBe(
+      'https://www.idealista.pt/comprar-casas/lisboa/' +
+        'com-preco-max_400000,preco-min_100000,tamanho-max_150,tamanho-min_70,t2,t3,obra-nova/' +
+        'pagina-2.html'
+    );
+  });
+
+  it('maps categories to their path slug', () => {
+    expect(buildSearchUrl('braga', 'sale', 1, { category: 'offices' })).toBe(
+      'https://www.idealista.pt/comprar-escritorios/braga/'
+    );
+    expect(buildSearchUrl('braga', 'rent', 1, { category: 'garages' })).toBe(
+      'https://www.idealista.pt/arrendar-garagens/braga/'
+    );
+    expect(buildSearchUrl('evora', 'sale', 1, { category: 'land' })).toBe(
+      'https://www.idealista.pt/comprar-terrenos/evora/'
+    );
+    expect(buildSearchUrl('coimbra', 'rent', 1, { category: 'rooms' })).toBe(
+      'https://www.idealista.pt/arrendar-quartos/coimbra/'
+    );
+  });
+
+  it('adds the sort order as a query parameter', () => {
+    expect(buildSearchUrl('lisboa', 'sale', 2, { sort: 'price-asc' })).toBe(
+      'https://www.idealista.pt/comprar-casas/lisboa/pagina-2.html?ordem=precos-asc'
+    );
+    expect(buildSearchUrl('lisboa', 'sale', 1, { sort: 'relevance' })).toBe(
+      'https://www.idealista.pt/comprar-casas/lisboa/'
+    );
+  });
+
+  it('rejects rooms for sale', () => {
+    expect(() => buildSearchUrl('lisboa', 'sale', 1, { category: 'rooms' })).toThrow(/rent/);
+  });
+});
+
+describe('buildFilterSegment', () => {
+  it('is empty without filters', () => {
+    expect(buildFilterSegment()).toBe('');
+    expect(buildFilterSegment({ category: 'offices', sort: 'newest' })).toBe('');
+  });
+
+  it('de-duplicates typologies and marks T5 as "or more"', () => {
+    expect(buildFilterSegment({ bedrooms: [5, 0, 5] })).toBe('com-t0,t5-ou-mais');
+  });
+
+  it('rounds fractional values', () => {
+    expect(buildFilterSegment({ maxPrice: 1234.6 })).toBe('com-preco-max_1235');
+  });
+});
+
+describe('validateSearchFilters', () => {
+  it('rejects inverted ranges', () => {
+    expect(() => validateSearchFilters({ minPrice: 500, maxPrice: 100 })).toThrow(/minPrice/);
+    expect(() => validateSearchFilters({ minSize: 90, maxSize: 50 })).toThrow(/minSize/);
+  });
+
+  it('rejects negative and non-numeric values', () => {
+    expect(() => validateSearchFilters({ maxPrice: -1 })).toThrow(/maxPrice/);
+    expect(() => validateSearchFilters({ minSize: NaN })).toThrow(/minSize/);
+  });
+
+  it('rejects unknown categories and sort orders', () => {
+    expect(() => validateSearchFilters({ category: 'castles' as any })).toThrow(/category/);
+    expect(() => validateSearchFilters({ sort: 'random' as any })).toThrow(/sort/);
+  });
+});
+
+describe('describeSearchFilters', () => {
+  it('distinguishes searches that produce different URLs', () => {
+    expect(describeSearchFilters()).toBe('');
+    expect(describeSearchFilters({ category: 'homes' })).toBe('');
+    expect(describeSearchFilters({ category: 'offices', maxPrice: 1000, sort: 'newest' })).toBe(
+      'escritorios/com-preco-max_1000/ordem=publicado-desc'
+    );
+  });
+});
+
+describe('parseBedrooms', () => {
+  it('accepts plain numbers, T-prefixed typologies and "+"', () => {
+    expect(parseBedrooms('0,1,2')).toEqual([0, 1, 2]);
+    expect(parseBedrooms('T2, t3')).toEqual([2, 3]);
+    expect(parseBedrooms('5+')).toEqual([5]);
+  });
+
+  it('caps anything above 5 at T5+', () => {
+    expect(parseBedrooms('7')).toEqual([5]);
+  });
+
+  it('rejects garbage', () => {
+    expect(() => parseBedrooms('two')).toThrow(/bedrooms/);
+  });
+});
@@ -0,0 +1,109 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSink, csvField, flattenRecord, toRecord, columnsFor } from '../src/sinks';
+import type { Property } from '../src/types';
+
+function property(id: string, overrides: Partial<Property> = {}): Property {
+  return {
+    id,
+    title: `Apartamento T2, "renovado" ${id}`,
+    price: 250000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: 'Lisboa', country: 'Portugal', coordinates: { lat: 38.72, lon: -9.14 } },
+    details: { sqm: 80, bedrooms: 2 },
+    features: ['elevator', 'terrace'],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    scrapedAt: '2024-03-01T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'idealista-sinks-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('csvField', () => {
+  it('quotes fields with separators and joins arrays', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a, "b"')).toBe('"a, ""b"""');
+    expect(csvField(['x', 'y'])).toBe('x|y');
+    expect(csvField(undefined)).toBe('');
+  });
+});
+
+describe('flattenRecord', () => {
+  it('emits every column with snake_case keys and nulls for missing values', () => {
+    const flat = flattenRecord(toRecord(property('1'), 'property'), columnsFor('property'));
+
+    expect(flat).toMatchObject({
+      id: '1',
+      location_coordinates_lat: 38.72,
+      details_sqm: 80,
+      details_energy_rating: null,
+      features: ['elevator', 'terrace'],
+    });
+    expect(Object.keys(flat)).toHaveLength(columnsFor('property').length);
+  });
+});
+
+describe('file sinks', () => {
+  it('writes JSONL in the standard shape', async () => {
+    const path = join(dir, 'out.jsonl');
+    const sink = createSink('jsonl', path, 'standard');
+    await sink.write([property('1'), property('2')]);
+    await sink.close();
+
+    const lines = readFileSync(path, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.map((line) => [line.portal_id, line.transaction_type, line.price_per_sqm])).toEqual([
+      ['1', 'sale', 3125],
+      ['2', 'sale', 3125],
+    ]);
+  });
+
+  it('writes the CSV header once across runs', async () => {
+    const path = join(dir, 'out.csv');
+    for (const id of ['1', '2']) {
+      const sink = createSink('csv', path);
+      await sink.write([property(id)]);
+      await sink.close();
+    }
+
+    const lines = readFileSync(path, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^id,source,url,title,price,/);
+    expect(lines[1]).toContain('"Apartamento T2, ""renovado"" 1"');
+    expect(lines[1]).toContain('elevator|terrace');
+  });
+
+  it('upserts SQLite rows by portal_id', async () => {
+    const path = join(dir, 'out.db');
+    let sink = createSink('sqlite', path, 'standard');
+    await sink.write([property('1'), property('2')]);
+    await sink.close();
+
+    sink = createSink('sqlite', path, 'standard');
+    await sink.write([property('1', { price: 240000 })]);
+    await sink.close();
+
+    const db = new Database(path, { readonly: true });
+    const rows = db.prepare('SELECT portal_id, price, data FROM properties ORDER BY portal_id').all() as any[];
+    db.close();
+
+    expect(rows.map((row) => [row.portal_id, row.price])).toEqual([
+      ['1', 240000],
+      ['2', 250000],
+    ]);
+    expect(JSON.parse(rows[0].data).price).toBe(240000);
+  });
+});
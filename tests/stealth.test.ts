@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import type { Page } from 'playwright';
+import { describe, expect, it } from 'vitest';
+import { BlockedError } from '../src/errors';
+import { bypassDataDome, detectDataDome } from '../src/stealth';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('detectDataDome', () => {
+  it('treats a normal search page as clear', () => {
+    expect(detectDataDome({ html: fixture('search-lisboa-sale.html'), status: 200 }).outcome).toBe('clear');
+  });
+
+  it('classifies the interstitial captcha as a soft challenge', () => {
+    expect(detectDataDome({ html: fixture('datadome-captcha.html'), status: 403 }).outcome).toBe('soft_challenge');
+  });
+
+  it('classifies a banned visitor as a hard block', () => {
+    expect(detectDataDome({ html: fixture('datadome-blocked.html'), status: 403 }).outcome).toBe('hard_block');
+  });
+
+  it('classifies a 403 without page data as a hard block', () => {
+    expect(detectDataDome({ html: fixture('no-next-data.html'), status: 403 }).outcome).toBe('hard_block');
+  });
+
+  it('treats 429 as a soft challenge', () => {
+    expect(detectDataDome({ html: '', status: 429 }).outcome).toBe('soft_challenge');
+  });
+});
+
+describe('bypassDataDome', () => {
+  /**
+   * A page whose content changes after `navigateAfter` waits, as when a challenge reloads it
+   */
+  function stubPage(contents: string[], navigateAfter?: number) {
+    const listeners: Array<(frame: unknown) => void> = [];
+    const mainFrame = {};
+    let waits = 0;
+    const page = {
+      content: async () => contents[Math.min(waits, contents.length - 1)],
+      context: () => ({ cookies: async () => [] }),
+      url: () => 'https://www.idealista.pt/comprar-casas/lisboa/',
+      mainFrame: () => mainFrame,
+      on: (_event: string, listener: (frame: unknown) => void) => listeners.push(listener),
+      off: (_event: string, listener: (frame: unknown) => void) => listeners.splice(listeners.indexOf(listener), 1),
+      waitForTimeout: async () => {
+        waits++;
+        if (waits === navigateAfter) listeners.forEach((listener) => listener(mainFrame));
+      },
+    };
+    return { page: page as unknown as Page, listeners };
+  }
+
+  it('keeps a bare 429 rate limited while waiting', async () => {
+    const { page, listeners } = stubPage(['']);
+
+    const error = await bypassDataDome(page, { status: 429, waitMs: 50 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BlockedError);
+    expect(error).toMatchObject({ outcome: 'soft_challenge', status: 429 });
+    expect(listeners).toHaveLength(0);
+  });
+
+  it('clears once the challenge navigates to the real page', async () => {
+    const { page } = stubPage([fixture('datadome-captcha.html'), fixture('search-lisboa-sale.html')], 1);
+
+    expect((await bypassDataDome(page, { status: 403, waitMs: 5000 })).outcome).toBe('clear');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { fillRates, formatQualityReport, isInPortugal, validateProperties, validateProperty } from '../src/validation';
+import type { Property } from '../src/types';
+
+function property(id: string, overrides: Partial<Property> = {}): Property {
+  return {
+    id,
+    title: `Apartamento T2 ${id}`,
+    price: 250000,
+    currency: 'EUR',
+    propertyType: 'apartment',
+    transactionType: 'sale',
+    location: { city: 'Lisboa', country: 'Portugal', coordinates: { lat: 38.72, lon: -9.14 } },
+    details: { sqm: 80, bedrooms: 2 },
+    features: [],
+    url: `https://www.idealista.pt/imovel/${id}/`,
+    ...overrides,
+  };
+}
+
+function codes(p: Property): string[] {
+  return validateProperty(p, { transactionType: 'sale' }).map((issue) => issue.code);
+}
+
+describe('validateProperty', () => {
+  it('accepts a complete listing', () => {
+    expect(codes(property('1'))).toEqual([]);
+  });
+
+  it('flags the parser fallbacks', () => {
+    expect(codes(property('idealista-1709294400000'))).toEqual(['synthetic_id']);
+    expect(codes(property('1', { price: 0 }))).toEqual(['missing_price']);
+    expect(codes(property('1', { metadata: { transactionTypeDefaulted: true } }))).toEqual([
+      'invalid_transaction_type',
+    ]);
+  });
+
+  it('flags implausible sizes and coordinates', () => {
+    expect(codes(property('1', { details: { sqm: 3 } }))).toEqual(['implausible_sqm']);
+    expect(
+      codes(property('1', { location: { city: 'Madrid', country: 'Portugal', coordinates: { lat: 40.42, lon: -3.7 } } }))
+    ).toEqual(['coordinates_outside_portugal']);
+  });
+
+  it('only warns about missing optional data', () => {
+    const issues = validateProperty(property('1', { details: {}, location: { city: 'Lisboa', country: 'Portugal' } }));
+
+    expect(issues.map((issue) => [issue.code, issue.severity])).toEqual([
+      ['missing_sqm', 'warning'],
+      ['missing_coordinates', 'warning'],
+    ]);
+  });
+
+  it('warns about listings of the other transaction type', () => {
+    expect(codes(property('1', { transactionType: 'rent', price: 900 }))).toEqual(['transaction_type_mismatch']);
+  });
+});
+
+describe('isInPortugal', () => {
+  it('covers the mainland and the islands', () => {
+    expect(isInPortugal(41.15, -8.61)).toBe(true); // Porto
+    expect(isInPortugal(32.65, -16.91)).toBe(true); // Funchal
+    expect(isInPortugal(37.74, -25.67)).toBe(true); // Ponta Delgada
+    expect(isInPortugal(0, 0)).toBe(false);
+  });
+});
+
+describe('validateProperties', () => {
+  it('quarantines records with errors and reports issues and fill rates', () => {
+    const outcome = validateProperties([
+      property('1'),
+      property('2', { price: 0 }),
+      property('3', { details: {} }),
+    ]);
+
+    expect(outcome.valid.map((p) => p.id)).toEqual(['1', '3']);
+    expect(outcome.quarantined.map((q) => q.property.id)).toEqual(['2']);
+    expect(outcome.report).toMatchObject({
+      total: 3,
+      valid: 2,
+      quarantined: 1,
+      issues: { missing_price: 1, missing_sqm: 1 },
+    });
+    expect(outcome.report.fillRates['details.sqm']).toBe(0.667);
+    expect(outcome.report.fillRates['price']).toBe(0.667);
+    expect(formatQualityReport(outcome.report)).toContain('2/3 valid, 1 quarantined');
+  });
+
+  it('reports zero fill rates for an empty run', () => {
+    expect(fillRates([])['details.sqm']).toBe(0);
+  });
+});